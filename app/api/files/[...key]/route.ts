@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/database'
+import {
+  getStorage,
+  getFileUrl,
+  getContentDisposition,
+  isValidKey,
+  LocalStorage,
+} from '@/lib/storage'
+
+// Serves stored render outputs. Signed URLs work without a session; stable
+// URLs require the signed-in owner. Local files are streamed here with range
+// support so players can seek; remote files redirect to a presigned URL.
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const key = params.key.join('/')
+    if (!isValidKey(key)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const storage = getStorage()
+    const { searchParams } = new URL(request.url)
+    const signature = searchParams.get('signature')
+    const downloadName = searchParams.get('download') ?? undefined
+
+    if (signature) {
+      // Signed URLs are only issued for local storage; remote ones go to the bucket
+      const expires = Number(searchParams.get('expires'))
+      if (!(storage instanceof LocalStorage) ||
+        !storage.verifySignature(key, expires, signature, downloadName)) {
+        return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 })
+      }
+    } else {
+      const session = await getServerSession(authOptions)
+
+      if (!session?.user?.id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!await isOwnedFile(key, session.user.id)) {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 })
+      }
+
+      if (!(storage instanceof LocalStorage)) {
+        const url = await storage.getSignedUrl(key, downloadName ? { downloadName } : {})
+        return NextResponse.redirect(url, 302)
+      }
+    }
+
+    return await serveLocalFile(request, storage as LocalStorage, key, downloadName)
+  } catch (error) {
+    console.error('File serve error:', error)
+    return NextResponse.json(
+      { error: 'Failed to serve file' },
+      { status: 500 }
+    )
+  }
+}
+
+async function isOwnedFile(key: string, userId: string): Promise<boolean> {
+  const url = getFileUrl(key)
+
+  const render = await prisma.render.findFirst({
+    where: { videoUrl: url, project: { userId } },
+    select: { id: true },
+  })
+  if (render) return true
+
+  const project = await prisma.project.findFirst({
+    where: {
+      userId,
+      OR: [{ videoUrl: url }, { thumbnailUrl: url }],
+    },
+    select: { id: true },
+  })
+  return project !== null
+}
+
+async function serveLocalFile(
+  request: NextRequest,
+  storage: LocalStorage,
+  key: string,
+  downloadName: string | undefined
+) {
+  const info = await storage.stat(key)
+  if (!info) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 })
+  }
+
+  const headers = new Headers({
+    'Content-Type': info.contentType,
+    'Accept-Ranges': 'bytes',
+    'Last-Modified': info.modifiedAt.toUTCString(),
+    'Cache-Control': 'private, max-age=3600',
+  })
+  if (downloadName) {
+    headers.set('Content-Disposition', getContentDisposition(downloadName))
+  }
+
+  const rangeHeader = request.headers.get('range')
+  const range = rangeHeader ? parseRange(rangeHeader, info.size) : null
+
+  if (rangeHeader && !range) {
+    headers.set('Content-Range', `bytes */${info.size}`)
+    return new Response(null, { status: 416, headers })
+  }
+
+  if (range) {
+    headers.set('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`)
+    headers.set('Content-Length', String(range.end - range.start + 1))
+  } else {
+    headers.set('Content-Length', String(info.size))
+  }
+
+  const stream = storage.createReadStream(key, range ?? undefined)
+  return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+    status: range ? 206 : 200,
+    headers,
+  })
+}
+
+// Single byte ranges only ("bytes=0-499", "bytes=500-", "bytes=-500"), which
+// is all that media players send; returns null when unsatisfiable
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2]) || size === 0) return null
+
+  let start: number
+  let end: number
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]))
+    end = size - 1
+  } else {
+    start = Number(match[1])
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  }
+
+  return start <= end && start < size ? { start, end } : null
+}
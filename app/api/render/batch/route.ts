@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/database'
+
+// Status of a multi-output render started with POST /api/render { outputs: [...] }
+
+type RenderStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const batchId = searchParams.get('id')
+
+    if (!batchId) {
+      return NextResponse.json({ error: 'Batch ID required' }, { status: 400 })
+    }
+
+    const renders = await prisma.render.findMany({
+      where: {
+        batchId,
+        project: {
+          userId: session.user.id,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    if (renders.length === 0) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    }
+
+    const statuses: RenderStatus[] = renders.map((render: { status: RenderStatus }) => render.status)
+    const progress = renders.reduce(
+      (total: number, render: { status: RenderStatus; progress: number }) =>
+        total + (render.status === 'PENDING' || render.status === 'PROCESSING' ? render.progress : 100),
+      0
+    ) / renders.length
+
+    return NextResponse.json({
+      batchId,
+      status: getBatchStatus(statuses),
+      progress: Math.round(progress),
+      completed: statuses.filter(status => status === 'COMPLETED').length,
+      total: renders.length,
+      renders: renders.map((render: any) => ({
+        id: render.id,
+        status: render.status,
+        progress: render.progress,
+        settings: render.settings,
+        videoUrl: render.videoUrl,
+        warnings: render.warnings,
+        errorMessage: render.errorMessage,
+        createdAt: render.createdAt,
+        completedAt: render.completedAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Get batch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get batch status' },
+      { status: 500 }
+    )
+  }
+}
+
+// A batch is running until every output settles; PARTIAL means some outputs
+// completed and the rest failed or were cancelled
+function getBatchStatus(statuses: RenderStatus[]): RenderStatus | 'PARTIAL' {
+  if (statuses.every(status => status === 'PENDING')) return 'PENDING'
+  if (statuses.some(status => status === 'PENDING' || status === 'PROCESSING')) return 'PROCESSING'
+  if (statuses.every(status => status === 'COMPLETED')) return 'COMPLETED'
+  if (statuses.every(status => status === 'CANCELLED')) return 'CANCELLED'
+  return statuses.includes('COMPLETED') ? 'PARTIAL' : 'FAILED'
+}
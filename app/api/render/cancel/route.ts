@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/database'
+import { cancelRender } from '@/lib/queue/render-queue'
+import { z } from 'zod'
+
+const cancelSchema = z.object({
+  renderId: z.string(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { renderId } = cancelSchema.parse(body)
+
+    // Verify render ownership
+    const render = await prisma.render.findFirst({
+      where: {
+        id: renderId,
+        project: {
+          userId: session.user.id,
+        },
+      },
+    })
+
+    if (!render) {
+      return NextResponse.json({ error: 'Render not found' }, { status: 404 })
+    }
+
+    if (render.status !== 'PENDING' && render.status !== 'PROCESSING') {
+      return NextResponse.json(
+        { error: `Render is already ${render.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    // Queued jobs are removed; running ones stop at the next frame
+    await cancelRender(render.id)
+
+    return NextResponse.json({
+      success: true,
+      render: {
+        id: render.id,
+        status: 'CANCELLED',
+      },
+    })
+  } catch (error) {
+    console.error('Render cancel error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to cancel render' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/database'
+import { subscribeToRenderProgress, RenderProgressEvent } from '@/lib/queue/render-queue'
+
+// Streams live render progress as Server-Sent Events. Updates come from the
+// render queue's progress events, so open streams don't poll Postgres.
+
+export const dynamic = 'force-dynamic'
+
+const KEEP_ALIVE_INTERVAL = 15000 // ms; keeps proxies from closing idle streams
+
+const TERMINAL_STATUSES = ['COMPLETED', 'FAILED', 'CANCELLED']
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const renderId = searchParams.get('id')
+
+    if (!renderId) {
+      return NextResponse.json({ error: 'Render ID required' }, { status: 400 })
+    }
+
+    const render = await prisma.render.findFirst({
+      where: {
+        id: renderId,
+        project: {
+          userId: session.user.id,
+        },
+      },
+    })
+
+    if (!render) {
+      return NextResponse.json({ error: 'Render not found' }, { status: 404 })
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+
+        const close = () => {
+          if (closed) return
+          cleanup()
+          controller.close()
+        }
+
+        const send = (event: RenderProgressEvent) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`event: progress\ndata: ${JSON.stringify(event)}\n\n`))
+          if (TERMINAL_STATUSES.includes(event.status)) {
+            close()
+          }
+        }
+
+        const unsubscribe = subscribeToRenderProgress(render.id, send)
+        const keepAlive = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'))
+          }
+        }, KEEP_ALIVE_INTERVAL)
+
+        cleanup = () => {
+          closed = true
+          clearInterval(keepAlive)
+          unsubscribe()
+        }
+
+        request.signal.addEventListener('abort', cleanup)
+
+        // Start from the stored state; finished renders close right away
+        send({
+          renderId: render.id,
+          status: render.status,
+          progress: render.progress,
+          ...(render.videoUrl ? { videoUrl: render.videoUrl } : {}),
+          ...(Array.isArray(render.warnings) ? { warnings: render.warnings as string[] } : {}),
+          ...(render.errorMessage ? { error: render.errorMessage } : {}),
+        })
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Render events error:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream render progress' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,204 @@
 import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import { randomUUID } from 'crypto'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/database'
-import { renderQueue } from '@/lib/queue/render-queue'
+import { enqueueRender, RenderJobData } from '@/lib/queue/render-queue'
+import { SpriteSheetOptions } from '@/lib/motion-engine/frame-sequence'
+import { FramePadding } from '@/lib/motion-engine/rasterizer'
+import { getRenderPresets, RenderPreset, RENDER_QUALITY_IDS } from '@/lib/motion-engine/render-presets'
+import { MotionProject } from '@/lib/motion-engine/core'
+import { getStorage, getKeyFromUrl, DEFAULT_URL_TTL } from '@/lib/storage'
 import { z } from 'zod'
 
-const renderSchema = z.object({
+const outputSchema = z.object({
+  preset: z.string().optional(), // delivery preset id, e.g. 'instagram-reel'
+  format: z.enum(['mp4', 'webm', 'gif', 'mov', 'lottie', 'frames', 'png', 'jpeg']).optional(),
+  quality: z.enum(RENDER_QUALITY_IDS).optional(),
+  resolution: z.enum(['720p', '1080p', '4k']).optional(),
+  aspectRatio: z.string().regex(/^[1-9]\d{0,3}:[1-9]\d{0,3}$/, 'Expected width:height, e.g. 9:16').optional(),
+  padding: z.object({
+    mode: z.enum(['bars', 'blur']), // bars letterbox or pillarbox as the shape requires
+    color: z.string().regex(/^#([0-9a-f]{6}|[0-9a-f]{8})$/i).optional(),
+  }).optional(),
+  spriteSheet: z.object({
+    columns: z.number().int().min(1).optional(),
+    padding: z.number().int().min(0).max(64).optional(),
+    maxSize: z.number().int().min(256).max(16384).optional(),
+  }).optional(),
+  alpha: z.boolean().optional().default(false),
+  startFrame: z.number().int().min(0).optional(),
+  endFrame: z.number().int().min(0).optional(),
+  frame: z.number().int().min(0).optional(), // still formats only
+  setThumbnail: z.boolean().optional().default(false),
+})
+
+const renderSchema = outputSchema.extend({
+  projectId: z.string(),
+})
+
+// One project rendered to several outputs, tracked under a shared batch id
+const MAX_BATCH_OUTPUTS = 10
+
+const batchSchema = z.object({
   projectId: z.string(),
-  format: z.enum(['mp4', 'webm', 'gif']).optional().default('mp4'),
-  quality: z.enum(['low', 'medium', 'high', 'ultra']).optional().default('high'),
-  resolution: z.enum(['720p', '1080p', '4k']).optional().default('1080p'),
+  outputs: z.array(outputSchema).min(1).max(MAX_BATCH_OUTPUTS),
 })
 
+type OutputRequest = z.infer<typeof outputSchema>
+
+type RenderRequest = OutputRequest & {
+  format: NonNullable<OutputRequest['format']>
+}
+
+type ResolvedOutput = Omit<RenderJobData, 'renderId' | 'projectId' | 'config' | 'userId'>
+
+type OutputResolution =
+  | { output: ResolvedOutput; preset: RenderPreset | undefined; warnings: string[] }
+  | { error: string; status: number; details?: string[] }
+
+// Formats that can carry a transparent background
+const ALPHA_FORMATS = ['mov', 'webm', 'frames', 'png']
+
+// Formats that capture a single frame
+const STILL_FORMATS = ['png', 'jpeg']
+
+function getRenderRequestError(input: RenderRequest, projectDuration: number | null): string | null {
+  const still = STILL_FORMATS.includes(input.format)
+
+  if (input.spriteSheet && input.format !== 'frames') {
+    return 'Sprite sheets are only available for the frames format'
+  }
+  if (input.alpha && !ALPHA_FORMATS.includes(input.format)) {
+    return `Transparent renders require one of: ${ALPHA_FORMATS.join(', ')}`
+  }
+  if (input.aspectRatio && input.format === 'lottie') {
+    return 'Lottie exports always keep the project\'s aspect ratio'
+  }
+  if (!still && (input.frame !== undefined || input.setThumbnail)) {
+    return `Single frames and thumbnails require one of: ${STILL_FORMATS.join(', ')}`
+  }
+  if (still && (input.startFrame !== undefined || input.endFrame !== undefined)) {
+    return 'Still renders take a single frame, not a frame range'
+  }
+  if (input.startFrame !== undefined && input.endFrame !== undefined && input.endFrame < input.startFrame) {
+    return 'endFrame must not be before startFrame'
+  }
+
+  if (projectDuration !== null) {
+    const outside = [input.frame, input.startFrame, input.endFrame]
+      .find(frame => frame !== undefined && frame >= projectDuration)
+    if (outside !== undefined) {
+      return `Frame ${outside} is outside the project (${projectDuration} frames)`
+    }
+  }
+
+  return null
+}
+
+function getPresetConflict(input: OutputRequest, preset: RenderPreset): string | null {
+  if (input.format && input.format !== preset.format) {
+    return `The ${preset.name} preset renders ${preset.format}, not ${input.format}`
+  }
+  if (input.resolution && input.resolution !== preset.resolution) {
+    return `The ${preset.name} preset renders at ${preset.resolution}, not ${input.resolution}`
+  }
+  const aspectRatio = input.aspectRatio ? parseAspectRatio(input.aspectRatio) : null
+  if (aspectRatio && aspectRatio.width * preset.aspectRatio.height !== aspectRatio.height * preset.aspectRatio.width) {
+    return `The ${preset.name} preset renders ${preset.aspectRatio.width}:${preset.aspectRatio.height}, not ${input.aspectRatio}`
+  }
+  if (input.alpha || input.spriteSheet || input.frame !== undefined || input.setThumbnail) {
+    return `The ${preset.name} preset renders a standard video`
+  }
+  return null
+}
+
+function parseAspectRatio(value: string): { width: number; height: number } {
+  const [width, height] = value.split(':').map(Number)
+  return { width: width ?? 1, height: height ?? 1 }
+}
+
+function isProjectConfig(
+  config: Partial<MotionProject> | null
+): config is Pick<MotionProject, 'width' | 'height' | 'fps' | 'duration'> {
+  return typeof config?.width === 'number' &&
+    typeof config.height === 'number' &&
+    typeof config.fps === 'number' &&
+    typeof config.duration === 'number'
+}
+
+// Turn one requested output into render job options, or explain why it can't render
+function resolveOutput(requested: OutputRequest, config: Partial<MotionProject> | null): OutputResolution {
+  // A preset fixes the delivery format; only quality may be overridden
+  const preset = requested.preset ? getRenderPresets().getPreset(requested.preset) : undefined
+  if (requested.preset && !preset) {
+    return { error: `Unknown render preset: ${requested.preset}`, status: 400 }
+  }
+  const presetError = preset ? getPresetConflict(requested, preset) : null
+  if (presetError) {
+    return { error: presetError, status: 400 }
+  }
+
+  const input: RenderRequest = { ...requested, format: preset?.format ?? requested.format ?? 'mp4' }
+  const requestError = getRenderRequestError(
+    input,
+    typeof config?.duration === 'number' ? config.duration : null
+  )
+  if (requestError) {
+    return { error: requestError, status: 400 }
+  }
+
+  // Reject renders the target platform would refuse, before any work is queued
+  let warnings: string[] = []
+  if (preset) {
+    if (!isProjectConfig(config)) {
+      return { error: 'Project has no renderable configuration', status: 400 }
+    }
+
+    const validation = getRenderPresets().validateProject(config, preset, {
+      ...(input.startFrame !== undefined ? { startFrame: input.startFrame } : {}),
+      ...(input.endFrame !== undefined ? { endFrame: input.endFrame } : {}),
+    })
+    if (!validation.valid) {
+      return {
+        error: `Project does not meet the ${preset.name} preset`,
+        status: 422,
+        details: validation.errors,
+      }
+    }
+    warnings = validation.warnings
+  }
+
+  const aspectRatio = preset?.aspectRatio ?? (input.aspectRatio ? parseAspectRatio(input.aspectRatio) : undefined)
+
+  return {
+    preset,
+    warnings,
+    output: {
+      format: input.format,
+      quality: input.quality ?? preset?.quality ?? 'high',
+      resolution: preset?.resolution ?? input.resolution ?? '1080p',
+      ...(preset
+        ? {
+          preset: preset.id,
+          fps: preset.fps,
+          maxBitrate: preset.maxBitrate,
+          maxFileSize: preset.maxFileSize,
+        }
+        : {}),
+      ...(aspectRatio ? { aspectRatio } : {}),
+      ...(input.padding ? { padding: input.padding as FramePadding } : {}),
+      ...(input.spriteSheet ? { spriteSheet: input.spriteSheet as SpriteSheetOptions } : {}),
+      alpha: input.alpha,
+      ...(input.startFrame !== undefined ? { startFrame: input.startFrame } : {}),
+      ...(input.endFrame !== undefined ? { endFrame: input.endFrame } : {}),
+      ...(input.frame !== undefined ? { frame: input.frame } : {}),
+      setThumbnail: input.setThumbnail,
+    },
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -20,8 +207,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Either a single output or { projectId, outputs: [...] } for a batch
     const body = await request.json()
-    const { projectId, format, quality, resolution } = renderSchema.parse(body)
+    const batch = Array.isArray(body?.outputs)
+    let projectId: string
+    let requested: OutputRequest[]
+    if (batch) {
+      ({ projectId, outputs: requested } = batchSchema.parse(body))
+    } else {
+      const { projectId: id, ...output } = renderSchema.parse(body)
+      projectId = id
+      requested = [output]
+    }
 
     // Verify project ownership
     const project = await prisma.project.findFirst({
@@ -35,39 +232,77 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // Create render record
-    const render = await prisma.render.create({
-      data: {
+    // Validate every output before queueing any of them
+    const config = project.config as Partial<MotionProject> | null
+    const results = requested.map(output => resolveOutput(output, config))
+    const resolved: Array<Extract<OutputResolution, { output: ResolvedOutput }>> = []
+    for (let index = 0; index < results.length; index++) {
+      const result = results[index]!
+      if ('error' in result) {
+        return NextResponse.json(
+          {
+            error: batch ? `outputs[${index}]: ${result.error}` : result.error,
+            ...(result.details ? { details: result.details } : {}),
+          },
+          { status: result.status }
+        )
+      }
+      resolved.push(result)
+    }
+
+    const batchId = batch ? randomUUID() : null
+    const renders = []
+
+    for (const { output, preset, warnings } of resolved) {
+      // Create render record
+      const render = await prisma.render.create({
+        data: {
+          projectId,
+          status: 'PENDING',
+          progress: 0,
+          batchId,
+          settings: output,
+        },
+      })
+
+      // Add to render queue; long videos are split into chunks
+      await enqueueRender({
+        ...output,
+        renderId: render.id,
         projectId,
-        status: 'PENDING',
-        progress: 0,
-      },
-    })
+        config: project.config,
+        userId: session.user.id,
+      })
 
-    // Add to render queue
-    await renderQueue.add('render-video', {
-      renderId: render.id,
-      projectId,
-      config: project.config,
-      format,
-      quality,
-      resolution,
-      userId: session.user.id,
-    })
+      renders.push({
+        render: {
+          id: render.id,
+          status: render.status,
+          progress: render.progress,
+        },
+        ...(preset ? { preset: preset.id, warnings } : {}),
+      })
+    }
 
-    // Update project status
-    await prisma.project.update({
-      where: { id: projectId },
-      data: { status: 'RENDERING' },
-    })
+    // Stills are quick captures and leave the project status alone
+    if (resolved.some(({ output }) => !STILL_FORMATS.includes(output.format))) {
+      await prisma.project.update({
+        where: { id: projectId },
+        data: { status: 'RENDERING' },
+      })
+    }
+
+    if (batchId) {
+      return NextResponse.json({
+        success: true,
+        batchId,
+        renders: renders.map(({ render, ...rest }) => ({ ...render, ...rest })),
+      })
+    }
 
     return NextResponse.json({
       success: true,
-      render: {
-        id: render.id,
-        status: render.status,
-        progress: render.progress,
-      },
+      ...renders[0],
     })
   } catch (error) {
     console.error('Render error:', error)
@@ -117,6 +352,14 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Render not found' }, { status: 404 })
     }
 
+    // Short-lived link that works without a session, e.g. for sharing or CDNs
+    const key = render.status === 'COMPLETED' && render.videoUrl ? getKeyFromUrl(render.videoUrl) : null
+    const downloadUrl = key
+      ? await getStorage().getSignedUrl(key, {
+        downloadName: `${render.project.title}${path.extname(key)}`,
+      })
+      : null
+
     return NextResponse.json({
       success: true,
       render: {
@@ -124,6 +367,15 @@ export async function GET(request: NextRequest) {
         status: render.status,
         progress: render.progress,
         videoUrl: render.videoUrl,
+        downloadUrl,
+        downloadExpiresAt: downloadUrl ? new Date(Date.now() + DEFAULT_URL_TTL * 1000) : null,
+        // BigInt does not serialize to JSON
+        fileSize: render.fileSize !== null ? Number(render.fileSize) : null,
+        duration: render.duration,
+        reusedFrames: render.reusedFrames,
+        batchId: render.batchId,
+        settings: render.settings,
+        warnings: render.warnings,
         errorMessage: render.errorMessage,
         startedAt: render.startedAt,
         completedAt: render.completedAt,
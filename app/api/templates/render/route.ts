@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/database'
+import { enqueueRender, RenderJobData } from '@/lib/queue/render-queue'
+import { getRenderPresets, RENDER_QUALITY_IDS } from '@/lib/motion-engine/render-presets'
+import {
+  getTemplateDataBinder,
+  TemplateConfig,
+  TemplateRow,
+  TemplateRowResult,
+} from '@/lib/motion-engine/template-data'
+import { z } from 'zod'
+
+// Renders a template once per data row. Each valid row becomes its own project
+// and render, grouped under a batch id (see /api/render/batch); invalid rows
+// are reported back and skipped.
+
+const MAX_ROWS = 100
+
+const templateRenderSchema = z.object({
+  templateId: z.string(),
+  rows: z.array(z.record(z.unknown())).min(1).max(MAX_ROWS).optional(),
+  csv: z.string().min(1).max(1024 * 1024).optional(),
+  titleVariable: z.string().optional(), // names each project after this variable
+  output: z.object({
+    preset: z.string().optional(),
+    format: z.enum(['mp4', 'webm', 'gif', 'mov', 'png', 'jpeg']).optional(),
+    quality: z.enum(RENDER_QUALITY_IDS).optional(),
+    resolution: z.enum(['720p', '1080p', '4k']).optional(),
+  }).optional().default({}),
+}).refine(input => (input.rows === undefined) !== (input.csv === undefined), {
+  message: 'Provide either rows or csv',
+})
+
+// Formats that capture a single frame
+const STILL_FORMATS = ['png', 'jpeg']
+
+type RowError = Pick<TemplateRowResult, 'row' | 'errors'>
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { templateId, rows, csv, titleVariable, output } = templateRenderSchema.parse(body)
+
+    const template = await prisma.template.findFirst({
+      where: {
+        id: templateId,
+        OR: [{ isPublic: true }, { userId: session.user.id }],
+      },
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const binder = getTemplateDataBinder()
+    const config = template.config as TemplateConfig
+    const slots = config.slots ?? []
+
+    if (slots.length === 0) {
+      return NextResponse.json({ error: 'Template has no variable slots' }, { status: 400 })
+    }
+
+    const slotErrors = binder.validateSlots(config)
+    if (slotErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid template slots', details: slotErrors },
+        { status: 422 }
+      )
+    }
+
+    let data: TemplateRow[]
+    try {
+      data = rows ?? binder.parseCsv(csv ?? '')
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid CSV' },
+        { status: 400 }
+      )
+    }
+
+    if (data.length === 0 || data.length > MAX_ROWS) {
+      return NextResponse.json(
+        { error: `Expected between 1 and ${MAX_ROWS} rows, got ${data.length}` },
+        { status: 400 }
+      )
+    }
+
+    // Every row shares the template's shape, so the preset is checked once
+    const preset = output.preset ? getRenderPresets().getPreset(output.preset) : undefined
+    if (output.preset && !preset) {
+      return NextResponse.json({ error: `Unknown render preset: ${output.preset}` }, { status: 400 })
+    }
+    if (preset) {
+      if (output.format || output.resolution) {
+        return NextResponse.json(
+          { error: `The ${preset.name} preset fixes the format and resolution` },
+          { status: 400 }
+        )
+      }
+      if (!isRenderableConfig(config)) {
+        return NextResponse.json({ error: 'Template has no renderable configuration' }, { status: 400 })
+      }
+
+      const validation = getRenderPresets().validateProject(config, preset)
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: `Template does not meet the ${preset.name} preset`, details: validation.errors },
+          { status: 422 }
+        )
+      }
+    }
+
+    const renderOptions: Pick<RenderJobData, 'format' | 'quality' | 'resolution'> & Partial<RenderJobData> = preset
+      ? {
+        ...getRenderPresets().getRenderOptions(preset),
+        preset: preset.id,
+        ...(output.quality ? { quality: output.quality } : {}),
+      }
+      : {
+        format: output.format ?? 'mp4',
+        quality: output.quality ?? 'high',
+        resolution: output.resolution ?? '1080p',
+      }
+    const still = STILL_FORMATS.includes(renderOptions.format)
+
+    const batchId = randomUUID()
+    const renders: Array<{ row: number; projectId: string; renderId: string }> = []
+    const errors: RowError[] = []
+
+    for (let index = 0; index < data.length; index++) {
+      const result = binder.validateRow(slots, data[index]!, index)
+      if (result.errors.length > 0) {
+        errors.push({ row: result.row, errors: result.errors })
+        continue
+      }
+
+      const title = titleVariable && result.values[titleVariable] !== undefined
+        ? String(result.values[titleVariable]).slice(0, 100)
+        : `${template.title} #${result.row}`
+
+      try {
+        const projectConfig = binder.applyRow(config, result.values)
+
+        const project = await prisma.project.create({
+          data: {
+            title,
+            description: template.description,
+            userId: session.user.id,
+            templateId: template.id,
+            config: projectConfig,
+            status: still ? 'DRAFT' : 'RENDERING',
+          },
+        })
+
+        const render = await prisma.render.create({
+          data: {
+            projectId: project.id,
+            status: 'PENDING',
+            progress: 0,
+            batchId,
+            settings: { ...renderOptions, row: result.row },
+          },
+        })
+
+        await enqueueRender({
+          ...renderOptions,
+          renderId: render.id,
+          projectId: project.id,
+          config: projectConfig,
+          userId: session.user.id,
+        })
+
+        renders.push({ row: result.row, projectId: project.id, renderId: render.id })
+      } catch (error) {
+        console.error(`Template row ${result.row} failed to queue:`, error)
+        errors.push({ row: result.row, errors: ['Failed to queue render'] })
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: renders.length > 0,
+        batchId: renders.length > 0 ? batchId : null,
+        total: data.length,
+        queued: renders.length,
+        renders,
+        errors,
+      },
+      { status: renders.length > 0 ? 200 : 422 }
+    )
+  } catch (error) {
+    console.error('Template render error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to render template' },
+      { status: 500 }
+    )
+  }
+}
+
+function isRenderableConfig(
+  config: TemplateConfig
+): config is TemplateConfig & { width: number; height: number; fps: number; duration: number } {
+  return typeof config.width === 'number' &&
+    typeof config.height === 'number' &&
+    typeof config.fps === 'number' &&
+    typeof config.duration === 'number'
+}
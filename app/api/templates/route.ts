@@ -2,13 +2,31 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/database'
+import { getTemplateDataBinder, isSafePropertyPath, TemplateConfig } from '@/lib/motion-engine/template-data'
 import { z } from 'zod'
 
+// Variable slots filled from data rows, see /api/templates/render
+const slotSchema = z.object({
+  id: z.string(),
+  elementId: z.string(),
+  property: z.string().min(1).refine(isSafePropertyPath, 'Property path is not allowed'),
+  variable: z.string().min(1).max(64),
+  type: z.enum(['text', 'number', 'color', 'boolean', 'url']),
+  required: z.boolean().optional(),
+  defaultValue: z.any().optional(),
+  maxLength: z.number().int().positive().optional(),
+  expression: z.string().optional(),
+  controller: z.object({}).passthrough().optional(),
+  enabled: z.boolean().optional().default(true),
+})
+
 const templateSchema = z.object({
   title: z.string().min(1).max(100),
   description: z.string().optional(),
   category: z.string().min(1),
-  config: z.object({}).passthrough(),
+  config: z.object({
+    slots: z.array(slotSchema).optional(),
+  }).passthrough(),
   isPublic: z.boolean().optional().default(false),
   tags: z.array(z.string()).optional().default([]),
 })
@@ -91,6 +109,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { title, description, category, config, isPublic, tags } = templateSchema.parse(body)
 
+    const slotErrors = getTemplateDataBinder().validateSlots(config as unknown as TemplateConfig)
+    if (slotErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid template slots', details: slotErrors },
+        { status: 400 }
+      )
+    }
+
     const template = await prisma.template.create({
       data: {
         title,
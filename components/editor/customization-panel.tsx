@@ -29,6 +29,12 @@ import {
   Trash2
 } from 'lucide-react'
 import { MotionProject } from '@/lib/motion-engine'
+import {
+  getRenderPresets,
+  RENDER_FORMATS,
+  RENDER_QUALITIES,
+} from '@/lib/motion-engine/render-presets'
+import { reframeProject, ReframeReport } from '@/lib/motion-engine/reframe'
 import { ColorPicker } from '@/components/ui/color-picker'
 
 interface CustomizationPanelProps {
@@ -53,19 +59,7 @@ const ANIMATION_PRESETS = [
   { name: 'Elastic', easing: 'elastic', speed: 0.7, description: 'Spring-like motion' },
 ]
 
-const EXPORT_FORMATS = [
-  { id: 'mp4', name: 'MP4', description: 'Best for web and social media' },
-  { id: 'webm', name: 'WebM', description: 'Optimized for web browsers' },
-  { id: 'gif', name: 'GIF', description: 'Animated image format' },
-  { id: 'lottie', name: 'Lottie', description: 'JSON animation for web/mobile' },
-]
-
-const QUALITY_OPTIONS = [
-  { id: 'draft', name: 'Draft', description: 'Fast preview quality' },
-  { id: 'preview', name: 'Preview', description: 'Good for review' },
-  { id: 'high', name: 'High', description: 'Production quality' },
-  { id: 'ultra', name: 'Ultra', description: 'Maximum quality' },
-]
+const RENDER_PRESETS = getRenderPresets().getPresets()
 
 export function CustomizationPanel({ 
   project, 
@@ -74,6 +68,13 @@ export function CustomizationPanel({
   onElementUpdate 
 }: CustomizationPanelProps) {
   const [activeTab, setActiveTab] = useState('dimensions')
+  const [renderPresetId, setRenderPresetId] = useState<string | null>(null)
+  const [reframeReport, setReframeReport] = useState<ReframeReport | null>(null)
+
+  const renderPreset = renderPresetId ? getRenderPresets().getPreset(renderPresetId) : undefined
+  const presetValidation = renderPreset && project
+    ? getRenderPresets().validateProject(project, renderPreset)
+    : null
 
   const selectedElement = selectedElementId && project ? 
     project.scenes.flatMap(scene => scene.elements).find(el => el.id === selectedElementId) : 
@@ -82,11 +83,12 @@ export function CustomizationPanel({
   const handleDimensionPreset = (preset: typeof PRESET_DIMENSIONS[0]) => {
     if (!project) return
     
-    const updatedProject = {
-      ...project,
+    // Re-lay out elements for the new frame rather than leaving them in place
+    const { project: updatedProject, report } = reframeProject(project, {
       width: preset.width,
       height: preset.height,
-    }
+    })
+    setReframeReport(report)
     onProjectUpdate(updatedProject)
   }
 
@@ -187,6 +189,10 @@ export function CustomizationPanel({
                     )
                   })}
                 </div>
+
+                {reframeReport?.unfitted.map((issue) => (
+                  <p key={issue.elementId} className="text-xs text-destructive">{issue.message}</p>
+                ))}
               </div>
 
               <Separator />
@@ -494,11 +500,50 @@ export function CustomizationPanel({
             </TabsContent>
 
             <TabsContent value="export" className="space-y-4 mt-0">
+              {/* Delivery Preset */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Delivery Preset</Label>
+                <Select onValueChange={setRenderPresetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select platform preset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RENDER_PRESETS.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        <div>
+                          <div className="font-medium">{preset.name}</div>
+                          <div className="text-xs opacity-70">{preset.description}</div>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {renderPreset && (
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary">{renderPreset.aspectRatio.width}:{renderPreset.aspectRatio.height}</Badge>
+                    <Badge variant="secondary">{renderPreset.resolution}</Badge>
+                    <Badge variant="secondary">{renderPreset.fps} fps</Badge>
+                    <Badge variant="secondary">{renderPreset.codec.toUpperCase()}</Badge>
+                    <Badge variant="secondary">max {renderPreset.maxDuration}s</Badge>
+                  </div>
+                )}
+
+                {presetValidation?.errors.map((error) => (
+                  <p key={error} className="text-xs text-destructive">{error}</p>
+                ))}
+                {presetValidation?.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-muted-foreground">{warning}</p>
+                ))}
+              </div>
+
+              <Separator />
+
               {/* Format Selection */}
               <div className="space-y-3">
                 <Label className="text-sm font-medium">Export Format</Label>
                 <div className="grid grid-cols-1 gap-2">
-                  {EXPORT_FORMATS.map((format) => (
+                  {RENDER_FORMATS.map((format) => (
                     <Button
                       key={format.id}
                       variant="outline"
@@ -524,7 +569,7 @@ export function CustomizationPanel({
                     <SelectValue placeholder="Select quality" />
                   </SelectTrigger>
                   <SelectContent>
-                    {QUALITY_OPTIONS.map((quality) => (
+                    {RENDER_QUALITIES.map((quality) => (
                       <SelectItem key={quality.id} value={quality.id}>
                         <div>
                           <div className="font-medium">{quality.name}</div>
@@ -0,0 +1,48 @@
+import path from 'path'
+
+// Where the renderer may read project assets from. Sources come from project
+// data, so they are untrusted: local paths must stay inside the upload
+// directory, and remote URLs are fetched only from hosts listed in
+// ASSET_ALLOWED_HOSTS (none by default).
+
+export type AssetSource =
+  | { type: 'data'; uri: string }
+  | { type: 'file'; path: string }
+  | { type: 'url'; url: URL }
+
+// Throws when the source is not allowed
+export function resolveAssetSource(src: string): AssetSource {
+  if (src.startsWith('data:')) {
+    return { type: 'data', uri: src }
+  }
+
+  if (/^https?:\/\//i.test(src)) {
+    const url = new URL(src)
+    if (!getAllowedHosts().includes(url.hostname.toLowerCase())) {
+      throw new Error(`Asset host ${url.hostname} is not in ASSET_ALLOWED_HOSTS`)
+    }
+    return { type: 'url', url }
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(src)) {
+    throw new Error(`Unsupported asset source: ${src}`)
+  }
+
+  const root = path.resolve(getUploadDir())
+  const filePath = path.resolve(root, src)
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Asset path escapes the upload directory: ${src}`)
+  }
+  return { type: 'file', path: filePath }
+}
+
+export function getUploadDir(): string {
+  return process.env['UPLOAD_DIR'] || path.join(process.cwd(), 'uploads')
+}
+
+function getAllowedHosts(): string[] {
+  return (process.env['ASSET_ALLOWED_HOSTS'] ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+}
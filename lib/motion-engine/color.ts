@@ -0,0 +1,391 @@
+import type { GlobalSettings } from './core'
+
+// CSS color parsing and interpolation. Colors are read as hex, rgb(a), hsl(a)
+// or named colors and blended in the chosen space with premultiplied alpha, so
+// fading from transparent doesn't pass through a dark fringe. Component values
+// are taken to be in the project's working space (GlobalSettings.colorSpace),
+// which sets the transfer curve and primaries used for 'linear' and 'oklab'.
+
+export interface RGBA {
+  r: number // 0..1, encoded with the working space's transfer curve
+  g: number
+  b: number
+  a: number
+}
+
+export type ColorInterpolationSpace = 'srgb' | 'linear' | 'oklab' | 'hsl'
+
+export type WorkingColorSpace = GlobalSettings['colorSpace']
+
+export interface GradientStop {
+  color: string
+  position: number
+}
+
+export const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4',
+  azure: '#f0ffff', beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000',
+  blanchedalmond: '#ffebcd', blue: '#0000ff', blueviolet: '#8a2be2', brown: '#a52a2a',
+  burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00', chocolate: '#d2691e',
+  coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9', darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b', darkolivegreen: '#556b2f', darkorange: '#ff8c00', darkorchid: '#9932cc',
+  darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f', darkslateblue: '#483d8b',
+  darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f', darkturquoise: '#00ced1', darkviolet: '#9400d3',
+  deeppink: '#ff1493', deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969',
+  dodgerblue: '#1e90ff', firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22',
+  fuchsia: '#ff00ff', gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700',
+  goldenrod: '#daa520', gray: '#808080', green: '#008000', greenyellow: '#adff2f',
+  grey: '#808080', honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c',
+  indigo: '#4b0082', ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5', lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6',
+  lightcoral: '#f08080', lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3',
+  lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899', lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de', lightyellow: '#ffffe0', lime: '#00ff00', limegreen: '#32cd32',
+  linen: '#faf0e6', magenta: '#ff00ff', maroon: '#800000', mediumaquamarine: '#66cdaa',
+  mediumblue: '#0000cd', mediumorchid: '#ba55d3', mediumpurple: '#9370db', mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc', mediumvioletred: '#c71585',
+  midnightblue: '#191970', mintcream: '#f5fffa', mistyrose: '#ffe4e1', moccasin: '#ffe4b5',
+  navajowhite: '#ffdead', navy: '#000080', oldlace: '#fdf5e6', olive: '#808000',
+  olivedrab: '#6b8e23', orange: '#ffa500', orangered: '#ff4500', orchid: '#da70d6',
+  palegoldenrod: '#eee8aa', palegreen: '#98fb98', paleturquoise: '#afeeee', palevioletred: '#db7093',
+  papayawhip: '#ffefd5', peachpuff: '#ffdab9', peru: '#cd853f', pink: '#ffc0cb',
+  plum: '#dda0dd', powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399',
+  red: '#ff0000', rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513',
+  salmon: '#fa8072', sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee',
+  sienna: '#a0522d', silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd',
+  slategray: '#708090', slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f',
+  steelblue: '#4682b4', tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8',
+  tomato: '#ff6347', turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3',
+  white: '#ffffff', whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+  transparent: '#00000000',
+}
+
+const NUMBER = '[-+]?(?:\\d*\\.\\d+|\\d+\\.?)(?:e[-+]?\\d+)?'
+const RGB_PATTERN = new RegExp(
+  `^rgba?\\(\\s*(${NUMBER}%?)[\\s,]+(${NUMBER}%?)[\\s,]+(${NUMBER}%?)(?:[\\s,/]+(${NUMBER}%?))?\\s*\\)$`, 'i'
+)
+const HSL_PATTERN = new RegExp(
+  `^hsla?\\(\\s*(${NUMBER})(deg|rad|grad|turn)?[\\s,]+(${NUMBER})%?[\\s,]+(${NUMBER})%?(?:[\\s,/]+(${NUMBER}%?))?\\s*\\)$`, 'i'
+)
+
+// Parsing
+export function parseColor(value: string): RGBA | null {
+  const text = String(value).trim().toLowerCase()
+  const color = NAMED_COLORS[text] ?? text
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(color)
+  if (hex && hex[1]) {
+    let digits = hex[1]
+    if (digits.length <= 4) {
+      digits = digits.split('').map(d => d + d).join('')
+    }
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) : 1 }
+  }
+
+  const rgb = RGB_PATTERN.exec(color)
+  if (rgb) {
+    const channel = (part: string) => clamp(part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part) / 255)
+    return { r: channel(rgb[1]!), g: channel(rgb[2]!), b: channel(rgb[3]!), a: parseAlpha(rgb[4]) }
+  }
+
+  const hsl = HSL_PATTERN.exec(color)
+  if (hsl) {
+    const hue = parseFloat(hsl[1]!) * HUE_UNITS[hsl[2] ?? 'deg']!
+    const { r, g, b } = hslToRgb(hue, clamp(parseFloat(hsl[3]!) / 100), clamp(parseFloat(hsl[4]!) / 100))
+    return { r, g, b, a: parseAlpha(hsl[5]) }
+  }
+
+  return null
+}
+
+export function isColor(value: unknown): value is string {
+  return typeof value === 'string' && parseColor(value) !== null
+}
+
+// #rrggbb when opaque, rgba() otherwise
+export function formatColor(color: RGBA): string {
+  const byte = (channel: number) => Math.round(clamp(channel) * 255)
+  if (color.a >= 1) {
+    return '#' + [color.r, color.g, color.b].map(channel => byte(channel).toString(16).padStart(2, '0')).join('')
+  }
+  return `rgba(${byte(color.r)}, ${byte(color.g)}, ${byte(color.b)}, ${Math.round(clamp(color.a) * 1000) / 1000})`
+}
+
+const HUE_UNITS: Record<string, number> = {
+  deg: 1,
+  rad: 180 / Math.PI,
+  grad: 0.9,
+  turn: 360,
+}
+
+function parseAlpha(part: string | undefined): number {
+  if (part === undefined) return 1
+  return clamp(part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part))
+}
+
+// Interpolation. progress may leave 0..1 for overshooting easings; the result
+// is clipped back into the gamut.
+export function interpolateColor(
+  from: string,
+  to: string,
+  progress: number,
+  space: ColorInterpolationSpace = 'oklab',
+  workingSpace: WorkingColorSpace = 'sRGB'
+): string | null {
+  const start = parseColor(from)
+  const end = parseColor(to)
+  if (!start || !end) return null
+  return formatColor(mixColors(start, end, progress, space, workingSpace))
+}
+
+export function mixColors(
+  from: RGBA,
+  to: RGBA,
+  progress: number,
+  space: ColorInterpolationSpace = 'oklab',
+  workingSpace: WorkingColorSpace = 'sRGB'
+): RGBA {
+  const lerp = (a: number, b: number) => a + (b - a) * progress
+  const alpha = clamp(lerp(from.a, to.a))
+
+  if (space === 'hsl') {
+    const a = rgbToHsl(from)
+    const b = rgbToHsl(to)
+    // Grays have no hue of their own and take the other color's
+    const fromHue = a.s === 0 ? b.h : a.h
+    const toHue = b.s === 0 ? a.h : b.h
+    let delta = toHue - fromHue
+    if (delta > 180) delta -= 360
+    if (delta < -180) delta += 360
+    return { ...hslToRgb(fromHue + delta * progress, clamp(lerp(a.s, b.s)), clamp(lerp(a.l, b.l))), a: alpha }
+  }
+
+  const encode = COORDINATES[space]
+  const a = encode.to(from, workingSpace)
+  const b = encode.to(to, workingSpace)
+
+  // Premultiplied: each color's coordinates count in proportion to its alpha
+  const mixed = [0, 1, 2].map(i => lerp(a[i]! * from.a, b[i]! * to.a)) as [number, number, number]
+  const result = alpha > 0 ? mixed.map(v => v / alpha) as [number, number, number] : mixed
+  return { ...encode.from(result, workingSpace), a: alpha }
+}
+
+// Gradient stops are paired by index. When the counts differ, the shorter
+// gradient is sampled at the longer one's positions so no stop pops in.
+export function interpolateGradientStops(
+  from: GradientStop[],
+  to: GradientStop[],
+  progress: number,
+  space: ColorInterpolationSpace = 'oklab',
+  workingSpace: WorkingColorSpace = 'sRGB'
+): GradientStop[] {
+  const count = Math.max(from.length, to.length)
+  const pad = (stops: GradientStop[], other: GradientStop[]) => stops.length === count
+    ? stops
+    : other.map(stop => ({ color: sampleGradient(stops, stop.position, space, workingSpace), position: stop.position }))
+
+  const start = pad(from, to)
+  const end = pad(to, from)
+
+  return start.map((stop, i) => {
+    const target = end[i] ?? stop
+    return {
+      ...stop,
+      color: interpolateColor(stop.color, target.color, progress, space, workingSpace) ??
+        (progress < 0.5 ? stop.color : target.color),
+      position: stop.position + (target.position - stop.position) * progress,
+    }
+  })
+}
+
+export function sampleGradient(
+  stops: GradientStop[],
+  position: number,
+  space: ColorInterpolationSpace = 'oklab',
+  workingSpace: WorkingColorSpace = 'sRGB'
+): string {
+  const sorted = [...stops].sort((a, b) => a.position - b.position)
+  const first = sorted[0]
+  const last = sorted[sorted.length - 1]
+  if (!first || !last) return 'transparent'
+  if (position <= first.position) return first.color
+  if (position >= last.position) return last.color
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const current = sorted[i]!
+    const next = sorted[i + 1]!
+    if (position <= next.position) {
+      const span = next.position - current.position
+      const progress = span > 0 ? (position - current.position) / span : 0
+      return interpolateColor(current.color, next.color, progress, space, workingSpace) ?? current.color
+    }
+  }
+
+  return last.color
+}
+
+export function isGradientStops(value: unknown): value is GradientStop[] {
+  return Array.isArray(value) && value.length > 0 && value.every(stop =>
+    stop !== null && typeof stop === 'object' && typeof stop.color === 'string' && typeof stop.position === 'number'
+  )
+}
+
+// Working spaces: transfer curve and linear RGB to CIE XYZ (D65)
+type Matrix = [number, number, number, number, number, number, number, number, number]
+
+interface WorkingSpaceDefinition {
+  decode: (value: number) => number // encoded to linear light
+  encode: (value: number) => number
+  toXyz: Matrix
+  fromXyz: Matrix
+}
+
+const srgbDecode = (value: number) => {
+  const abs = Math.abs(value)
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4)
+}
+const srgbEncode = (value: number) => {
+  const abs = Math.abs(value)
+  return abs <= 0.0031308 ? value * 12.92 : Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055)
+}
+
+// ITU-R BT.2020 transfer curve
+const REC2020_ALPHA = 1.09929682680944
+const REC2020_BETA = 0.018053968510807
+const rec2020Decode = (value: number) => {
+  const abs = Math.abs(value)
+  return abs < REC2020_BETA * 4.5
+    ? value / 4.5
+    : Math.sign(value) * Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+}
+const rec2020Encode = (value: number) => {
+  const abs = Math.abs(value)
+  return abs < REC2020_BETA
+    ? value * 4.5
+    : Math.sign(value) * (REC2020_ALPHA * Math.pow(abs, 0.45) - (REC2020_ALPHA - 1))
+}
+
+const SRGB_TO_XYZ: Matrix = [
+  0.41239079926595934, 0.357584339383878, 0.1804807884018343,
+  0.21263900587151027, 0.715168678767756, 0.07219231536073371,
+  0.01933081871559182, 0.11919477979462598, 0.9505321522496607,
+]
+const P3_TO_XYZ: Matrix = [
+  0.4865709486482162, 0.26566769316909306, 0.1982172852343625,
+  0.2289745640697488, 0.6917385218365064, 0.079286914093745,
+  0, 0.04511338185890264, 1.043944368900976,
+]
+const REC2020_TO_XYZ: Matrix = [
+  0.6369580483012914, 0.14461690358620832, 0.1688809751641721,
+  0.2627002120112671, 0.6779980715188708, 0.05930171646986196,
+  0, 0.028072693049087428, 1.060985057710791,
+]
+
+const WORKING_SPACES: Record<WorkingColorSpace, WorkingSpaceDefinition> = {
+  sRGB: { decode: srgbDecode, encode: srgbEncode, toXyz: SRGB_TO_XYZ, fromXyz: invert(SRGB_TO_XYZ) },
+  P3: { decode: srgbDecode, encode: srgbEncode, toXyz: P3_TO_XYZ, fromXyz: invert(P3_TO_XYZ) },
+  Rec2020: { decode: rec2020Decode, encode: rec2020Encode, toXyz: REC2020_TO_XYZ, fromXyz: invert(REC2020_TO_XYZ) },
+}
+
+// OKLab (Björn Ottosson), from XYZ D65
+const XYZ_TO_LMS: Matrix = [
+  0.819022437996703, 0.3619062600528904, -0.1288737815209879,
+  0.0329836539323885, 0.9292868615863434, 0.0361446663506424,
+  0.0481771893596242, 0.2642395317527308, 0.6335478284694309,
+]
+const LMS_TO_OKLAB: Matrix = [
+  0.210454268309314, 0.7936177747023054, -0.0040720430116193,
+  1.9779985324311684, -2.42859224204858, 0.450593709617411,
+  0.0259040424655478, 0.7827717124575296, -0.8086757549230774,
+]
+const LMS_TO_XYZ = invert(XYZ_TO_LMS)
+const OKLAB_TO_LMS = invert(LMS_TO_OKLAB)
+
+type Coordinates = [number, number, number]
+
+const COORDINATES: Record<Exclude<ColorInterpolationSpace, 'hsl'>, {
+  to: (color: RGBA, workingSpace: WorkingColorSpace) => Coordinates
+  from: (coordinates: Coordinates, workingSpace: WorkingColorSpace) => Omit<RGBA, 'a'>
+}> = {
+  srgb: {
+    to: color => [color.r, color.g, color.b],
+    from: ([r, g, b]) => ({ r: clamp(r), g: clamp(g), b: clamp(b) }),
+  },
+  linear: {
+    to: (color, workingSpace) => {
+      const { decode } = WORKING_SPACES[workingSpace]
+      return [decode(color.r), decode(color.g), decode(color.b)]
+    },
+    from: ([r, g, b], workingSpace) => {
+      const { encode } = WORKING_SPACES[workingSpace]
+      return { r: clamp(encode(r)), g: clamp(encode(g)), b: clamp(encode(b)) }
+    },
+  },
+  oklab: {
+    to: (color, workingSpace) => {
+      const { decode, toXyz } = WORKING_SPACES[workingSpace]
+      const lms = multiply(XYZ_TO_LMS, multiply(toXyz, [decode(color.r), decode(color.g), decode(color.b)]))
+      return multiply(LMS_TO_OKLAB, lms.map(Math.cbrt) as Coordinates)
+    },
+    from: (lab, workingSpace) => {
+      const { encode, fromXyz } = WORKING_SPACES[workingSpace]
+      const lms = multiply(OKLAB_TO_LMS, lab).map(v => v * v * v) as Coordinates
+      const [r, g, b] = multiply(fromXyz, multiply(LMS_TO_XYZ, lms))
+      return { r: clamp(encode(r)), g: clamp(encode(g)), b: clamp(encode(b)) }
+    },
+  },
+}
+
+// HSL on the encoded components, hue in degrees
+function rgbToHsl(color: RGBA): { h: number; s: number; l: number } {
+  const max = Math.max(color.r, color.g, color.b)
+  const min = Math.min(color.r, color.g, color.b)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return { h: 0, s: 0, l }
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === color.r) h = ((color.g - color.b) / d) % 6
+  else if (max === color.g) h = (color.b - color.r) / d + 2
+  else h = (color.r - color.g) / d + 4
+  return { h: (h * 60 + 360) % 360, s, l }
+}
+
+function hslToRgb(hue: number, s: number, l: number): Omit<RGBA, 'a'> {
+  const h = ((hue % 360) + 360) % 360
+  const k = (n: number) => (n + h / 30) % 12
+  const a = s * Math.min(l, 1 - l)
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return { r: f(0), g: f(8), b: f(4) }
+}
+
+// Matrix helpers
+function multiply(m: Matrix, v: Coordinates): Coordinates {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+  ]
+}
+
+function invert(m: Matrix): Matrix {
+  const [a, b, c, d, e, f, g, h, i] = m
+  const A = e * i - f * h
+  const B = -(d * i - f * g)
+  const C = d * h - e * g
+  const det = a * A + b * B + c * C
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ]
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
@@ -1,6 +1,7 @@
 import React from 'react'
 import { interpolate, useCurrentFrame, useVideoConfig, spring } from 'remotion'
 import { MotionElement } from '../core'
+import { measurePath } from '../svg-path'
 
 export interface ShapeAnimationProps {
   element: MotionElement
@@ -18,6 +19,8 @@ export interface ShapeAnimationProps {
   }
 }
 
+// Drawing a path. The same path data can move another element along it via
+// the motionPath of a position animation (see core.ts).
 export interface PathAnimationConfig {
   pathData: string
   strokeWidth: number
@@ -276,7 +279,7 @@ export const ShapeAnimation: React.FC<ShapeAnimationProps> = ({
     
     switch (animationType) {
       case 'draw':
-        const pathLength = element.properties.pathLength || 1000
+        const pathLength = element.properties.pathLength || measurePath(pathData).length || 1000
         const strokeDashoffset = interpolate(easedProgress, [0, 1], [pathLength, 0])
         animatedProps.strokeDasharray = pathLength
         animatedProps.strokeDashoffset = strokeDashoffset
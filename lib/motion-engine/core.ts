@@ -1,11 +1,30 @@
 import { z } from 'zod'
-import { interpolate, spring, Easing } from 'remotion'
+import { interpolate } from 'remotion'
+import type { PropertyBinding } from './customization'
+import type { TransitionPluginManifest } from './transitions'
+import {
+  getExpressionEngine,
+  ExpressionScope,
+  combineVectors,
+  mapVector,
+  seededNoise,
+  seededRandom,
+} from './expressions'
+import { PathMeasure, measurePath, CubicSegment } from './svg-path'
+import { ease, EasingOptions } from './easing'
+import {
+  ColorInterpolationSpace,
+  WorkingColorSpace,
+  interpolateColor,
+  interpolateGradientStops,
+  isGradientStops,
+} from './color'
 
 // Core types for the motion graphics engine
 export interface MotionProject {
   id: string
   title: string
-  description?: string
+  description?: string | undefined
   duration: number // in frames
   fps: number
   width: number
@@ -14,6 +33,8 @@ export interface MotionProject {
   scenes: MotionScene[]
   globalSettings: GlobalSettings
   metadata: ProjectMetadata
+  bindings?: PropertyBinding[] | undefined // expressions are evaluated per frame
+  transitionPlugins?: TransitionPluginManifest[] | undefined // available to this project only
 }
 
 export interface MotionScene {
@@ -37,6 +58,10 @@ export interface MotionElement {
   layer: number
   visible: boolean
   locked: boolean
+  // Position, rotation, scale and opacity compose through the parent, with the
+  // position measured from the parent's anchor. Group parents also hold their
+  // children in the group's place in the layer order.
+  parentId?: string
   properties: ElementProperties
   animations: Animation[]
   effects: Effect[]
@@ -71,14 +96,28 @@ export interface Animation {
   delay: number
   loop: boolean
   yoyo: boolean
+  motionPath?: MotionPath // position animations only
+  colorSpace?: ColorInterpolationSpace // overrides GlobalSettings.colorInterpolation
 }
 
-export interface Keyframe {
+// Easing options (bezier points, spring tension and friction, ...) shape the
+// segment arriving at this keyframe, along with its easing
+export interface Keyframe extends EasingOptions {
   frame: number
   value: any
   easing?: EasingType
-  tension?: number
-  friction?: number
+  // Spatial bezier handles for position keyframes, as offsets from the value
+  inTangent?: { x: number; y: number }
+  outTangent?: { x: number; y: number }
+}
+
+// Moves a position animation along a curve at uniform speed by arc length.
+// With pathData set, keyframe values are progress along the path from 0 to 1;
+// without it the curve comes from the keyframes' spatial tangents.
+export interface MotionPath {
+  pathData?: string // SVG path in the element's position space
+  autoOrient?: boolean // rotate the element to face its direction of travel
+  orientOffset?: number // degrees added to the travel angle
 }
 
 export type EasingType = 
@@ -92,6 +131,7 @@ export type EasingType =
   | 'elastic'
   | 'back'
   | 'cubic-bezier'
+  | 'steps'
 
 export interface Effect {
   id: string
@@ -116,6 +156,8 @@ export type EffectType =
 export interface SceneBackground {
   type: 'color' | 'gradient' | 'image' | 'video'
   value: string | GradientBackground | MediaBackground
+  // Animate 'value' or parts of it, e.g. 'value.colors' stop by stop or 'value.angle'
+  animations?: Animation[]
 }
 
 export interface GradientBackground {
@@ -138,11 +180,12 @@ export interface SceneTransition {
   type: TransitionType
   duration: number
   easing: EasingType
+  easingOptions?: EasingOptions
   direction?: 'in' | 'out' | 'cross'
   parameters: Record<string, any>
 }
 
-export type TransitionType =
+export type BuiltInTransitionType =
   | 'fade'
   | 'slide'
   | 'zoom'
@@ -153,6 +196,10 @@ export type TransitionType =
   | 'reveal'
   | 'iris'
   | 'flip'
+  | 'luma'
+
+// Plugins add their own types through TransitionSystem.registerTransition
+export type TransitionType = BuiltInTransitionType | (string & {})
 
 export interface CameraSettings {
   position: { x: number; y: number; z: number }
@@ -168,6 +215,7 @@ export interface GlobalSettings {
   antialiasing: boolean
   quality: 'draft' | 'preview' | 'final'
   colorSpace: 'sRGB' | 'Rec2020' | 'P3'
+  colorInterpolation?: ColorInterpolationSpace // how animated colors blend, default 'oklab'
   frameRate: number
   audioSettings: AudioSettings
 }
@@ -179,6 +227,16 @@ export interface AudioSettings {
   masterVolume: number
 }
 
+// A binding whose expression failed; the property keeps its animated value
+export interface ExpressionError {
+  bindingId: string
+  elementId: string
+  property: string
+  expression: string
+  message: string
+  frame: number // first frame it failed on
+}
+
 export interface ProjectMetadata {
   createdAt: Date
   updatedAt: Date
@@ -199,10 +257,15 @@ export const MotionProjectSchema = z.object({
   height: z.number().positive(),
   backgroundColor: z.string(),
   scenes: z.array(z.any()),
-  globalSettings: z.any(),
-  metadata: z.any(),
+  globalSettings: z.custom<GlobalSettings>(),
+  metadata: z.custom<ProjectMetadata>(),
+  bindings: z.array(z.any()).optional(),
+  transitionPlugins: z.array(z.any()).optional(),
 })
 
+// Parsed motion paths kept between frames
+const MAX_PATH_MEASURES = 100
+
 // Core motion graphics engine class
 export class MotionEngine {
   private project: MotionProject | null = null
@@ -214,6 +277,15 @@ export class MotionEngine {
   // Event system
   private eventListeners: Map<string, Function[]> = new Map()
 
+  // Expression state; errors are kept per binding for each project object, so
+  // renders running side by side report only their own
+  private expressionEngine = getExpressionEngine()
+  private expressionErrors = new WeakMap<MotionProject, Map<string, ExpressionError>>()
+  private evaluatingElements = new Set<string>()
+
+  // Motion paths measured so far, by path data
+  private pathMeasures = new Map<string, PathMeasure>()
+
   constructor() {
     this.initializeEngine()
   }
@@ -231,7 +303,8 @@ export class MotionEngine {
       'projectLoad',
       'elementUpdate',
       'sceneChange',
-      'renderProgress'
+      'renderProgress',
+      'expressionError'
     ]
     
     events.forEach(event => {
@@ -314,35 +387,324 @@ export class MotionEngine {
     this.playbackSpeed = Math.max(0.1, Math.min(speed, 4.0))
   }
 
-  // Frame calculation and interpolation
-  calculateElementPropertiesAtFrame(element: MotionElement, frame: number): ElementProperties {
-    const properties = { ...element.properties }
+  // Scene layout
+  // Lays scenes end to end in array order. A cross transition on a scene
+  // overlaps the next scene by its length (capped to either scene), so both
+  // play during the transition and the sequence runs shorter than its scenes.
+  layoutScenes(scenes: MotionScene[]): { scenes: MotionScene[]; duration: number } {
+    let cursor = 0
+    const laidOut = scenes.map((scene, index) => {
+      const previous = scenes[index - 1]
+      const transition = previous?.transitions.find(candidate => this.isCrossTransition(candidate))
+      const overlap = previous && transition
+        ? Math.max(0, Math.min(Math.round(transition.duration), previous.duration, scene.duration))
+        : 0
+
+      const startFrame = cursor - overlap
+      cursor = startFrame + scene.duration
+      return this.shiftScene(scene, startFrame - scene.startFrame, scene.duration)
+    })
+
+    return { scenes: laidOut, duration: cursor }
+  }
+
+  // Applies layoutScenes to the loaded project
+  sequenceScenes(): MotionProject | null {
+    if (!this.project) return null
+
+    const { scenes, duration } = this.layoutScenes(this.project.scenes)
+    this.project = { ...this.project, scenes, duration }
+    this.currentFrame = Math.min(this.currentFrame, duration)
+    this.emit('sceneChange', this.project)
+    return this.project
+  }
+
+  // Only cross transitions blend a scene into the next one; transitions with
+  // no direction play inside their own scene
+  isCrossTransition(transition: SceneTransition): boolean {
+    return transition.direction === 'cross'
+  }
+
+  // Moves a scene and everything timed inside it by offset frames
+  private shiftScene(scene: MotionScene, offset: number, duration: number): MotionScene {
+    const shiftAnimation = (animation: Animation): Animation => ({
+      ...animation,
+      keyframes: animation.keyframes.map(keyframe => ({ ...keyframe, frame: keyframe.frame + offset })),
+    })
+
+    return {
+      ...scene,
+      startFrame: scene.startFrame + offset,
+      endFrame: scene.startFrame + offset + duration,
+      elements: scene.elements.map(element => ({
+        ...element,
+        startFrame: element.startFrame + offset,
+        endFrame: element.endFrame + offset,
+        animations: element.animations.map(shiftAnimation),
+      })),
+      background: scene.background.animations
+        ? { ...scene.background, animations: scene.background.animations.map(shiftAnimation) }
+        : scene.background,
+    }
+  }
+
+  // Frame calculation and interpolation. Renders pass the project they are
+  // rendering; the editor's loaded project is only the default.
+  calculateElementPropertiesAtFrame(
+    element: MotionElement,
+    frame: number,
+    project: MotionProject | null = this.project
+  ): ElementProperties {
+    // Deep copy: animations write into nested values such as position.x
+    const properties = this.cloneValue(element.properties)
     
     // Apply animations
     element.animations.forEach(animation => {
-      const animatedValue = this.calculateAnimationValue(animation, frame)
+      if (this.isSpatialAnimation(animation)) {
+        this.applyMotionSample(animation, frame, properties, project)
+        return
+      }
+
+      const animatedValue = this.calculateAnimationValue(animation, frame, project)
       if (animatedValue !== undefined) {
         this.setNestedProperty(properties, animation.property, animatedValue)
       }
     })
 
+    // Expressions run last and see the animated values
+    if (project) this.applyExpressions(project, element, frame, properties)
+
     return properties
   }
 
-  private calculateAnimationValue(animation: Animation, frame: number): any {
-    if (animation.keyframes.length === 0) return undefined
-    
-    const adjustedFrame = frame - animation.delay
-    if (adjustedFrame < 0) return undefined
+  // Scene backgrounds, with their animations applied. Keyframes are on the
+  // project timeline, as element keyframes are.
+  calculateBackgroundAtFrame(
+    scene: MotionScene,
+    frame: number,
+    project: MotionProject | null = this.project
+  ): SceneBackground {
+    const { animations, ...background } = scene.background
+    if (!animations || animations.length === 0) return background
+
+    const result = this.cloneValue(background)
+    animations.forEach(animation => {
+      const animatedValue = this.calculateAnimationValue(animation, frame, project)
+      if (animatedValue !== undefined) {
+        this.setNestedProperty(result, animation.property, animatedValue)
+      }
+    })
+    return result
+  }
 
-    // Handle looping
-    let currentFrame = adjustedFrame
-    if (animation.loop && animation.duration > 0) {
-      currentFrame = adjustedFrame % animation.duration
-      if (animation.yoyo && Math.floor(adjustedFrame / animation.duration) % 2 === 1) {
-        currentFrame = animation.duration - currentFrame
+  // Expressions
+  private applyExpressions(
+    project: MotionProject,
+    element: MotionElement,
+    frame: number,
+    properties: ElementProperties
+  ): void {
+    const bindings = project.bindings?.filter(binding =>
+      binding.elementId === element.id && binding.enabled && binding.expression
+    )
+    if (!bindings || bindings.length === 0) return
+
+    this.evaluatingElements.add(element.id)
+    try {
+      for (const binding of bindings) {
+        try {
+          const scope = this.createExpressionScope(project, element, binding, frame, properties)
+          const value = this.expressionEngine.evaluate(binding.expression!, scope)
+          this.setNestedProperty(properties, binding.property, this.checkExpressionResult(value))
+        } catch (error) {
+          this.reportExpressionError(project, binding, frame, error)
+        }
+      }
+    } finally {
+      this.evaluatingElements.delete(element.id)
+    }
+  }
+
+  private createExpressionScope(
+    project: MotionProject,
+    element: MotionElement,
+    binding: PropertyBinding,
+    frame: number,
+    properties: ElementProperties
+  ): ExpressionScope {
+    const fps = project.fps
+    const time = frame / fps
+    const value = this.getNestedProperty(properties, binding.property)
+    const seed = `${element.id}:${binding.property}`
+
+    return {
+      frame,
+      time,
+      fps,
+      value,
+      thisElement: properties,
+      element: (id: unknown) => this.getExpressionElement(project, String(id), frame),
+      wiggle: (frequency: number, amplitude: number, octaves = 1, amplitudeMultiplier = 0.5, at = time) => {
+        let component = 0
+        return mapVector(value, current =>
+          current + amplitude * seededNoise(`${seed}:${component++}`, at * frequency, octaves, amplitudeMultiplier)
+        )
+      },
+      loopOut: (type = 'cycle', keyframeCount = 0) =>
+        this.loopOut(project, element, binding.property, frame, String(type), keyframeCount) ?? value,
+      linear: (...args: unknown[]) => this.remapExpressionValue(args, 'linear'),
+      ease: (...args: unknown[]) => this.remapExpressionValue(args, 'ease-in-out'),
+      easeIn: (...args: unknown[]) => this.remapExpressionValue(args, 'ease-in'),
+      easeOut: (...args: unknown[]) => this.remapExpressionValue(args, 'ease-out'),
+      random: (randomSeed: unknown, min?: number, max?: number) => {
+        const random = seededRandom(String(randomSeed))
+        if (min === undefined) return random
+        return max === undefined ? random * min : min + random * (max - min)
+      },
+      clamp: (current: number, min: number, max: number) => Math.min(max, Math.max(min, current)),
+      Math: this.expressionEngine.getMath(),
+    }
+  }
+
+  private getExpressionElement(project: MotionProject, id: string, frame: number): ElementProperties {
+    if (this.evaluatingElements.has(id)) {
+      throw new Error(`Circular reference to element ${id}`)
+    }
+
+    const target = project.scenes
+      .flatMap(scene => scene.elements)
+      .find(element => element.id === id)
+    if (!target) {
+      throw new Error(`Element ${id} not found`)
+    }
+
+    return this.calculateElementPropertiesAtFrame(target, frame, project)
+  }
+
+  // linear(t, tMin, tMax, from, to) or linear(t, from, to) with t in 0..1
+  private remapExpressionValue(args: unknown[], easing: EasingType): unknown {
+    const [t, ...rest] = args
+    const [tMin, tMax, from, to] = rest.length >= 4 ? rest : [0, 1, ...rest]
+    if (typeof t !== 'number' || typeof tMin !== 'number' || typeof tMax !== 'number') {
+      throw new Error('Expected numeric time arguments')
+    }
+
+    const linear = tMax === tMin ? (t >= tMax ? 1 : 0) : (t - tMin) / (tMax - tMin)
+    const progress = ease(Math.min(1, Math.max(0, linear)), easing)
+    const delta = combineVectors(to, from, (a, b) => a - b)
+    return combineVectors(from, mapVector(delta, component => component * progress), (a, b) => a + b)
+  }
+
+  // Repeats an animation past its last keyframe, as After Effects' loopOut
+  private loopOut(
+    project: MotionProject,
+    element: MotionElement,
+    property: string,
+    frame: number,
+    type: string,
+    keyframeCount: number
+  ): unknown {
+    const animation = element.animations.find(candidate =>
+      candidate.property === property && candidate.keyframes.length > 1
+    )
+    if (!animation) return undefined
+
+    const keyframes = [...animation.keyframes].sort((a, b) => a.frame - b.frame)
+    const last = keyframes[keyframes.length - 1]!
+    const first = keyframes[keyframeCount > 0 ? Math.max(0, keyframes.length - 1 - keyframeCount) : 0]!
+    const span = last.frame - first.frame
+    const elapsed = frame - animation.delay - last.frame
+    if (elapsed <= 0 || span <= 0) return undefined
+
+    const valueAt = (local: number) => this.calculateAnimationValue(animation, local + animation.delay, project)
+    const subtract = (a: number, b: number) => a - b
+    const add = (a: number, b: number) => a + b
+
+    switch (type) {
+      case 'pingpong': {
+        const offset = elapsed % span
+        return valueAt(Math.floor(elapsed / span) % 2 === 0 ? last.frame - offset : first.frame + offset)
       }
+      case 'offset': {
+        // Each cycle starts where the previous one ended
+        const cycles = Math.floor(elapsed / span) + 1
+        const change = combineVectors(last.value, first.value, subtract)
+        return combineVectors(
+          valueAt(first.frame + (elapsed % span)),
+          mapVector(change, component => component * cycles),
+          add
+        )
+      }
+      case 'continue': {
+        // Keeps the velocity of the final segment
+        const previous = keyframes[keyframes.length - 2]!
+        const velocity = mapVector(
+          combineVectors(last.value, previous.value, subtract),
+          component => component / Math.max(1, last.frame - previous.frame)
+        )
+        return combineVectors(last.value, mapVector(velocity, component => component * elapsed), add)
+      }
+      default:
+        return valueAt(first.frame + (elapsed % span))
     }
+  }
+
+  private checkExpressionResult(value: unknown): unknown {
+    if (value === undefined) {
+      throw new Error('Expression returned undefined')
+    }
+    if (typeof value === 'number' || (value && typeof value === 'object')) {
+      if (typeof value === 'number' || Object.values(value).every(component => typeof component === 'number')) {
+        mapVector(value, component => {
+          if (!Number.isFinite(component)) throw new Error('Expression returned a non-finite number')
+          return component
+        })
+      }
+    }
+    return value
+  }
+
+  private reportExpressionError(project: MotionProject, binding: PropertyBinding, frame: number, error: unknown): void {
+    let errors = this.expressionErrors.get(project)
+    if (!errors) {
+      errors = new Map()
+      this.expressionErrors.set(project, errors)
+    }
+
+    // Reported once per binding; later frames fall back silently
+    if (errors.has(binding.id)) return
+
+    const report: ExpressionError = {
+      bindingId: binding.id,
+      elementId: binding.elementId,
+      property: binding.property,
+      expression: binding.expression ?? '',
+      message: error instanceof Error ? error.message : String(error),
+      frame,
+    }
+    errors.set(binding.id, report)
+    console.warn(`Expression on ${binding.elementId}.${binding.property} failed at frame ${frame}:`, report.message)
+    this.emit('expressionError', report)
+  }
+
+  getExpressionErrors(project: MotionProject | null = this.project): ExpressionError[] {
+    const errors = project && this.expressionErrors.get(project)
+    return errors ? Array.from(errors.values()) : []
+  }
+
+  validateExpression(expression: string): string | null {
+    return this.expressionEngine.validate(expression)
+  }
+
+  private calculateAnimationValue(animation: Animation, frame: number, project: MotionProject | null): any {
+    if (animation.keyframes.length === 0) return undefined
+
+    if (this.isSpatialAnimation(animation)) {
+      return this.calculateMotionSample(animation, frame, project)?.position
+    }
+
+    const currentFrame = this.getAnimationFrame(animation, frame)
+    if (currentFrame === undefined) return undefined
 
     // Find surrounding keyframes
     const keyframes = animation.keyframes.sort((a, b) => a.frame - b.frame)
@@ -357,51 +719,179 @@ export class MotionEngine {
 
     // Interpolate between keyframes
     for (let i = 0; i < keyframes.length - 1; i++) {
-      const current = keyframes[i]
-      const next = keyframes[i + 1]
+      const current = keyframes[i]!
+      const next = keyframes[i + 1]!
       
       if (currentFrame >= current.frame && currentFrame <= next.frame) {
         const progress = (currentFrame - current.frame) / (next.frame - current.frame)
-        const easedProgress = this.applyEasing(progress, next.easing || animation.easing)
+        const easedProgress = this.easeSegment(animation, current, next, progress, project)
         
-        return this.interpolateValue(current.value, next.value, easedProgress)
+        return this.interpolateValue(
+          current.value,
+          next.value,
+          easedProgress,
+          this.getColorSpace(animation, project),
+          project?.globalSettings?.colorSpace
+        )
       }
     }
 
     return undefined
   }
 
-  private applyEasing(progress: number, easing: EasingType): number {
-    switch (easing) {
-      case 'linear':
-        return progress
-      case 'ease':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.ease })
-      case 'ease-in':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.in(Easing.ease) })
-      case 'ease-out':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.out(Easing.ease) })
-      case 'ease-in-out':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.inOut(Easing.ease) })
-      case 'spring':
-        return spring({ frame: progress * 30, fps: 30 })
-      case 'bounce':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.bounce })
-      default:
-        return progress
+  // Frame within the animation after delay, looping and yoyo
+  private getAnimationFrame(animation: Animation, frame: number): number | undefined {
+    const adjustedFrame = frame - animation.delay
+    if (adjustedFrame < 0) return undefined
+
+    let currentFrame = adjustedFrame
+    if (animation.loop && animation.duration > 0) {
+      currentFrame = adjustedFrame % animation.duration
+      if (animation.yoyo && Math.floor(adjustedFrame / animation.duration) % 2 === 1) {
+        currentFrame = animation.duration - currentFrame
+      }
+    }
+
+    return currentFrame
+  }
+
+  // Motion paths
+  isSpatialAnimation(animation: Animation): boolean {
+    return animation.property === 'position' && (
+      animation.motionPath !== undefined ||
+      animation.keyframes.some(keyframe => keyframe.inTangent || keyframe.outTangent)
+    )
+  }
+
+  private applyMotionSample(
+    animation: Animation,
+    frame: number,
+    properties: ElementProperties,
+    project: MotionProject | null
+  ): void {
+    const sample = this.calculateMotionSample(animation, frame, project)
+    if (!sample) return
+
+    // Keep z and any other components the path doesn't drive
+    properties.position = { ...properties.position, ...sample.position }
+
+    // A standing element has no direction of travel and keeps its rotation
+    if (animation.motionPath?.autoOrient && sample.angle !== null) {
+      properties.rotation = {
+        ...properties.rotation,
+        z: sample.angle + (animation.motionPath.orientOffset ?? 0),
+      }
     }
   }
 
-  private interpolateValue(from: any, to: any, progress: number): any {
+  // Position and travel angle along the curve. Eased progress is a fraction of
+  // the arc length, so the element moves at uniform speed along the curve
+  // instead of bunching up where the control points do.
+  private calculateMotionSample(
+    animation: Animation,
+    frame: number,
+    project: MotionProject | null
+  ): { position: any; angle: number | null } | undefined {
+    const currentFrame = this.getAnimationFrame(animation, frame)
+    if (currentFrame === undefined || animation.keyframes.length === 0) return undefined
+
+    const keyframes = animation.keyframes.sort((a, b) => a.frame - b.frame)
+
+    // Clamp to the first or last segment, so the ends still have a direction
+    let index = 0
+    while (index < keyframes.length - 2 && currentFrame >= keyframes[index + 1]!.frame) {
+      index++
+    }
+    const current = keyframes[index]!
+    const next = keyframes[index + 1] ?? current
+
+    const span = next.frame - current.frame
+    const progress = span > 0 ? Math.max(0, Math.min(1, (currentFrame - current.frame) / span)) : 0
+    const easedProgress = this.easeSegment(animation, current, next, progress, project)
+
+    const pathData = animation.motionPath?.pathData
+    if (pathData) {
+      const from = Number(current.value) || 0
+      const to = Number(next.value) || 0
+      const sample = this.getPathMeasure(pathData).getPointAtProgress(from + (to - from) * easedProgress)
+      return sample ? { position: { ...sample.point }, angle: sample.angle } : undefined
+    }
+
+    const start = current.value ?? {}
+    const end = next.value ?? {}
+    const segment: CubicSegment = {
+      from: { x: start.x ?? 0, y: start.y ?? 0 },
+      c1: { x: (start.x ?? 0) + (current.outTangent?.x ?? 0), y: (start.y ?? 0) + (current.outTangent?.y ?? 0) },
+      c2: { x: (end.x ?? 0) + (next.inTangent?.x ?? 0), y: (end.y ?? 0) + (next.inTangent?.y ?? 0) },
+      to: { x: end.x ?? 0, y: end.y ?? 0 },
+    }
+    const sample = new PathMeasure([segment]).getPointAtProgress(easedProgress)
+    if (!sample) return undefined
+
+    return {
+      position: {
+        ...this.interpolateValue(start, end, easedProgress, this.getColorSpace(animation, project), project?.globalSettings?.colorSpace),
+        ...sample.point,
+      },
+      angle: sample.angle,
+    }
+  }
+
+  private getPathMeasure(pathData: string): PathMeasure {
+    let measure = this.pathMeasures.get(pathData)
+    if (!measure) {
+      if (this.pathMeasures.size >= MAX_PATH_MEASURES) {
+        this.pathMeasures.clear()
+      }
+      measure = measurePath(pathData)
+      this.pathMeasures.set(pathData, measure)
+    }
+    return measure
+  }
+
+  // The arriving keyframe's easing and options shape the segment; springs run
+  // in real time, so they also need the segment's length in seconds
+  private easeSegment(
+    animation: Animation,
+    current: Keyframe,
+    next: Keyframe,
+    progress: number,
+    project: MotionProject | null
+  ): number {
+    const fps = project?.fps ?? 30
+    return ease(progress, next.easing || animation.easing, next, (next.frame - current.frame) / fps)
+  }
+
+  // Colors blend in colorSpace and are read and written in the project's
+  // working space; both come from the project being rendered
+  private interpolateValue(
+    from: any,
+    to: any,
+    progress: number,
+    colorSpace: ColorInterpolationSpace,
+    workingSpace: WorkingColorSpace | undefined
+  ): any {
     if (typeof from === 'number' && typeof to === 'number') {
       return interpolate(progress, [0, 1], [from, to])
     }
+
+    if (typeof from === 'string' && typeof to === 'string') {
+      const color = interpolateColor(from, to, progress, colorSpace, workingSpace)
+      if (color !== null) return color
+    }
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+      if (isGradientStops(from) && isGradientStops(to)) {
+        return interpolateGradientStops(from, to, progress, colorSpace, workingSpace)
+      }
+      return from.map((item, i) => i < to.length ? this.interpolateValue(item, to[i], progress, colorSpace, workingSpace) : item)
+    }
     
     if (typeof from === 'object' && typeof to === 'object') {
       const result: any = {}
       for (const key in from) {
         if (key in to) {
-          result[key] = this.interpolateValue(from[key], to[key], progress)
+          result[key] = this.interpolateValue(from[key], to[key], progress, colorSpace, workingSpace)
         } else {
           result[key] = from[key]
         }
@@ -412,6 +902,28 @@ export class MotionEngine {
     return progress < 0.5 ? from : to
   }
 
+  private getColorSpace(animation: Animation, project: MotionProject | null): ColorInterpolationSpace {
+    return animation.colorSpace ?? project?.globalSettings?.colorInterpolation ?? 'oklab'
+  }
+
+  private getNestedProperty(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], obj)
+  }
+
+  private cloneValue<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.cloneValue(item)) as T
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const result: any = {}
+      for (const key in value) {
+        result[key] = this.cloneValue(value[key])
+      }
+      return result
+    }
+    return value
+  }
+
   private setNestedProperty(obj: any, path: string, value: any): void {
     const keys = path.split('.')
     let current = obj
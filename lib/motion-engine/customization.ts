@@ -22,6 +22,19 @@ export interface PropertyController {
   currentValue: any
 }
 
+// A template variable: a binding whose value comes from a data row rather
+// than a controller. Several slots may share a variable to fill several
+// properties from one column.
+export interface TemplateSlot extends PropertyBinding {
+  variable: string // CSV column or JSON key
+  type: TemplateSlotType
+  required?: boolean
+  defaultValue?: any // used when the row leaves the variable empty
+  maxLength?: number // text slots only
+}
+
+export type TemplateSlotType = 'text' | 'number' | 'color' | 'boolean' | 'url'
+
 export interface CustomizationPreset {
   id: string
   name: string
@@ -71,6 +84,7 @@ export class CustomizationEngine {
     }
 
     this.bindings.set(binding.id, binding)
+    this.syncProjectBindings()
     this.saveState('Create Binding', { binding })
     this.notifyChange()
 
@@ -83,6 +97,7 @@ export class CustomizationEngine {
 
     const oldBinding = { ...binding }
     Object.assign(binding, updates)
+    this.syncProjectBindings()
 
     this.saveState('Update Binding', { bindingId, oldBinding, newBinding: binding })
     this.notifyChange()
@@ -95,6 +110,7 @@ export class CustomizationEngine {
     if (!binding) return false
 
     this.bindings.delete(bindingId)
+    this.syncProjectBindings()
     this.saveState('Remove Binding', { binding })
     this.notifyChange()
 
@@ -152,25 +168,16 @@ export class CustomizationEngine {
 
     if (!targetElement) return
 
-    // Apply the value to the property
+    // Expressions are evaluated per frame by the motion engine, with the
+    // controller value as their input
     this.setNestedProperty(targetElement.properties, binding.property, value)
-
-    // If there's an expression, evaluate it
-    if (binding.expression) {
-      const evaluatedValue = this.evaluateExpression(binding.expression, value)
-      this.setNestedProperty(targetElement.properties, binding.property, evaluatedValue)
-    }
   }
 
-  private evaluateExpression(expression: string, value: any): any {
-    try {
-      // Simple expression evaluation
-      // In a real implementation, you'd use a proper expression parser
-      const func = new Function('value', `return ${expression}`)
-      return func(value)
-    } catch (error) {
-      console.warn('Failed to evaluate expression:', expression, error)
-      return value
+  // The motion engine reads bindings from the project, so they render too
+  private syncProjectBindings(): void {
+    const project = this.motionEngine.getProject()
+    if (project) {
+      project.bindings = Array.from(this.bindings.values())
     }
   }
 
@@ -308,6 +315,7 @@ export class CustomizationEngine {
     preset.bindings.forEach(binding => {
       this.bindings.set(binding.id, { ...binding })
     })
+    this.syncProjectBindings()
 
     this.saveState('Load Preset', { presetId })
     this.notifyChange()
@@ -363,6 +371,7 @@ export class CustomizationEngine {
       parsed.bindings.forEach((binding: PropertyBinding) => {
         this.bindings.set(binding.id, binding)
       })
+      this.syncProjectBindings()
 
       this.notifyChange()
       return true
@@ -0,0 +1,188 @@
+import type { EasingType } from './core'
+
+// Easing curves shared by keyframe animation, expressions and scene
+// transitions. Everything maps progress in 0..1 to eased progress; 'back',
+// 'elastic' and 'spring' may overshoot past 1 before settling.
+
+// Per-keyframe (or per-transition) parameters for the curves that take them
+export interface EasingOptions {
+  bezier?: [number, number, number, number] // 'cubic-bezier' control points x1, y1, x2, y2
+  steps?: number // 'steps': number of jumps
+  stepPosition?: 'start' | 'end' // jump at the start or end of each step, as CSS
+  tension?: number // 'spring' stiffness
+  friction?: number // 'spring' damping
+  overshoot?: number // 'back'
+  amplitude?: number // 'elastic'
+  period?: number // 'elastic', as a fraction of the duration
+}
+
+// Cubic-bezier equivalents of the named curves (remotion's Easing.ease is bezier(0.42, 0, 1, 1)).
+// 'ease-in-out' is two mirrored 'ease' halves rather than a single bezier.
+export const BEZIER_PRESETS: Partial<Record<EasingType, [number, number, number, number]>> = {
+  linear: [0, 0, 1, 1],
+  ease: [0.42, 0, 1, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+}
+
+const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1]
+
+// Same defaults as remotion's spring(), which 'spring' used before
+const DEFAULT_TENSION = 100
+const DEFAULT_FRICTION = 10
+
+const DEFAULT_OVERSHOOT = 1.70158
+const DEFAULT_PERIOD = 0.3
+
+// duration is the length of the eased span in seconds; only 'spring' uses it,
+// since a physical spring settles in real time rather than in progress.
+export function ease(
+  progress: number,
+  easing: EasingType,
+  options: EasingOptions = {},
+  duration: number = 1
+): number {
+  switch (easing) {
+    case 'linear':
+      return progress
+    case 'ease':
+    case 'ease-in':
+    case 'ease-out':
+      return bezierAt(BEZIER_PRESETS[easing]!, progress)
+    case 'ease-in-out':
+      return progress < 0.5
+        ? bezierAt(BEZIER_PRESETS.ease!, progress * 2) / 2
+        : 1 - bezierAt(BEZIER_PRESETS.ease!, (1 - progress) * 2) / 2
+    case 'cubic-bezier':
+      return bezierAt(options.bezier ?? DEFAULT_BEZIER, progress)
+    case 'steps':
+      return stepsAt(progress, options.steps ?? 1, options.stepPosition ?? 'end')
+    case 'spring':
+      return 1 - springDisplacement(
+        progress * duration,
+        options.tension ?? DEFAULT_TENSION,
+        options.friction ?? DEFAULT_FRICTION
+      )
+    case 'bounce':
+      return bounceAt(progress)
+    case 'elastic':
+      return elasticAt(progress, options.amplitude ?? 1, options.period ?? DEFAULT_PERIOD)
+    case 'back': {
+      const overshoot = options.overshoot ?? DEFAULT_OVERSHOOT
+      const t = progress - 1
+      return 1 + (overshoot + 1) * t * t * t + overshoot * t * t
+    }
+    default:
+      return progress
+  }
+}
+
+// The bezier control points that reproduce an easing exactly, if there are any
+export function getBezierPoints(
+  easing: EasingType,
+  options: EasingOptions = {}
+): [number, number, number, number] | undefined {
+  if (easing === 'cubic-bezier') return options.bezier ?? DEFAULT_BEZIER
+  return BEZIER_PRESETS[easing]
+}
+
+// Cubic bezier timing function: solve x(t) = progress for t, return y(t).
+// Newton's method converges in a few steps; bisection covers flat spots.
+export function bezierAt(points: [number, number, number, number], progress: number): number {
+  const [x1, y1, x2, y2] = points
+  if (progress <= 0) return 0
+  if (progress >= 1) return 1
+  if (x1 === y1 && x2 === y2) return progress
+
+  const curve = (a: number, b: number, t: number) => {
+    const u = 1 - t
+    return 3 * u * u * t * a + 3 * u * t * t * b + t * t * t
+  }
+  const slope = (a: number, b: number, t: number) => {
+    const u = 1 - t
+    return 3 * u * u * a + 6 * u * t * (b - a) + 3 * t * t * (1 - b)
+  }
+
+  let t = progress
+  for (let i = 0; i < 8; i++) {
+    const error = curve(x1, x2, t) - progress
+    if (Math.abs(error) < 1e-7) return curve(y1, y2, t)
+    const derivative = slope(x1, x2, t)
+    if (Math.abs(derivative) < 1e-6) break
+    t -= error / derivative
+  }
+
+  let low = 0
+  let high = 1
+  t = progress
+  for (let i = 0; i < 40; i++) {
+    const x = curve(x1, x2, t)
+    if (Math.abs(x - progress) < 1e-7) break
+    if (x < progress) low = t
+    else high = t
+    t = (low + high) / 2
+  }
+
+  return curve(y1, y2, t)
+}
+
+function stepsAt(progress: number, steps: number, position: 'start' | 'end'): number {
+  const count = Math.max(1, Math.floor(steps))
+  if (progress >= 1) return 1
+  if (progress <= 0) return position === 'start' ? 1 / count : 0
+  return position === 'start'
+    ? Math.min(1, Math.ceil(progress * count) / count)
+    : Math.floor(progress * count) / count
+}
+
+// Distance from the target of a unit-mass spring released from 1 at rest,
+// after time seconds
+export function springDisplacement(time: number, tension: number, friction: number): number {
+  if (time <= 0) return 1
+
+  const stiffness = Math.max(1e-6, tension)
+  const omega = Math.sqrt(stiffness)
+  const zeta = Math.max(0, friction) / (2 * omega)
+
+  if (zeta < 1) {
+    // Underdamped: oscillates around the target
+    const damped = omega * Math.sqrt(1 - zeta * zeta)
+    return Math.exp(-zeta * omega * time) *
+      (Math.cos(damped * time) + ((zeta * omega) / damped) * Math.sin(damped * time))
+  }
+
+  if (zeta === 1) {
+    return Math.exp(-omega * time) * (1 + omega * time)
+  }
+
+  // Overdamped: creeps in without crossing the target
+  const root = Math.sqrt(zeta * zeta - 1)
+  const r1 = -omega * (zeta - root)
+  const r2 = -omega * (zeta + root)
+  return (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1)
+}
+
+function bounceAt(progress: number): number {
+  const n1 = 7.5625
+  const d1 = 2.75
+  let t = progress
+  if (t < 1 / d1) {
+    return n1 * t * t
+  } else if (t < 2 / d1) {
+    return n1 * (t -= 1.5 / d1) * t + 0.75
+  } else if (t < 2.5 / d1) {
+    return n1 * (t -= 2.25 / d1) * t + 0.9375
+  }
+  return n1 * (t -= 2.625 / d1) * t + 0.984375
+}
+
+// Overshoots and rings down into the target
+function elasticAt(progress: number, amplitude: number, period: number): number {
+  if (progress <= 0) return 0
+  if (progress >= 1) return 1
+
+  const a = Math.max(1, amplitude)
+  const p = Math.max(0.01, period)
+  const shift = (p / (2 * Math.PI)) * Math.asin(1 / a)
+  return a * Math.pow(2, -10 * progress) * Math.sin(((progress - shift) * 2 * Math.PI) / p) + 1
+}
@@ -1,5 +1,19 @@
 import { Effect, EffectType } from './core'
 import { interpolate } from 'remotion'
+import type { FrameBuffer } from './rasterizer'
+import {
+  RasterEffect,
+  RasterEffectContext,
+  blurEffect,
+  glowEffect,
+  shadowEffect,
+  outlineEffect,
+  gradientEffect,
+  noiseEffect,
+  displacementEffect,
+  colorCorrectionEffect,
+  chromaticAberrationEffect,
+} from './raster-effects'
 
 export interface EffectDefinition {
   type: EffectType
@@ -7,7 +21,8 @@ export interface EffectDefinition {
   description: string
   category: 'visual' | 'distortion' | 'color' | 'blur' | 'stylize'
   parameters: EffectParameter[]
-  apply: (element: any, params: Record<string, any>, frame: number) => any
+  apply: (element: any, params: Record<string, any>, frame: number) => any // style properties for live previews
+  render?: RasterEffect // the same effect on a layer's pixels, for server renders
   preview?: string // Base64 encoded preview
 }
 
@@ -74,6 +89,7 @@ export class EffectLibrary {
           description: 'Blur direction angle',
         },
       ],
+      render: blurEffect,
       apply: (element, params, frame) => ({
         ...element,
         filter: {
@@ -126,6 +142,7 @@ export class EffectLibrary {
           description: 'Glow edge softness',
         },
       ],
+      render: glowEffect,
       apply: (element, params, frame) => ({
         ...element,
         boxShadow: `0 0 ${params.size}px ${params.size * params.softness}px ${params.color}`,
@@ -186,6 +203,7 @@ export class EffectLibrary {
           description: 'Shadow opacity',
         },
       ],
+      render: shadowEffect,
       apply: (element, params, frame) => ({
         ...element,
         boxShadow: `${params.offsetX}px ${params.offsetY}px ${params.blur}px ${params.color}${Math.round(params.opacity * 255).toString(16).padStart(2, '0')}`,
@@ -222,6 +240,7 @@ export class EffectLibrary {
           description: 'Outline style',
         },
       ],
+      render: outlineEffect,
       apply: (element, params, frame) => ({
         ...element,
         border: `${params.width}px ${params.style} ${params.color}`,
@@ -273,6 +292,7 @@ export class EffectLibrary {
           description: 'Overlay opacity',
         },
       ],
+      render: gradientEffect,
       apply: (element, params, frame) => {
         const gradient = params.type === 'linear'
           ? `linear-gradient(${params.angle}deg, ${params.color1}, ${params.color2})`
@@ -318,6 +338,7 @@ export class EffectLibrary {
           description: 'Animate noise over time',
         },
       ],
+      render: noiseEffect,
       apply: (element, params, frame) => {
         const seed = params.animated ? frame * 0.1 : 0
         return {
@@ -378,6 +399,7 @@ export class EffectLibrary {
           description: 'Hue shift in degrees',
         },
       ],
+      render: colorCorrectionEffect,
       apply: (element, params, frame) => ({
         ...element,
         filter: {
@@ -416,6 +438,7 @@ export class EffectLibrary {
           description: 'Aberration direction',
         },
       ],
+      render: chromaticAberrationEffect,
       apply: (element, params, frame) => ({
         ...element,
         filter: {
@@ -427,6 +450,79 @@ export class EffectLibrary {
         },
       }),
     })
+
+    // Displacement distortion
+    this.effects.set('distortion', {
+      type: 'distortion',
+      name: 'Displacement',
+      description: 'Push pixels around with noise, waves or ripples',
+      category: 'distortion',
+      parameters: [
+        {
+          name: 'amount',
+          type: 'range',
+          defaultValue: 10,
+          min: 0,
+          max: 100,
+          step: 0.5,
+          description: 'Largest displacement in pixels',
+        },
+        {
+          name: 'scale',
+          type: 'range',
+          defaultValue: 40,
+          min: 1,
+          max: 500,
+          step: 1,
+          description: 'Size of the noise features or wavelength',
+        },
+        {
+          name: 'pattern',
+          type: 'select',
+          defaultValue: 'noise',
+          options: ['noise', 'wave', 'ripple'],
+          description: 'Displacement pattern',
+        },
+        {
+          name: 'angle',
+          type: 'range',
+          defaultValue: 0,
+          min: 0,
+          max: 360,
+          step: 1,
+          description: 'Wave direction',
+        },
+        {
+          name: 'animated',
+          type: 'boolean',
+          defaultValue: false,
+          description: 'Move the pattern over time',
+        },
+        {
+          name: 'speed',
+          type: 'range',
+          defaultValue: 1,
+          min: 0,
+          max: 10,
+          step: 0.1,
+          description: 'Animation speed',
+        },
+      ],
+      render: displacementEffect,
+      apply: (element, params, frame) => ({
+        ...element,
+        filter: {
+          ...element.filter,
+          displacement: {
+            amount: params['amount'],
+            scale: params['scale'],
+            pattern: params['pattern'],
+            angle: params['angle'],
+            phase: params['animated'] ? frame * 0.1 * params['speed'] : 0,
+          },
+        },
+      }),
+    })
   }
 
   private initializePresets(): void {
@@ -520,6 +616,19 @@ export class EffectLibrary {
     }, element)
   }
 
+  // Raster stage: runs the render step of each effect active at the frame,
+  // in order, over a layer's pixels. Effects without one are left out.
+  renderEffects(buffer: FrameBuffer, effects: Effect[], context: RasterEffectContext): FrameBuffer {
+    return effects.reduce((current, effect) => {
+      if (!isEffectActive(effect, context.frame)) return current
+
+      const definition = this.effects.get(effect.type)
+      if (!definition?.render) return current
+
+      return definition.render(current, { ...this.getDefaultParameters(definition), ...effect.parameters }, context)
+    }, buffer)
+  }
+
   // Effect management
   getAvailableEffects(): EffectDefinition[] {
     return Array.from(this.effects.values())
@@ -618,37 +727,7 @@ export class EffectLibrary {
       return { valid: false, errors }
     }
 
-    // Validate parameters
-    definition.parameters.forEach(paramDef => {
-      const value = effect.parameters[paramDef.name]
-      
-      if (value === undefined || value === null) {
-        errors.push(`Missing parameter: ${paramDef.name}`)
-        return
-      }
-
-      // Type validation
-      if (paramDef.type === 'number' || paramDef.type === 'range') {
-        if (typeof value !== 'number') {
-          errors.push(`Parameter ${paramDef.name} must be a number`)
-        } else {
-          if (paramDef.min !== undefined && value < paramDef.min) {
-            errors.push(`Parameter ${paramDef.name} is below minimum value ${paramDef.min}`)
-          }
-          if (paramDef.max !== undefined && value > paramDef.max) {
-            errors.push(`Parameter ${paramDef.name} is above maximum value ${paramDef.max}`)
-          }
-        }
-      }
-
-      if (paramDef.type === 'boolean' && typeof value !== 'boolean') {
-        errors.push(`Parameter ${paramDef.name} must be a boolean`)
-      }
-
-      if (paramDef.type === 'select' && paramDef.options && !paramDef.options.includes(value)) {
-        errors.push(`Parameter ${paramDef.name} must be one of: ${paramDef.options.join(', ')}`)
-      }
-    })
+    errors.push(...validateParameterValues(definition.parameters, effect.parameters))
 
     return {
       valid: errors.length === 0,
@@ -657,6 +736,65 @@ export class EffectLibrary {
   }
 }
 
+export function isEffectActive(effect: Effect, frame: number): boolean {
+  return effect.enabled &&
+    (effect.startFrame === undefined || frame >= effect.startFrame) &&
+    (effect.endFrame === undefined || frame <= effect.endFrame)
+}
+
+// Effects whose pixels change from frame to frame on their own
+export function isAnimatedEffect(effect: Effect): boolean {
+  return effect.parameters['animated'] === true
+}
+
+// Effects whose randomness is seeded from the element, so otherwise identical
+// layers still differ
+export function isSeededEffect(effect: Effect): boolean {
+  return effect.type === 'noise' || effect.type === 'distortion'
+}
+
+// Checks values against parameter declarations; shared with transitions,
+// whose plugins declare their parameters the same way
+export function validateParameterValues(
+  parameters: EffectParameter[],
+  values: Record<string, any>
+): string[] {
+  const errors: string[] = []
+
+  parameters.forEach(paramDef => {
+    const value = values[paramDef.name]
+
+    if (value === undefined || value === null) {
+      errors.push(`Missing parameter: ${paramDef.name}`)
+      return
+    }
+
+    // Type validation
+    if (paramDef.type === 'number' || paramDef.type === 'range') {
+      if (typeof value !== 'number') {
+        errors.push(`Parameter ${paramDef.name} must be a number`)
+      } else {
+        if (paramDef.min !== undefined && value < paramDef.min) {
+          errors.push(`Parameter ${paramDef.name} is below minimum value ${paramDef.min}`)
+        }
+        if (paramDef.max !== undefined && value > paramDef.max) {
+          errors.push(`Parameter ${paramDef.name} is above maximum value ${paramDef.max}`)
+        }
+      }
+    }
+
+    if (paramDef.type === 'boolean' && typeof value !== 'boolean') {
+      errors.push(`Parameter ${paramDef.name} must be a boolean`)
+    }
+
+    if (paramDef.type === 'select' && paramDef.options && !paramDef.options.includes(value)) {
+      errors.push(`Parameter ${paramDef.name} must be one of: ${paramDef.options.join(', ')}`)
+    }
+  })
+
+  return errors
+}
+
 // Singleton instance
 let effectLibraryInstance: EffectLibrary | null = null
 
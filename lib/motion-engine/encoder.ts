@@ -0,0 +1,345 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+import ffmpegPath from 'ffmpeg-static'
+import { FrameBuffer, FramePadding, isSameAspect, parseHexColor } from './rasterizer'
+
+// Streams raw RGBA frames into the bundled ffmpeg binary and produces a
+// finished video file. One encoder instance encodes exactly one output.
+
+export type EncoderFormat = 'mp4' | 'webm' | 'gif' | 'mov'
+
+export interface QualitySettings {
+  bitrate: string
+  crf: number
+  preset: string
+}
+
+export interface EncoderSettings {
+  format: EncoderFormat
+  outputPath: string
+  inputWidth: number // dimensions of the frames written to the encoder
+  inputHeight: number
+  outputWidth: number // dimensions of the encoded video
+  outputHeight: number
+  fps: number
+  quality: QualitySettings
+  alpha?: boolean // keep the alpha channel (mov and webm only)
+  padding?: FramePadding // fits frames into an output of another aspect ratio
+}
+
+export interface EncodeResult {
+  path: string
+  size: number // bytes
+  duration: number // seconds
+  frameCount: number
+}
+
+// Anything the renderer can stream rasterized frames into
+export interface FrameSink {
+  start(): Promise<void>
+  writeFrame(frame: FrameBuffer, sourceFrame?: number): Promise<void>
+  finish(): Promise<EncodeResult>
+  abort(): Promise<void>
+}
+
+export class FFmpegEncoder implements FrameSink {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private exitPromise: Promise<void> | null = null
+  private stderr = ''
+  private frameCount = 0
+  private aborted = false
+
+  constructor(private settings: EncoderSettings) {}
+
+  async start(): Promise<void> {
+    if (this.process) {
+      throw new Error('Encoder already started')
+    }
+    if (this.settings.alpha && !supportsAlpha(this.settings.format)) {
+      throw new Error(`${this.settings.format} output cannot carry an alpha channel`)
+    }
+    if (!ffmpegPath) {
+      throw new Error('ffmpeg binary is not available for this platform')
+    }
+
+    await fs.mkdir(path.dirname(this.settings.outputPath), { recursive: true })
+
+    const child = spawn(ffmpegPath, this.buildArguments())
+    this.process = child
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Keep the tail only; ffmpeg is chatty on long encodes
+      this.stderr = (this.stderr + chunk.toString()).slice(-4000)
+    })
+
+    this.exitPromise = new Promise((resolve, reject) => {
+      child.on('error', reject)
+      // ffmpeg exiting mid-encode closes the pipe; an unhandled EPIPE here
+      // would take down the whole worker rather than just this render
+      child.stdin.on('error', error => {
+        reject(new Error(`ffmpeg stopped reading frames: ${error.message}${this.stderr ? `: ${this.stderr.trim()}` : ''}`))
+      })
+      child.on('close', code => {
+        if (code === 0) {
+          resolve()
+        } else if (this.aborted) {
+          reject(new Error('Encoding aborted'))
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${this.stderr.trim()}`))
+        }
+      })
+    })
+    // Surface failures through writeFrame/finish rather than as unhandled rejections
+    this.exitPromise.catch(() => undefined)
+  }
+
+  async writeFrame(frame: FrameBuffer): Promise<void> {
+    const child = this.process
+    if (!child || !this.exitPromise) {
+      throw new Error('Encoder not started')
+    }
+    if (frame.width !== this.settings.inputWidth || frame.height !== this.settings.inputHeight) {
+      throw new Error(
+        `Frame size ${frame.width}x${frame.height} does not match encoder input ` +
+        `${this.settings.inputWidth}x${this.settings.inputHeight}`
+      )
+    }
+
+    if (!child.stdin.writable) {
+      await this.exitPromise
+      throw new Error('Encoder input is closed')
+    }
+
+    const chunk = Buffer.from(frame.data.buffer, frame.data.byteOffset, frame.data.length)
+    this.frameCount++
+
+    if (!child.stdin.write(chunk)) {
+      // Respect backpressure so frames are never buffered in memory wholesale
+      await Promise.race([
+        new Promise<void>(resolve => child.stdin.once('drain', () => resolve())),
+        this.exitPromise,
+      ])
+    }
+  }
+
+  async finish(): Promise<EncodeResult> {
+    if (!this.process || !this.exitPromise) {
+      throw new Error('Encoder not started')
+    }
+
+    this.process.stdin.end()
+    await this.exitPromise
+
+    const stats = await fs.stat(this.settings.outputPath)
+    return {
+      path: this.settings.outputPath,
+      size: stats.size,
+      duration: this.frameCount / this.settings.fps,
+      frameCount: this.frameCount,
+    }
+  }
+
+  async abort(): Promise<void> {
+    if (!this.process) return
+
+    this.aborted = true
+    this.process.stdin.destroy()
+    this.process.kill('SIGKILL')
+    await this.exitPromise?.catch(() => undefined)
+    await fs.rm(this.settings.outputPath, { force: true })
+  }
+
+  getFrameCount(): number {
+    return this.frameCount
+  }
+
+  // Argument construction
+  private buildArguments(): string[] {
+    const { inputWidth, inputHeight, fps } = this.settings
+
+    const input = [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-y',
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgba',
+      '-s', `${inputWidth}x${inputHeight}`,
+      '-r', String(fps),
+      '-i', 'pipe:0',
+    ]
+
+    return [...input, ...this.getCodecArguments(), this.settings.outputPath]
+  }
+
+  private getCodecArguments(): string[] {
+    const { format, quality, alpha } = this.settings
+    const scale = this.getFitFilter()
+
+    switch (format) {
+      case 'mp4':
+        return [
+          '-vf', scale,
+          '-c:v', 'libx264',
+          '-preset', quality.preset,
+          '-crf', String(quality.crf),
+          '-maxrate', quality.bitrate,
+          '-bufsize', this.doubleBitrate(quality.bitrate),
+          '-pix_fmt', 'yuv420p',
+          '-movflags', '+faststart',
+        ]
+      case 'webm':
+        return [
+          '-vf', scale,
+          '-c:v', 'libvpx-vp9',
+          // VP9's CRF scale (0-63) runs wider than x264's
+          '-crf', String(Math.min(63, Math.round(quality.crf * 1.4))),
+          '-b:v', quality.bitrate,
+          '-deadline', 'good',
+          '-cpu-used', String(this.getVp9Speed(quality.preset)),
+          '-row-mt', '1',
+          // libvpx only encodes the alpha plane without alt-ref frames
+          ...(alpha ? ['-pix_fmt', 'yuva420p', '-auto-alt-ref', '0'] : ['-pix_fmt', 'yuv420p']),
+        ]
+      case 'mov':
+        // ProRes 4444 is intra-only with a fixed per-profile bitrate, so the
+        // quality settings do not apply
+        return [
+          '-vf', scale,
+          '-c:v', 'prores_ks',
+          '-profile:v', '4444',
+          '-vendor', 'apl0',
+          '-pix_fmt', alpha ? 'yuva444p10le' : 'yuv444p10le',
+          ...(alpha ? ['-alpha_bits', '16'] : []),
+        ]
+      case 'gif':
+        return [
+          '-filter_complex',
+          `[0:v]${scale}[fitted];[fitted]split[a][b];` +
+          '[a]palettegen=stats_mode=diff[palette];' +
+          '[b][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle',
+          '-loop', '0',
+        ]
+    }
+  }
+
+  // Single-input, single-output filter graph that sizes frames for the output
+  private getFitFilter(): string {
+    const { inputWidth, inputHeight, outputWidth: w, outputHeight: h, padding } = this.settings
+
+    if (!padding || isSameAspect(inputWidth, inputHeight, w, h)) {
+      return `scale=${w}:${h}:flags=lanczos`
+    }
+
+    // Largest even size that fits inside the output
+    const scale = Math.min(w / inputWidth, h / inputHeight)
+    const fitWidth = Math.min(w, Math.max(2, Math.round((inputWidth * scale) / 2) * 2))
+    const fitHeight = Math.min(h, Math.max(2, Math.round((inputHeight * scale) / 2) * 2))
+    const fit = `scale=${fitWidth}:${fitHeight}:flags=lanczos`
+
+    if (padding.mode === 'blur') {
+      const sigma = Math.max(1, Math.round(Math.min(w, h) / 40))
+      return 'split[bg][fg];' +
+        `[bg]scale=${w}:${h}:force_original_aspect_ratio=increase:flags=bilinear,crop=${w}:${h},gblur=sigma=${sigma}[blurred];` +
+        `[fg]${fit}[fitted];` +
+        '[blurred][fitted]overlay=(W-w)/2:(H-h)/2'
+    }
+
+    return `${fit},pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2:color=${this.getPadColor(padding.color)}`
+  }
+
+  private getPadColor(color: string | undefined): string {
+    const parsed = parseHexColor(color ?? '#000000') ?? { r: 0, g: 0, b: 0, alpha: 1 }
+    const hex = [parsed.r, parsed.g, parsed.b].map(value => value.toString(16).padStart(2, '0')).join('')
+    return `0x${hex}@${parsed.alpha.toFixed(3)}`
+  }
+
+  private getVp9Speed(preset: string): number {
+    switch (preset) {
+      case 'ultrafast':
+        return 8
+      case 'fast':
+        return 5
+      case 'slow':
+        return 2
+      case 'slower':
+        return 1
+      default:
+        return 4
+    }
+  }
+
+  private doubleBitrate(bitrate: string): string {
+    const match = /^(\d+(?:\.\d+)?)([KMG]?)$/i.exec(bitrate)
+    if (!match) return bitrate
+    return `${Number(match[1]) * 2}${match[2] ?? ''}`
+  }
+}
+
+// Joins videos encoded with identical settings by copying their streams, so
+// chunked renders come out bit-identical to their parts
+export async function concatVideos(
+  inputs: string[],
+  outputPath: string,
+  format: EncoderFormat
+): Promise<{ path: string; size: number }> {
+  if (!ffmpegPath) {
+    throw new Error('ffmpeg binary is not available for this platform')
+  }
+  if (format === 'gif') {
+    throw new Error('GIF output cannot be concatenated losslessly')
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+
+  const listPath = `${outputPath}.concat.txt`
+  const list = inputs.map(input => `file '${input.replace(/'/g, "'\\''")}'`).join('\n')
+  await fs.writeFile(listPath, list)
+
+  try {
+    await runFfmpeg(ffmpegPath, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-y',
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', listPath,
+      '-c', 'copy',
+      ...(format === 'mp4' ? ['-movflags', '+faststart'] : []),
+      outputPath,
+    ])
+  } finally {
+    await fs.rm(listPath, { force: true })
+  }
+
+  const stats = await fs.stat(outputPath)
+  return { path: outputPath, size: stats.size }
+}
+
+function runFfmpeg(binary: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args)
+    let stderr = ''
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-4000)
+    })
+    child.on('error', reject)
+    child.on('close', code => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`))
+      }
+    })
+  })
+}
+
+export function supportsAlpha(format: EncoderFormat): boolean {
+  return format === 'mov' || format === 'webm'
+}
+
+export function createEncoder(settings: EncoderSettings): FFmpegEncoder {
+  return new FFmpegEncoder(settings)
+}
+
+export default FFmpegEncoder
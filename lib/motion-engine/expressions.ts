@@ -0,0 +1,620 @@
+// Sandboxed expressions for property bindings, in the spirit of After Effects
+// expressions. Source is parsed into a small JavaScript-like syntax tree and
+// interpreted against an explicit scope: there is no eval, no assignment, no
+// function literals, and only functions placed in the scope can be called.
+//
+// Supported: number, string and boolean literals, arrays and { key: value }
+// objects, member access, calls, unary ! - +, arithmetic (component-wise on
+// vectors such as { x, y }), comparisons, && || ??, and the ternary operator.
+
+export type ExpressionScope = Record<string, unknown>
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; callee: ExpressionNode; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'object'; properties: Array<{ key: string; value: ExpressionNode }> }
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'punctuator' | 'end'
+  value: string
+  position: number
+}
+
+const MAX_EXPRESSION_LENGTH = 4000
+const MAX_COMPILED_EXPRESSIONS = 500
+
+// Longest first, so '===' is not read as '==' followed by '='
+const PUNCTUATORS = [
+  '===', '!==', '**', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', '[', ']', '{', '}', ',', '.',
+]
+
+// Binding power of each binary operator; ** is right-associative
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '**': 8,
+}
+
+const UNARY_PRECEDENCE = 9
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+}
+
+// Never readable, whatever object they are looked up on
+export const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor'])
+
+// Math without anything stateful; random is seeded, see the engine helpers
+const SAFE_MATH: Record<string, unknown> = {
+  PI: Math.PI,
+  E: Math.E,
+  abs: Math.abs,
+  acos: Math.acos,
+  asin: Math.asin,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  ceil: Math.ceil,
+  cos: Math.cos,
+  exp: Math.exp,
+  floor: Math.floor,
+  hypot: Math.hypot,
+  log: Math.log,
+  max: Math.max,
+  min: Math.min,
+  pow: Math.pow,
+  round: Math.round,
+  sign: Math.sign,
+  sin: Math.sin,
+  sqrt: Math.sqrt,
+  tan: Math.tan,
+  trunc: Math.trunc,
+}
+
+export class ExpressionEngine {
+  private compiled = new Map<string, ExpressionNode | Error>()
+
+  // Compilation
+  compile(source: string): ExpressionNode {
+    let result = this.compiled.get(source)
+
+    if (!result) {
+      try {
+        result = new ExpressionParser(source).parse()
+      } catch (error) {
+        result = error instanceof Error ? error : new Error(String(error))
+      }
+
+      if (this.compiled.size >= MAX_COMPILED_EXPRESSIONS) {
+        this.compiled.delete(this.compiled.keys().next().value!)
+      }
+      this.compiled.set(source, result)
+    }
+
+    if (result instanceof Error) throw result
+    return result
+  }
+
+  // Syntax check for editors; null when the expression parses
+  validate(source: string): string | null {
+    try {
+      this.compile(source)
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  // Evaluation
+  evaluate(source: string, scope: ExpressionScope): unknown {
+    return this.bind(source, scope)()
+  }
+
+  // For evaluating one expression many times over, such as once per pixel:
+  // the scope object is read on every call, so its values may change in
+  // between, but only the functions it held when bound can be called
+  bind(source: string, scope: ExpressionScope): () => unknown {
+    const node = this.compile(source)
+    const callable = new Set<unknown>()
+    this.collectFunctions(scope, callable, 0)
+    const interpreter = new ExpressionInterpreter(scope, callable)
+    return () => interpreter.evaluate(node)
+  }
+
+  // Functions handed in through the scope (or nested in objects such as Math)
+  // are the only things an expression may call
+  private collectFunctions(value: unknown, callable: Set<unknown>, depth: number): void {
+    if (typeof value === 'function') {
+      callable.add(value)
+    } else if (value && typeof value === 'object' && !Array.isArray(value) && depth < 2) {
+      Object.values(value).forEach(entry => this.collectFunctions(entry, callable, depth + 1))
+    }
+  }
+
+  getMath(): Record<string, unknown> {
+    return SAFE_MATH
+  }
+}
+
+class ExpressionParser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(source: string) {
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+      throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`)
+    }
+    this.tokens = this.tokenize(source)
+  }
+
+  parse(): ExpressionNode {
+    // A trailing semicolon is common in pasted After Effects expressions
+    const node = this.parseExpression(0)
+    if (this.peek().value === ';') this.index++
+    this.expectEnd()
+    return node
+  }
+
+  // Tokenizer
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let position = 0
+
+    while (position < source.length) {
+      const char = source[position]!
+
+      if (/\s/.test(char)) {
+        position++
+        continue
+      }
+
+      const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(source.slice(position))
+      if (number) {
+        tokens.push({ type: 'number', value: number[0], position })
+        position += number[0].length
+        continue
+      }
+
+      const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(position))
+      if (identifier) {
+        tokens.push({ type: 'identifier', value: identifier[0], position })
+        position += identifier[0].length
+        continue
+      }
+
+      if (char === '"' || char === '\'') {
+        const { value, end } = this.readString(source, position)
+        tokens.push({ type: 'string', value, position })
+        position = end
+        continue
+      }
+
+      const punctuator = PUNCTUATORS.find(candidate => source.startsWith(candidate, position)) ??
+        (char === ';' ? ';' : undefined)
+      if (!punctuator) {
+        throw new Error(`Unexpected character '${char}' at ${position + 1}`)
+      }
+      tokens.push({ type: 'punctuator', value: punctuator, position })
+      position += punctuator.length
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length })
+    return tokens
+  }
+
+  private readString(source: string, start: number): { value: string; end: number } {
+    const quote = source[start]
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' }
+    let value = ''
+    let position = start + 1
+
+    while (position < source.length) {
+      const char = source[position]!
+      if (char === quote) return { value, end: position + 1 }
+      if (char === '\\' && position + 1 < source.length) {
+        const next = source[position + 1]!
+        value += escapes[next] ?? next
+        position += 2
+        continue
+      }
+      value += char
+      position++
+    }
+
+    throw new Error(`Unterminated string starting at ${start + 1}`)
+  }
+
+  // Pratt parser
+  private parseExpression(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary()
+
+    for (;;) {
+      const token = this.peek()
+
+      if (token.type === 'punctuator' && token.value === '?' && minPrecedence === 0) {
+        this.index++
+        const consequent = this.parseExpression(0)
+        this.expect(':')
+        const alternate = this.parseExpression(0)
+        left = { type: 'conditional', test: left, consequent, alternate }
+        continue
+      }
+
+      const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined
+      if (precedence === undefined || precedence <= minPrecedence - (token.value === '**' ? 1 : 0)) {
+        return left
+      }
+
+      this.index++
+      const right = this.parseExpression(token.value === '**' ? precedence : precedence + 1)
+      left = { type: 'binary', operator: token.value, left, right }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek()
+    if (token.type === 'punctuator' && ['!', '-', '+'].includes(token.value)) {
+      this.index++
+      return { type: 'unary', operator: token.value, argument: this.parseExpression(UNARY_PRECEDENCE) }
+    }
+    return this.parsePostfix(this.parsePrimary())
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      const token = this.peek()
+
+      if (token.value === '.' && token.type === 'punctuator') {
+        this.index++
+        const name = this.next()
+        if (name.type !== 'identifier') throw this.unexpected(name)
+        node = { type: 'member', object: node, property: { type: 'literal', value: name.value } }
+      } else if (token.value === '[' && token.type === 'punctuator') {
+        this.index++
+        const property = this.parseExpression(0)
+        this.expect(']')
+        node = { type: 'member', object: node, property }
+      } else if (token.value === '(' && token.type === 'punctuator') {
+        this.index++
+        node = { type: 'call', callee: node, args: this.parseList(')') }
+      } else {
+        return node
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) }
+      case 'string':
+        return { type: 'literal', value: token.value }
+      case 'identifier':
+        return token.value in KEYWORDS
+          ? { type: 'literal', value: KEYWORDS[token.value] }
+          : { type: 'identifier', name: token.value }
+      case 'punctuator':
+        if (token.value === '(') {
+          const node = this.parseExpression(0)
+          this.expect(')')
+          return node
+        }
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']') }
+        }
+        if (token.value === '{') {
+          return this.parseObject()
+        }
+        throw this.unexpected(token)
+      default:
+        throw this.unexpected(token)
+    }
+  }
+
+  private parseObject(): ExpressionNode {
+    const properties: Array<{ key: string; value: ExpressionNode }> = []
+
+    while (this.peek().value !== '}' || this.peek().type !== 'punctuator') {
+      const key = this.next()
+      if (key.type !== 'identifier' && key.type !== 'string') throw this.unexpected(key)
+      if (BLOCKED_PROPERTIES.has(key.value)) {
+        throw new Error(`'${key.value}' is not allowed as a key at ${key.position + 1}`)
+      }
+      this.expect(':')
+      properties.push({ key: key.value, value: this.parseExpression(0) })
+      if (this.peek().value !== ',') break
+      this.index++
+    }
+
+    this.expect('}')
+    return { type: 'object', properties }
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = []
+
+    while (this.peek().value !== close || this.peek().type !== 'punctuator') {
+      items.push(this.parseExpression(0))
+      if (this.peek().value !== ',') break
+      this.index++
+    }
+
+    this.expect(close)
+    return items
+  }
+
+  // Token helpers
+  private peek(): Token {
+    return this.tokens[this.index]!
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!
+    if (token.type !== 'end') this.index++
+    return token
+  }
+
+  private expect(value: string): void {
+    const token = this.next()
+    if (token.type !== 'punctuator' || token.value !== value) {
+      throw this.unexpected(token, `expected '${value}'`)
+    }
+  }
+
+  private expectEnd(): void {
+    const token = this.peek()
+    if (token.type !== 'end') throw this.unexpected(token)
+  }
+
+  private unexpected(token: Token, hint?: string): Error {
+    const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`
+    return new Error(`Unexpected ${found} at ${token.position + 1}${hint ? `, ${hint}` : ''}`)
+  }
+}
+
+class ExpressionInterpreter {
+  constructor(
+    private scope: ExpressionScope,
+    private callable: Set<unknown>
+  ) {}
+
+  evaluate(node: ExpressionNode): unknown {
+    switch (node.type) {
+      case 'literal':
+        return node.value
+      case 'identifier':
+        if (!Object.prototype.hasOwnProperty.call(this.scope, node.name)) {
+          throw new Error(`${node.name} is not defined`)
+        }
+        return this.scope[node.name]
+      case 'member':
+        return this.getMember(this.evaluate(node.object), this.evaluate(node.property))
+      case 'call':
+        return this.call(node)
+      case 'unary':
+        return this.unary(node.operator, this.evaluate(node.argument))
+      case 'binary':
+        return this.binary(node)
+      case 'conditional':
+        return this.evaluate(node.test) ? this.evaluate(node.consequent) : this.evaluate(node.alternate)
+      case 'array':
+        return node.elements.map(element => this.evaluate(element))
+      case 'object': {
+        const result: Record<string, unknown> = {}
+        node.properties.forEach(({ key, value }) => {
+          result[key] = this.evaluate(value)
+        })
+        return result
+      }
+    }
+  }
+
+  private getMember(object: unknown, property: unknown): unknown {
+    const key = String(property)
+    if (BLOCKED_PROPERTIES.has(key)) {
+      throw new Error(`Cannot read ${key}`)
+    }
+
+    if (typeof object === 'string' || Array.isArray(object)) {
+      if (key === 'length') return object.length
+      if (/^\d+$/.test(key)) return object[Number(key)]
+      throw new Error(`Cannot read ${key} of ${Array.isArray(object) ? 'an array' : 'a string'}`)
+    }
+
+    if (object === null || typeof object !== 'object') {
+      throw new Error(`Cannot read ${key} of ${object === null ? 'null' : typeof object}`)
+    }
+
+    // Own data only; nothing is reachable through the prototype chain
+    return Object.prototype.hasOwnProperty.call(object, key)
+      ? (object as Record<string, unknown>)[key]
+      : undefined
+  }
+
+  private call(node: Extract<ExpressionNode, { type: 'call' }>): unknown {
+    const callee = this.evaluate(node.callee)
+    if (typeof callee !== 'function' || !this.callable.has(callee)) {
+      throw new Error(`${this.describe(node.callee)} is not a function`)
+    }
+    return callee(...node.args.map(arg => this.evaluate(arg)))
+  }
+
+  private unary(operator: string, value: unknown): unknown {
+    switch (operator) {
+      case '!':
+        return !value
+      case '-':
+        return mapVector(value, component => -component)
+      default:
+        return mapVector(value, component => +component)
+    }
+  }
+
+  private binary(node: Extract<ExpressionNode, { type: 'binary' }>): unknown {
+    const left = this.evaluate(node.left)
+
+    // Short-circuiting operators only evaluate what they need
+    switch (node.operator) {
+      case '&&':
+        return left ? this.evaluate(node.right) : left
+      case '||':
+        return left ? left : this.evaluate(node.right)
+      case '??':
+        return left ?? this.evaluate(node.right)
+    }
+
+    const right = this.evaluate(node.right)
+
+    switch (node.operator) {
+      case '==':
+      case '===':
+        return left === right
+      case '!=':
+      case '!==':
+        return left !== right
+      case '<':
+        return (left as number) < (right as number)
+      case '<=':
+        return (left as number) <= (right as number)
+      case '>':
+        return (left as number) > (right as number)
+      case '>=':
+        return (left as number) >= (right as number)
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') {
+          return String(left) + String(right)
+        }
+        return combineVectors(left, right, (a, b) => a + b)
+      case '-':
+        return combineVectors(left, right, (a, b) => a - b)
+      case '*':
+        return combineVectors(left, right, (a, b) => a * b)
+      case '/':
+        return combineVectors(left, right, (a, b) => a / b)
+      case '%':
+        return combineVectors(left, right, (a, b) => a % b)
+      default:
+        return combineVectors(left, right, (a, b) => a ** b)
+    }
+  }
+
+  private describe(node: ExpressionNode): string {
+    if (node.type === 'identifier') return node.name
+    if (node.type === 'member' && node.property.type === 'literal') {
+      return `${this.describe(node.object)}.${String(node.property.value)}`
+    }
+    return 'Expression'
+  }
+}
+
+// Vector helpers. Values are numbers, arrays of numbers or objects of numbers
+// ({ x, y }, { width, height }); arithmetic applies per component, and a plain
+// number combines with every component of a vector.
+export function mapVector(value: unknown, fn: (component: number) => number): unknown {
+  if (typeof value === 'number') return fn(value)
+  if (Array.isArray(value)) return value.map(component => mapVector(component, fn))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, component]) => [key, mapVector(component, fn)])
+    )
+  }
+  if (typeof value === 'boolean') return fn(Number(value))
+  throw new Error(`Expected a number or vector, got ${value === null ? 'null' : typeof value}`)
+}
+
+export function combineVectors(
+  left: unknown,
+  right: unknown,
+  fn: (a: number, b: number) => number
+): unknown {
+  if (typeof left === 'number' && typeof right === 'number') return fn(left, right)
+  if (typeof right === 'number') return mapVector(left, component => fn(component, right))
+  if (typeof left === 'number') return mapVector(right, component => fn(left, component))
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.map((component, index) =>
+      index < right.length ? combineVectors(component, right[index], fn) : component
+    )
+  }
+
+  if (left && right && typeof left === 'object' && typeof right === 'object' &&
+    !Array.isArray(left) && !Array.isArray(right)) {
+    const result: Record<string, unknown> = { ...left }
+    for (const [key, component] of Object.entries(right)) {
+      result[key] = key in result ? combineVectors(result[key], component, fn) : component
+    }
+    return result
+  }
+
+  throw new Error('Cannot combine these values')
+}
+
+// Deterministic randomness, so every render of a frame draws the same values
+export function seededRandom(seed: string | number): number {
+  // FNV-1a hash of the seed, then one round of mulberry32
+  let hash = 2166136261
+  for (const char of String(seed)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619)
+  }
+
+  let t = (hash + 0x6d2b79f5) | 0
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+// Smooth 1D value noise in [-1, 1], layered in octaves that each double the
+// frequency and scale the amplitude by amplitudeMultiplier
+export function seededNoise(
+  seed: string,
+  x: number,
+  octaves: number = 1,
+  amplitudeMultiplier: number = 0.5
+): number {
+  let total = 0
+  let amplitude = 1
+  let range = 0
+
+  for (let octave = 0; octave < Math.max(1, Math.min(10, Math.floor(octaves))); octave++) {
+    const position = x * 2 ** octave
+    const cell = Math.floor(position)
+    const t = position - cell
+    const smooth = t * t * (3 - 2 * t)
+    const from = seededRandom(`${seed}:${octave}:${cell}`) * 2 - 1
+    const to = seededRandom(`${seed}:${octave}:${cell + 1}`) * 2 - 1
+
+    total += (from + (to - from) * smooth) * amplitude
+    range += amplitude
+    amplitude *= amplitudeMultiplier
+  }
+
+  return range > 0 ? total / range : 0
+}
+
+// Singleton instance
+let expressionEngineInstance: ExpressionEngine | null = null
+
+export function getExpressionEngine(): ExpressionEngine {
+  if (!expressionEngineInstance) {
+    expressionEngineInstance = new ExpressionEngine()
+  }
+  return expressionEngineInstance
+}
+
+export default ExpressionEngine
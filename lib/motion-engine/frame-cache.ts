@@ -0,0 +1,193 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import sharp from 'sharp'
+import { SceneComposition, FrameComposition, isCrossSceneComposition } from './scene-composer'
+import { getFrameRasterizer, FrameBuffer, RasterizeOptions } from './rasterizer'
+import { isEffectActive, isAnimatedEffect, isSeededEffect } from './effects'
+
+// Content-addressed cache of rasterized frames. A frame's key is a hash of
+// everything the rasterizer reads from its composition, so unchanged frames
+// are reused across re-renders (and across identical frames within a render).
+
+// Bump when rasterizer output changes so stale pixels are never reused
+const FRAME_CACHE_VERSION = 4
+
+export class FrameCache {
+  private rasterizer = getFrameRasterizer()
+
+  constructor(
+    private directory: string,
+    private maxBytes: number
+  ) {}
+
+  hashComposition(composition: FrameComposition, options: RasterizeOptions): string {
+    // Frame numbers and timestamps are left out on purpose: a held frame
+    // hashes the same wherever it appears on the timeline. Assets are keyed by
+    // their URL, so replaced uploads need a new URL to invalidate frames.
+    const content = {
+      version: FRAME_CACHE_VERSION,
+      options: {
+        width: options.width,
+        height: options.height,
+        scale: options.scale ?? 1,
+        backgroundColor: options.transparent ? null : options.backgroundColor ?? null,
+        transparent: options.transparent ?? false,
+      },
+      ...(isCrossSceneComposition(composition)
+        ? {
+          // The scene states carry everything the transition does to the pixels
+          cross: {
+            from: this.getSceneContent(composition.from, options),
+            to: this.getSceneContent(composition.to, options),
+            fromState: composition.fromState,
+            toState: composition.toState,
+            fromOnTop: composition.fromOnTop,
+            blendMode: composition.blendMode,
+            // The pixel function itself is identified by its type and version
+            pixel: composition.pixel ? { ...composition.pixel, run: undefined } : null,
+          },
+        }
+        : this.getSceneContent(composition, options)),
+    }
+
+    return createHash('sha256').update(stableStringify(content)).digest('hex')
+  }
+
+  private getSceneContent(composition: SceneComposition, options: RasterizeOptions) {
+    return {
+      background: options.transparent ? null : composition.background,
+      layers: composition.layers.map(layer => {
+        const effects = layer.element.effects.filter(effect => isEffectActive(effect, composition.frame))
+        return {
+          type: layer.element.type,
+          properties: layer.computedProperties,
+          effects,
+          // Animated grain and displacement differ on every frame
+          frame: effects.some(isAnimatedEffect) ? composition.frame : undefined,
+          // Grain and displacement are seeded from the element
+          seed: effects.some(isSeededEffect) ? layer.element.id : undefined,
+          visible: layer.visible,
+          blendMode: layer.blendMode,
+          mask: layer.mask ?? null,
+        }
+      }),
+      transitions: composition.activeTransitions.map(active => ({
+        type: active.transition.type,
+        direction: active.transition.direction,
+        parameters: active.transition.parameters,
+        progress: active.progress,
+      })),
+    }
+  }
+
+  async get(hash: string): Promise<FrameBuffer | null> {
+    const filePath = this.getFilePath(hash)
+
+    try {
+      const { data, info } = await sharp(filePath)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+
+      // Touch the entry so pruning evicts the least recently used frames first
+      const now = new Date()
+      await fs.utimes(filePath, now, now).catch(() => undefined)
+
+      return { width: info.width, height: info.height, data: new Uint8ClampedArray(data) }
+    } catch {
+      return null
+    }
+  }
+
+  async set(hash: string, frame: FrameBuffer): Promise<void> {
+    const filePath = this.getFilePath(hash)
+    // Write then rename so parallel chunk workers never read a partial file
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(tempPath, await this.rasterizer.encodePng(frame))
+      await fs.rename(tempPath, filePath)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      console.warn('Failed to cache rendered frame:', error)
+    }
+  }
+
+  // Evict least recently used frames until the cache fits its size budget
+  async prune(): Promise<void> {
+    const entries: Array<{ path: string; size: number; used: number }> = []
+
+    let shards: string[] = []
+    try {
+      shards = await fs.readdir(this.directory)
+    } catch {
+      return
+    }
+
+    for (const shard of shards) {
+      const shardPath = path.join(this.directory, shard)
+      const files = await fs.readdir(shardPath).catch(() => [] as string[])
+      for (const file of files) {
+        const filePath = path.join(shardPath, file)
+        const stats = await fs.stat(filePath).catch(() => null)
+        if (stats?.isFile()) {
+          entries.push({ path: filePath, size: stats.size, used: stats.mtimeMs })
+        }
+      }
+    }
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    if (total <= this.maxBytes) return
+
+    entries.sort((a, b) => a.used - b.used)
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break
+      await fs.rm(entry.path, { force: true })
+      total -= entry.size
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true })
+  }
+
+  private getFilePath(hash: string): string {
+    // Shard by prefix to keep directories small
+    return path.join(this.directory, hash.slice(0, 2), `${hash}.png`)
+  }
+}
+
+// JSON with sorted object keys, so equal content always hashes equally
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null'
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+
+  const record = value as Record<string, unknown>
+  const fields = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+  return `{${fields.join(',')}}`
+}
+
+// Singleton instance
+let frameCacheInstance: FrameCache | null = null
+
+export function getFrameCache(): FrameCache {
+  if (!frameCacheInstance) {
+    const outputDir = process.env['RENDER_OUTPUT_DIR'] || path.join(process.cwd(), 'uploads', 'renders')
+    const directory = process.env['RENDER_CACHE_DIR'] || path.join(outputDir, 'cache')
+    const maxMegabytes = Number(process.env['RENDER_CACHE_MAX_MB']) || 2048
+    frameCacheInstance = new FrameCache(directory, maxMegabytes * 1024 * 1024)
+  }
+  return frameCacheInstance
+}
+
+export default FrameCache
@@ -0,0 +1,312 @@
+import { createWriteStream, promises as fs, WriteStream } from 'fs'
+import path from 'path'
+import archiver, { Archiver } from 'archiver'
+import sharp from 'sharp'
+import { getFrameRasterizer, FrameBuffer, FramePadding } from './rasterizer'
+import { EncodeResult, FrameSink } from './encoder'
+
+// Writes rendered frames as numbered PNGs into a zip archive together with a
+// JSON manifest, and optionally packs them into a sprite sheet with an atlas.
+
+export interface SpriteSheetOptions {
+  columns?: number // defaults to a roughly square grid
+  padding?: number // pixels between frames
+  maxSize?: number // largest allowed sheet width or height
+}
+
+export interface FrameSequenceSettings {
+  outputPath: string
+  inputWidth: number // dimensions of the frames written to the sequence
+  inputHeight: number
+  outputWidth: number // dimensions of the exported PNGs
+  outputHeight: number
+  fps: number
+  frameCount: number // expected number of frames, used for naming and sheet layout
+  spriteSheet?: SpriteSheetOptions
+  padding?: FramePadding // fits frames into an output of another aspect ratio
+  metadata?: Record<string, unknown>
+}
+
+export interface FrameManifestEntry {
+  index: number
+  file: string
+  sourceFrame: number // project frame the PNG was rendered from
+  time: number // seconds from the start of the sequence
+}
+
+export interface FrameManifest {
+  version: 1
+  fps: number
+  width: number
+  height: number
+  frameCount: number
+  duration: number
+  frames: FrameManifestEntry[]
+  spriteSheet?: { image: string; atlas: string }
+  metadata?: Record<string, unknown>
+}
+
+export interface SpriteRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+// TexturePacker "JSON hash" layout, readable by Phaser, PixiJS and most engines
+export interface SpriteAtlas {
+  frames: Record<string, {
+    frame: SpriteRect
+    rotated: false
+    trimmed: false
+    spriteSourceSize: SpriteRect
+    sourceSize: { w: number; h: number }
+    duration: number // milliseconds
+  }>
+  animations: Record<string, string[]>
+  meta: {
+    app: string
+    version: string
+    image: string
+    format: 'RGBA8888'
+    size: { w: number; h: number }
+    scale: string
+    frameRate: number
+  }
+}
+
+const FRAME_DIRECTORY = 'frames'
+const SPRITE_SHEET_IMAGE = 'spritesheet.png'
+const SPRITE_SHEET_ATLAS = 'spritesheet.json'
+const DEFAULT_MAX_SHEET_SIZE = 8192
+
+export class FrameSequenceWriter implements FrameSink {
+  private archive: Archiver | null = null
+  private output: WriteStream | null = null
+  private donePromise: Promise<void> | null = null
+  private entries: FrameManifestEntry[] = []
+  private sheetFrames: Buffer[] = []
+  private frameCount = 0
+  private rasterizer = getFrameRasterizer()
+
+  constructor(private settings: FrameSequenceSettings) {}
+
+  async start(): Promise<void> {
+    if (this.archive) {
+      throw new Error('Frame sequence already started')
+    }
+    if (this.settings.spriteSheet) {
+      // Fail before rendering anything if the sheet could never be packed
+      this.getSheetLayout(this.settings.frameCount)
+    }
+
+    await fs.mkdir(path.dirname(this.settings.outputPath), { recursive: true })
+
+    const archive = archiver('zip', { zlib: { level: 6 } })
+    const output = createWriteStream(this.settings.outputPath)
+    this.archive = archive
+    this.output = output
+
+    this.donePromise = new Promise((resolve, reject) => {
+      archive.on('error', reject)
+      archive.on('warning', reject)
+      output.on('error', reject)
+      output.on('close', () => resolve())
+    })
+    // Surface failures through writeFrame/finish rather than as unhandled rejections
+    this.donePromise.catch(() => undefined)
+
+    archive.pipe(output)
+  }
+
+  async writeFrame(frame: FrameBuffer, sourceFrame?: number): Promise<void> {
+    const archive = this.archive
+    if (!archive || !this.donePromise) {
+      throw new Error('Frame sequence not started')
+    }
+    if (frame.width !== this.settings.inputWidth || frame.height !== this.settings.inputHeight) {
+      throw new Error(
+        `Frame size ${frame.width}x${frame.height} does not match sequence input ` +
+        `${this.settings.inputWidth}x${this.settings.inputHeight}`
+      )
+    }
+
+    const index = this.frameCount++
+    const png = await this.rasterizer.encodeImage(frame, {
+      format: 'png',
+      width: this.settings.outputWidth,
+      height: this.settings.outputHeight,
+      ...(this.settings.padding ? { padding: this.settings.padding } : {}),
+    })
+    const file = `${FRAME_DIRECTORY}/${this.getFrameName(index)}`
+
+    this.entries.push({
+      index,
+      file,
+      sourceFrame: sourceFrame ?? index,
+      time: index / this.settings.fps,
+    })
+    if (this.settings.spriteSheet) {
+      this.sheetFrames.push(png)
+    }
+
+    // PNG data is already deflated, so store it as-is. Waiting for the entry
+    // keeps at most one frame queued inside the archiver.
+    const written = new Promise<void>(resolve => archive.once('entry', () => resolve()))
+    archive.append(png, { name: file, store: true })
+    await Promise.race([written, this.donePromise])
+  }
+
+  async finish(): Promise<EncodeResult> {
+    const archive = this.archive
+    if (!archive || !this.donePromise) {
+      throw new Error('Frame sequence not started')
+    }
+
+    const manifest = this.buildManifest()
+
+    if (this.settings.spriteSheet) {
+      const { image, atlas } = await this.packSpriteSheet()
+      archive.append(image, { name: SPRITE_SHEET_IMAGE, store: true })
+      archive.append(JSON.stringify(atlas, null, 2), { name: SPRITE_SHEET_ATLAS })
+      manifest.spriteSheet = { image: SPRITE_SHEET_IMAGE, atlas: SPRITE_SHEET_ATLAS }
+    }
+
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' })
+    await archive.finalize()
+    await this.donePromise
+
+    const stats = await fs.stat(this.settings.outputPath)
+    return {
+      path: this.settings.outputPath,
+      size: stats.size,
+      duration: manifest.duration,
+      frameCount: this.frameCount,
+    }
+  }
+
+  async abort(): Promise<void> {
+    if (!this.archive) return
+
+    this.archive.abort()
+    this.output?.destroy()
+    await this.donePromise?.catch(() => undefined)
+    await fs.rm(this.settings.outputPath, { force: true })
+  }
+
+  getFrameCount(): number {
+    return this.frameCount
+  }
+
+  // Naming and manifest
+  private getFrameName(index: number): string {
+    // Zero-padded so the files sort in playback order
+    const digits = Math.max(5, String(Math.max(0, this.settings.frameCount - 1)).length)
+    return `frame_${String(index).padStart(digits, '0')}.png`
+  }
+
+  private buildManifest(): FrameManifest {
+    const manifest: FrameManifest = {
+      version: 1,
+      fps: this.settings.fps,
+      width: this.settings.outputWidth,
+      height: this.settings.outputHeight,
+      frameCount: this.frameCount,
+      duration: this.frameCount / this.settings.fps,
+      frames: this.entries,
+    }
+    if (this.settings.metadata) {
+      manifest.metadata = this.settings.metadata
+    }
+    return manifest
+  }
+
+  // Sprite sheet packing
+  private getSheetLayout(count: number): { columns: number; rows: number; width: number; height: number } {
+    const options = this.settings.spriteSheet ?? {}
+    const { outputWidth, outputHeight } = this.settings
+    const padding = Math.max(0, Math.round(options.padding ?? 0))
+    const maxSize = options.maxSize ?? DEFAULT_MAX_SHEET_SIZE
+    const frames = Math.max(1, count)
+
+    // Frames all share one size, so a uniform grid is an optimal packing
+    const fitColumns = Math.max(1, Math.floor((maxSize + padding) / (outputWidth + padding)))
+    const preferred = options.columns ?? Math.ceil(Math.sqrt(frames))
+    const columns = Math.max(1, Math.min(preferred, fitColumns, frames))
+    const rows = Math.ceil(frames / columns)
+
+    const width = columns * outputWidth + (columns - 1) * padding
+    const height = rows * outputHeight + (rows - 1) * padding
+
+    if (width > maxSize || height > maxSize) {
+      throw new Error(
+        `Sprite sheet for ${frames} frames at ${outputWidth}x${outputHeight} would be ` +
+        `${width}x${height}, exceeding the ${maxSize}px limit; lower the resolution or frame range`
+      )
+    }
+
+    return { columns, rows, width, height }
+  }
+
+  private async packSpriteSheet(): Promise<{ image: Buffer; atlas: SpriteAtlas }> {
+    const { outputWidth, outputHeight, fps } = this.settings
+    const padding = Math.max(0, Math.round(this.settings.spriteSheet?.padding ?? 0))
+    const layout = this.getSheetLayout(this.sheetFrames.length)
+
+    const atlas: SpriteAtlas = {
+      frames: {},
+      animations: { sequence: [] },
+      meta: {
+        app: 'motion-graphics',
+        version: '1.0',
+        image: SPRITE_SHEET_IMAGE,
+        format: 'RGBA8888',
+        size: { w: layout.width, h: layout.height },
+        scale: '1',
+        frameRate: fps,
+      },
+    }
+
+    const placements = this.sheetFrames.map((input, index) => {
+      const name = this.getFrameName(index)
+      const rect = {
+        x: (index % layout.columns) * (outputWidth + padding),
+        y: Math.floor(index / layout.columns) * (outputHeight + padding),
+        w: outputWidth,
+        h: outputHeight,
+      }
+
+      atlas.frames[name] = {
+        frame: rect,
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w: outputWidth, h: outputHeight },
+        sourceSize: { w: outputWidth, h: outputHeight },
+        duration: 1000 / fps,
+      }
+      atlas.animations['sequence']?.push(name)
+
+      return { input, left: rect.x, top: rect.y }
+    })
+
+    const image = await sharp({
+      create: {
+        width: layout.width,
+        height: layout.height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    })
+      .composite(placements)
+      .png()
+      .toBuffer()
+
+    return { image, atlas }
+  }
+}
+
+export function createFrameSequence(settings: FrameSequenceSettings): FrameSequenceWriter {
+  return new FrameSequenceWriter(settings)
+}
+
+export default FrameSequenceWriter
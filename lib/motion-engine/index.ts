@@ -9,27 +9,46 @@ export {
   type ElementProperties,
   type Animation,
   type Keyframe,
+  type MotionPath,
   type EasingType,
   type Effect,
   type EffectType,
   type SceneBackground,
   type SceneTransition,
   type TransitionType,
+  type BuiltInTransitionType,
   type CameraSettings,
   type GlobalSettings,
   type AudioSettings,
   type ProjectMetadata,
+  type ExpressionError,
 } from './core'
 
+// Expression exports
+export {
+  ExpressionEngine,
+  getExpressionEngine,
+  seededRandom,
+  seededNoise,
+  type ExpressionScope,
+  type ExpressionNode,
+} from './expressions'
+
 // Scene composition exports
 export {
   SceneComposer,
   getSceneComposer,
+  isCrossSceneComposition,
   type CompositionLayer,
   type BlendMode,
   type MaskSettings,
   type SceneComposition,
   type ActiveTransition,
+  type CrossSceneComposition,
+  type FrameComposition,
+  type SceneState,
+  type TransitionMask,
+  type PixelTransition,
 } from './scene-composer'
 
 // Timeline management exports
@@ -50,17 +69,42 @@ export {
   getTransitionSystem,
   type TransitionEffect,
   type TransitionPreset,
+  type TransitionPlugin,
+  type TransitionPluginManifest,
+  type TransitionPixelFunction,
+  type TransitionPixelInput,
 } from './transitions'
 
+// Luma map exports
+export {
+  generateLumaMap,
+  isBundledLumaMap,
+  BUNDLED_LUMA_MAPS,
+  type BundledLumaMap,
+  type LumaMapOptions,
+} from './luma-maps'
+
 // Effects library exports
 export {
   EffectLibrary,
   getEffectLibrary,
+  isEffectActive,
+  isAnimatedEffect,
+  isSeededEffect,
+  validateParameterValues,
   type EffectDefinition,
   type EffectParameter,
   type EffectPreset,
 } from './effects'
 
+// Raster effect exports
+export {
+  blurChannels,
+  distanceTransform,
+  type RasterEffect,
+  type RasterEffectContext,
+} from './raster-effects'
+
 // Rendering pipeline exports
 export {
   MotionRenderer,
@@ -72,11 +116,87 @@ export {
   type RenderStats,
 } from './renderer'
 
+// Render preset exports
+export {
+  RenderPresetLibrary,
+  getRenderPresets,
+  RENDER_FORMATS,
+  RENDER_QUALITIES,
+  RENDER_QUALITY_IDS,
+  type RenderPreset,
+  type PresetValidation,
+} from './render-presets'
+
+// Easing exports
+export {
+  ease,
+  bezierAt,
+  springDisplacement,
+  getBezierPoints,
+  BEZIER_PRESETS,
+  type EasingOptions,
+} from './easing'
+
+// Color exports
+export {
+  parseColor,
+  formatColor,
+  isColor,
+  interpolateColor,
+  mixColors,
+  interpolateGradientStops,
+  sampleGradient,
+  NAMED_COLORS,
+  type RGBA,
+  type ColorInterpolationSpace,
+  type WorkingColorSpace,
+  type GradientStop,
+} from './color'
+
+// Path exports
+export {
+  PathMeasure,
+  measurePath,
+  parseSvgPath,
+  pointOnSegment,
+  tangentOnSegment,
+  transformSvgPath,
+  type PathPoint,
+  type PathSample,
+  type CubicSegment,
+  type PathContour,
+} from './svg-path'
+
+// Reframe exports
+export {
+  ProjectReframer,
+  getProjectReframer,
+  reframeProject,
+  type ReframeOptions,
+  type ReframeIssue,
+  type ReframeReport,
+  type ReframeResult,
+} from './reframe'
+
+// Lottie export exports
+export {
+  LottieExporter,
+  getLottieExporter,
+  exportLottie,
+  type LottieAnimation,
+  type LottieLayer,
+  type LottieAsset,
+  type LottieExportWarning,
+  type LottieExportResult,
+} from './lottie-exporter'
+
 // Customization layer exports
 export {
   CustomizationEngine,
   getCustomizationEngine,
   type PropertyBinding,
+  type TemplateSlot,
+  type TemplateSlotType,
   type PropertyController,
   type CustomizationPreset,
   type UndoRedoState,
@@ -381,5 +501,9 @@ export const COMMON_PRESETS = {
     'ease-in-out',
     'spring',
     'bounce',
+    'elastic',
+    'back',
+    'cubic-bezier',
+    'steps',
   ] as EasingType[],
 }
@@ -0,0 +1,1077 @@
+import {
+  MotionProject,
+  MotionScene,
+  MotionElement,
+  Animation,
+  SceneTransition,
+  GradientBackground,
+  MediaBackground,
+} from './core'
+import { getMotionEngine } from './core'
+import { parseSvgPath } from './svg-path'
+import { getBezierPoints } from './easing'
+import { parseColor, formatColor } from './color'
+
+// Bodymovin/Lottie JSON structures. Only the fields the exporter writes are
+// typed; layer and shape internals follow the Lottie schema loosely.
+export interface LottieAnimation {
+  v: string
+  fr: number
+  ip: number
+  op: number
+  w: number
+  h: number
+  nm: string
+  ddd: 0
+  assets: LottieAsset[]
+  layers: LottieLayer[]
+  fonts: { list: LottieFont[] }
+  markers: LottieMarker[]
+}
+
+export type LottieLayer = Record<string, any>
+
+export interface LottieAsset {
+  id: string
+  [key: string]: any
+}
+
+export interface LottieFont {
+  fName: string
+  fFamily: string
+  fStyle: string
+  ascent: number
+}
+
+export interface LottieMarker {
+  tm: number
+  cm: string
+  dr: number
+}
+
+export interface LottieExportWarning {
+  sceneId?: string
+  elementId?: string
+  feature: string
+  message: string
+}
+
+export interface LottieExportResult {
+  animation: LottieAnimation
+  warnings: LottieExportWarning[]
+}
+
+interface LottieKeyframe {
+  t: number
+  s: any[]
+  h?: 1
+  o?: { x: number[]; y: number[] }
+  i?: { x: number[]; y: number[] }
+}
+
+interface ExportContext {
+  project: MotionProject
+  warnings: LottieExportWarning[]
+  assets: LottieAsset[]
+  fonts: Map<string, LottieFont>
+}
+
+type Sampler = (properties: any) => number[]
+
+const LOTTIE_VERSION = '5.7.4'
+
+const BLEND_MODES: Record<string, number> = {
+  normal: 0,
+  multiply: 1,
+  screen: 2,
+  overlay: 3,
+  darken: 4,
+  lighten: 5,
+  'color-dodge': 6,
+  'color-burn': 7,
+  'hard-light': 8,
+  'soft-light': 9,
+  difference: 10,
+  exclusion: 11,
+}
+
+export class LottieExporter {
+  private motionEngine = getMotionEngine()
+
+  // Main export method
+  exportProject(project: MotionProject): LottieExportResult {
+    const context: ExportContext = {
+      project,
+      warnings: [],
+      assets: [],
+      fonts: new Map(),
+    }
+
+    const layers: LottieLayer[] = []
+    project.scenes.forEach((scene, index) => {
+      const asset = this.buildScenePrecomp(context, scene)
+      context.assets.push(asset)
+      layers.push(this.buildSceneLayer(context, scene, asset.id, index + 1))
+    })
+
+    // Scenes stack in project order with later scenes on top
+    layers.reverse()
+    layers.push(this.buildSolidLayer(project.backgroundColor, project, layers.length + 1, 0, project.duration, 'Background'))
+
+    const animation: LottieAnimation = {
+      v: LOTTIE_VERSION,
+      fr: project.fps,
+      ip: 0,
+      op: project.duration,
+      w: project.width,
+      h: project.height,
+      nm: project.title,
+      ddd: 0,
+      assets: context.assets,
+      layers,
+      fonts: { list: Array.from(context.fonts.values()) },
+      markers: project.scenes.map(scene => ({
+        tm: scene.startFrame,
+        cm: scene.title,
+        dr: scene.endFrame - scene.startFrame,
+      })),
+    }
+
+    return { animation, warnings: context.warnings }
+  }
+
+  // Scene conversion
+  private buildScenePrecomp(context: ExportContext, scene: MotionScene): LottieAsset {
+    const elements = [...scene.elements].sort((a, b) => a.layer - b.layer)
+    const layers: LottieLayer[] = []
+    const indices = new Map(elements.map((element, i) => [element.id, elements.length - i]))
+    const elementsById = new Map(scene.elements.map(element => [element.id, element]))
+
+    // Each parent lends its transform through a null layer, numbered after the
+    // background and created once however many children it has
+    const parentLayers: LottieLayer[] = []
+    const parentIndices = new Map<string, number>()
+    const getParentIndex = (parent: MotionElement): number => {
+      const existing = parentIndices.get(parent.id)
+      if (existing !== undefined) return existing
+
+      const index = elements.length + 2 + parentIndices.size
+      parentIndices.set(parent.id, index)
+      const layer = this.buildParentLayer(context, scene, parent, index)
+      const grandparent = this.getExportParent(parent, elementsById)
+      if (grandparent) {
+        layer['parent'] = getParentIndex(grandparent)
+      }
+      parentLayers.push(layer)
+      return index
+    }
+
+    elements.forEach(element => {
+      const layer = this.buildElementLayer(context, scene, element, indices.get(element.id) ?? 0)
+      if (!layer) return
+
+      const parent = this.getExportParent(element, elementsById)
+      if (parent) {
+        layer['parent'] = getParentIndex(parent)
+        this.applyAncestors(context, scene, element, layer, elementsById)
+      }
+      layers.push(layer)
+    })
+
+    // Lottie draws the first layer on top
+    layers.reverse()
+
+    const background = this.buildBackgroundLayer(context, scene, elements.length + 1)
+    if (background) {
+      layers.push(background)
+    }
+    layers.push(...parentLayers)
+
+    if (scene.camera) {
+      this.warn(context, { sceneId: scene.id }, 'camera', 'Scene cameras are not exported')
+    }
+
+    return {
+      id: `scene_${scene.id}`,
+      nm: scene.title,
+      layers,
+    }
+  }
+
+  // Parenting. The composer places children relative to the parent's position
+  // and multiplies in its opacity; Lottie parents carry only the transform.
+  private getExportParent(
+    element: MotionElement,
+    elementsById: Map<string, MotionElement>
+  ): MotionElement | undefined {
+    const parent = this.getParent(element, elementsById)
+
+    // Lottie players cannot resolve parent cycles, so their members stay unparented
+    const seen = new Set<string>()
+    for (let ancestor = parent; ancestor && !seen.has(ancestor.id); ancestor = this.getParent(ancestor, elementsById)) {
+      if (ancestor.id === element.id) return undefined
+      seen.add(ancestor.id)
+    }
+
+    return parent
+  }
+
+  private getParent(element: MotionElement, elementsById: Map<string, MotionElement>): MotionElement | undefined {
+    return element.parentId && element.parentId !== element.id
+      ? elementsById.get(element.parentId)
+      : undefined
+  }
+
+  // Null layer anchored at its origin, so children are placed relative to the
+  // parent's position as in the composer
+  private buildParentLayer(
+    context: ExportContext,
+    scene: MotionScene,
+    parent: MotionElement,
+    index: number
+  ): LottieLayer {
+    return {
+      ...this.buildLayerBase(index, 3, `${parent.name} (parent)`, scene.startFrame, scene.endFrame + 1),
+      ks: {
+        ...this.buildTransform(context, parent),
+        a: { a: 0, k: [0, 0] },
+        o: { a: 0, k: 100 },
+      },
+    }
+  }
+
+  // Children only show while every ancestor is active and visible
+  private applyAncestors(
+    context: ExportContext,
+    scene: MotionScene,
+    element: MotionElement,
+    layer: LottieLayer,
+    elementsById: Map<string, MotionElement>
+  ): void {
+    for (
+      let ancestor = this.getExportParent(element, elementsById);
+      ancestor;
+      ancestor = this.getExportParent(ancestor, elementsById)
+    ) {
+      layer['ip'] = Math.max(layer['ip'], ancestor.startFrame)
+      layer['op'] = Math.min(layer['op'], ancestor.endFrame + 1)
+      if (!ancestor.visible) {
+        layer['hd'] = true
+      }
+
+      const opacity = ancestor.properties['opacity'] ?? 1
+      if (opacity !== 1 || this.getAnimations(ancestor, ['opacity']).length > 0) {
+        this.warn(
+          context,
+          { sceneId: scene.id, elementId: element.id },
+          'parenting:opacity',
+          `${element.name} is exported without ${ancestor.name}'s opacity`
+        )
+      }
+    }
+  }
+
+  private buildSceneLayer(context: ExportContext, scene: MotionScene, refId: string, index: number): LottieLayer {
+    const { project } = context
+    const opacity = this.buildSceneOpacity(context, scene)
+
+    return {
+      ddd: 0,
+      ind: index,
+      ty: 0,
+      nm: scene.title,
+      refId,
+      sr: 1,
+      ks: this.buildStaticTransform(project.width, project.height, opacity),
+      ao: 0,
+      w: project.width,
+      h: project.height,
+      ip: scene.startFrame,
+      op: scene.endFrame + 1,
+      st: 0,
+      bm: 0,
+    }
+  }
+
+  private buildSceneOpacity(context: ExportContext, scene: MotionScene): any {
+    const keyframes: LottieKeyframe[] = []
+
+    scene.transitions.forEach(transition => {
+      if (transition.type !== 'fade' || (transition.direction !== 'in' && transition.direction !== 'out')) {
+        this.warn(
+          context,
+          { sceneId: scene.id },
+          `transition:${transition.type}`,
+          `${transition.direction ?? 'undirected'} ${transition.type} transitions cannot be expressed in Lottie`
+        )
+        return
+      }
+
+      const fadeIn = transition.direction === 'in'
+      const start = fadeIn ? scene.startFrame : scene.endFrame - transition.duration
+      keyframes.push(...this.buildTransitionKeyframes(context, scene, transition, start, fadeIn))
+    })
+
+    if (keyframes.length === 0) {
+      return { a: 0, k: 100 }
+    }
+
+    keyframes.sort((a, b) => a.t - b.t)
+    return { a: 1, k: keyframes }
+  }
+
+  private buildTransitionKeyframes(
+    context: ExportContext,
+    scene: MotionScene,
+    transition: SceneTransition,
+    start: number,
+    fadeIn: boolean
+  ): LottieKeyframe[] {
+    const [from, to] = fadeIn ? [0, 100] : [100, 0]
+    const bezier: [number, number, number, number] | undefined = transition.easing === 'ease-in-out'
+      ? [0.42, 0, 0.58, 1]
+      : getBezierPoints(transition.easing, transition.easingOptions)
+    if (!bezier) {
+      this.warn(
+        context,
+        { sceneId: scene.id },
+        `easing:${transition.easing}`,
+        `Transition easing '${transition.easing}' is exported as linear`
+      )
+    }
+    const [x1, y1, x2, y2] = bezier ?? [0, 0, 1, 1]
+
+    return [
+      { t: start, s: [from], o: { x: [x1], y: [y1] }, i: { x: [x2], y: [y2] } },
+      { t: start + transition.duration, s: [to] },
+    ]
+  }
+
+  private buildBackgroundLayer(context: ExportContext, scene: MotionScene, index: number): LottieLayer | null {
+    const { project } = context
+    const background = scene.background
+    const ip = scene.startFrame
+    const op = scene.endFrame + 1
+
+    if (!background) return null
+
+    if (background.animations?.length) {
+      this.warn(
+        context,
+        { sceneId: scene.id },
+        'background:animated',
+        'Animated scene backgrounds are exported at their first keyframe'
+      )
+    }
+
+    if (background.type === 'color' && typeof background.value === 'string') {
+      return this.buildSolidLayer(background.value, project, index, ip, op, 'Scene Background')
+    }
+
+    if (background.type === 'gradient' && typeof background.value === 'object') {
+      const gradient = background.value as GradientBackground
+      return {
+        ...this.buildLayerBase(index, 4, 'Scene Background', ip, op),
+        ks: this.buildStaticTransform(project.width, project.height),
+        shapes: [
+          {
+            ty: 'gr',
+            nm: 'Gradient',
+            it: [
+              {
+                ty: 'rc',
+                p: { a: 0, k: [project.width / 2, project.height / 2] },
+                s: { a: 0, k: [project.width, project.height] },
+                r: { a: 0, k: 0 },
+              },
+              this.buildGradientFill(context, scene, gradient, project.width, project.height),
+              this.buildGroupTransform(),
+            ],
+          },
+        ],
+      }
+    }
+
+    if (background.type === 'image' && typeof background.value === 'object') {
+      const media = background.value as MediaBackground
+      const assetId = this.addImageAsset(context, media.src, project.width, project.height)
+      return {
+        ...this.buildLayerBase(index, 2, 'Scene Background', ip, op),
+        refId: assetId,
+        ks: this.buildStaticTransform(project.width, project.height, { a: 0, k: (media.opacity ?? 1) * 100 }),
+      }
+    }
+
+    this.warn(context, { sceneId: scene.id }, `background:${background.type}`, `${background.type} backgrounds are not exported`)
+    return null
+  }
+
+  private buildGradientFill(
+    context: ExportContext,
+    scene: MotionScene,
+    gradient: GradientBackground,
+    width: number,
+    height: number
+  ): any {
+    const usesPercent = gradient.colors.some(stop => stop.position > 1)
+    const colorStops: number[] = []
+    const alphaStops: number[] = []
+
+    gradient.colors.forEach(stop => {
+      const offset = usesPercent ? stop.position / 100 : stop.position
+      const [r, g, b, a] = this.toLottieColor(context, stop.color, { sceneId: scene.id })
+      colorStops.push(offset, r, g, b)
+      alphaStops.push(offset, a)
+    })
+
+    const hasAlpha = alphaStops.some((value, i) => i % 2 === 1 && value < 1)
+    let start: number[]
+    let end: number[]
+
+    if (gradient.type === 'radial') {
+      const cx = (gradient.center?.x ?? 0.5) * width
+      const cy = (gradient.center?.y ?? 0.5) * height
+      start = [cx, cy]
+      end = [cx + Math.sqrt(width * width + height * height) / 2, cy]
+    } else {
+      // CSS convention: 0deg points up, 90deg points right
+      const angle = ((gradient.angle ?? 180) * Math.PI) / 180
+      const dx = Math.sin(angle)
+      const dy = -Math.cos(angle)
+      const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+      start = [width / 2 - dx * halfLength, height / 2 - dy * halfLength]
+      end = [width / 2 + dx * halfLength, height / 2 + dy * halfLength]
+    }
+
+    return {
+      ty: 'gf',
+      nm: 'Gradient Fill',
+      o: { a: 0, k: 100 },
+      r: 1,
+      t: gradient.type === 'radial' ? 2 : 1,
+      s: { a: 0, k: start },
+      e: { a: 0, k: end },
+      g: {
+        p: gradient.colors.length,
+        k: { a: 0, k: hasAlpha ? [...colorStops, ...alphaStops] : colorStops },
+      },
+    }
+  }
+
+  // Element conversion
+  private buildElementLayer(
+    context: ExportContext,
+    scene: MotionScene,
+    element: MotionElement,
+    index: number
+  ): LottieLayer | null {
+    const ids = { sceneId: scene.id, elementId: element.id }
+    let layer: LottieLayer | null = null
+
+    switch (element.type) {
+      case 'text':
+        layer = this.buildTextLayer(context, element, index)
+        break
+      case 'shape':
+        layer = this.buildShapeLayer(context, element, index)
+        break
+      case 'image':
+        layer = this.buildImageLayer(context, element, index)
+        break
+      case 'logo':
+        layer = element.properties['src']
+          ? this.buildImageLayer(context, element, index)
+          : this.buildTextLayer(context, element, index)
+        break
+      case 'group':
+        layer = {
+          ...this.buildLayerBase(index, 3, element.name, element.startFrame, element.endFrame + 1),
+          ks: this.buildTransform(context, element),
+        }
+        break
+      default:
+        this.warn(context, ids, `element:${element.type}`, `${element.type} elements cannot be exported to Lottie`)
+        return null
+    }
+
+    if (!layer) return null
+
+    if (!element.visible) {
+      layer['hd'] = true
+    }
+
+    this.applyEffects(context, element, layer)
+    this.warnUnsupportedAnimations(context, element)
+
+    return layer
+  }
+
+  private buildLayerBase(index: number, type: number, name: string, ip: number, op: number): LottieLayer {
+    return {
+      ddd: 0,
+      ind: index,
+      ty: type,
+      nm: name,
+      sr: 1,
+      ao: 0,
+      ip,
+      op,
+      st: 0,
+      bm: 0,
+    }
+  }
+
+  private buildTextLayer(context: ExportContext, element: MotionElement, index: number): LottieLayer {
+    const props = element.properties
+    const textOffset = (properties: any): number[] => {
+      const fontSize = properties.fontSize || 24
+      const width = properties.size?.width ?? 0
+      const align = properties.textAlign || 'left'
+      // Lottie text origin is the first baseline at the justification point
+      return [align === 'center' ? width / 2 : align === 'right' ? width : 0, fontSize]
+    }
+
+    const documentAt = (properties: any) => {
+      const fontSize = properties.fontSize || 24
+      const align = properties.textAlign || 'left'
+      const [r, g, b] = this.toLottieColor(context, properties.color || '#ffffff', { elementId: element.id })
+      return {
+        s: fontSize,
+        f: this.registerFont(context, properties.fontFamily, properties.fontWeight),
+        t: String(properties.text ?? properties.content ?? '').replace(/\n/g, '\r'),
+        j: align === 'center' ? 2 : align === 'right' ? 1 : 0,
+        tr: typeof properties.letterSpacing === 'number' ? (properties.letterSpacing / fontSize) * 1000 : 0,
+        lh: (properties.lineHeight || 1.2) * fontSize,
+        ls: 0,
+        fc: [r, g, b],
+      }
+    }
+
+    const documentSources = ['text', 'content', 'color', 'fontSize', 'fontFamily', 'fontWeight', 'textAlign', 'lineHeight', 'letterSpacing']
+    const textKeyframes = this.hasAnimations(element, documentSources)
+      ? this.bakeHoldKeyframes(context, element, documentAt)
+      : [{ s: documentAt(props), t: 0 }]
+
+    return {
+      ...this.buildLayerBase(index, 5, element.name, element.startFrame, element.endFrame + 1),
+      ks: this.buildTransform(context, element, textOffset),
+      t: {
+        d: { k: textKeyframes },
+        p: {},
+        m: { g: 1, a: { a: 0, k: [0, 0] } },
+        a: [],
+      },
+    }
+  }
+
+  private buildShapeLayer(context: ExportContext, element: MotionElement, index: number): LottieLayer {
+    const props = element.properties
+    const ids = { elementId: element.id }
+    const items: any[] = [this.buildShapeGeometry(context, element)]
+
+    items.push({
+      ty: 'fl',
+      nm: 'Fill',
+      c: this.buildProperty(context, element, ['backgroundColor', 'fill'], p =>
+        this.toLottieColor(context, p.backgroundColor || p.fill || '#ffffff', ids)
+      ),
+      o: this.buildProperty(context, element, ['backgroundColor', 'fill'], p =>
+        [(this.toLottieColor(context, p.backgroundColor || p.fill || '#ffffff', ids)[3] ?? 1) * 100]
+      ),
+      r: 1,
+    })
+
+    if (props['strokeColor'] && props['strokeColor'] !== 'none') {
+      items.push({
+        ty: 'st',
+        nm: 'Stroke',
+        c: this.buildProperty(context, element, ['strokeColor'], p => this.toLottieColor(context, p.strokeColor, ids)),
+        o: { a: 0, k: 100 },
+        w: this.buildProperty(context, element, ['strokeWidth'], p => [p.strokeWidth || 0]),
+        lc: 2,
+        lj: 2,
+      })
+    }
+
+    items.push(this.buildGroupTransform())
+
+    return {
+      ...this.buildLayerBase(index, 4, element.name, element.startFrame, element.endFrame + 1),
+      ks: this.buildTransform(context, element),
+      shapes: [{ ty: 'gr', nm: element.name, it: items }],
+    }
+  }
+
+  private buildShapeGeometry(context: ExportContext, element: MotionElement): any {
+    const center = (p: any) => [(p.size?.width ?? 0) / 2, (p.size?.height ?? 0) / 2]
+    const size = (p: any) => [p.size?.width ?? 0, p.size?.height ?? 0]
+
+    switch (element.properties['shapeType']) {
+      case 'circle':
+        return {
+          ty: 'el',
+          p: this.buildProperty(context, element, ['size'], center),
+          s: this.buildProperty(context, element, ['size'], size),
+        }
+      case 'triangle':
+      case 'polygon':
+      case 'star':
+      case 'path':
+        return {
+          ty: 'sh',
+          ks: this.buildPathProperty(context, element),
+        }
+      default:
+        return {
+          ty: 'rc',
+          p: this.buildProperty(context, element, ['size'], center),
+          s: this.buildProperty(context, element, ['size'], size),
+          r: this.buildProperty(context, element, ['borderRadius'], p => [
+            typeof p.borderRadius === 'number' ? p.borderRadius : 0,
+          ]),
+        }
+    }
+  }
+
+  private buildPathProperty(context: ExportContext, element: MotionElement): any {
+    const ids = { elementId: element.id }
+    const shapeAt = (props: any) => this.buildPathShape(context, props, ids)
+
+    if (this.hasAnimations(element, ['size', 'pathData', 'sides', 'starPoints'])) {
+      return { a: 1, k: this.bakeHoldKeyframes(context, element, props => [shapeAt(props)], false) }
+    }
+
+    return { a: 0, k: shapeAt(element.properties) }
+  }
+
+  private buildPathShape(context: ExportContext, props: any, ids: { elementId: string }): any {
+    const width = props.size?.width ?? 0
+    const height = props.size?.height ?? 0
+    const cx = width / 2
+    const cy = height / 2
+
+    if (props.shapeType === 'path') {
+      const contours = parseSvgPath(props.pathData || '')
+      if (contours.length > 1) {
+        this.warn(context, ids, 'path:subpaths', 'Only the first subpath of a path shape is exported')
+      }
+      const contour = contours[0]
+      if (!contour) {
+        return { c: false, v: [], i: [], o: [] }
+      }
+
+      const closedLoop = contour.closed && contour.segments.length > 0
+      const vertices = [contour.start, ...contour.segments.map(segment => segment.to)]
+      if (closedLoop) vertices.pop()
+
+      const inTangents = vertices.map(() => [0, 0])
+      const outTangents = vertices.map(() => [0, 0])
+      contour.segments.forEach((segment, i) => {
+        const fromIndex = i
+        const toIndex = closedLoop && i === contour.segments.length - 1 ? 0 : i + 1
+        outTangents[fromIndex] = [segment.c1.x - segment.from.x, segment.c1.y - segment.from.y]
+        inTangents[toIndex] = [segment.c2.x - segment.to.x, segment.c2.y - segment.to.y]
+      })
+
+      return {
+        c: contour.closed,
+        v: vertices.map(point => [point.x, point.y]),
+        i: inTangents,
+        o: outTangents,
+      }
+    }
+
+    // Same vertex layout as the rasterizer so both outputs match
+    let points: number[][]
+    if (props.shapeType === 'triangle') {
+      points = [[cx, 0], [width, height], [0, height]]
+    } else {
+      const star = props.shapeType === 'star'
+      const count = star ? (props.starPoints || 5) * 2 : props.sides || 6
+      points = []
+      for (let i = 0; i < count; i++) {
+        const angle = (i / count) * Math.PI * 2 - Math.PI / 2
+        const ratio = star && i % 2 === 1 ? 0.5 : 1
+        points.push([cx + Math.cos(angle) * cx * ratio, cy + Math.sin(angle) * cy * ratio])
+      }
+    }
+
+    return {
+      c: true,
+      v: points,
+      i: points.map(() => [0, 0]),
+      o: points.map(() => [0, 0]),
+    }
+  }
+
+  private buildImageLayer(context: ExportContext, element: MotionElement, index: number): LottieLayer | null {
+    const props = element.properties
+    const width = props.size.width
+    const height = props.size.height
+
+    if (!props['src']) {
+      this.warn(context, { elementId: element.id }, 'image:src', 'Image element has no source and was skipped')
+      return null
+    }
+    if (this.hasAnimations(element, ['size'])) {
+      this.warn(context, { elementId: element.id }, 'image:size', 'Animated image size is exported as static')
+    }
+
+    return {
+      ...this.buildLayerBase(index, 2, element.name, element.startFrame, element.endFrame + 1),
+      refId: this.addImageAsset(context, props['src'], width, height),
+      ks: this.buildTransform(context, element),
+    }
+  }
+
+  private buildSolidLayer(
+    color: string,
+    project: MotionProject,
+    index: number,
+    ip: number,
+    op: number,
+    name: string
+  ): LottieLayer {
+    return {
+      ...this.buildLayerBase(index, 1, name, ip, op),
+      ks: this.buildStaticTransform(project.width, project.height),
+      sc: this.toHexColor(color),
+      sw: project.width,
+      sh: project.height,
+    }
+  }
+
+  // Effects and blend modes
+  private applyEffects(context: ExportContext, element: MotionElement, layer: LottieLayer): void {
+    element.effects.forEach(effect => {
+      if (!effect.enabled) return
+
+      // Blend modes are stored as effects by the scene composer
+      if ((effect.type as string) === 'blend') {
+        const mode = effect.parameters['mode'] || 'normal'
+        layer['bm'] = BLEND_MODES[mode] ?? 0
+        return
+      }
+
+      this.warn(
+        context,
+        { elementId: element.id },
+        `effect:${effect.type}`,
+        `The ${effect.type} effect cannot be expressed in Lottie and was skipped`
+      )
+    })
+  }
+
+  // Transforms
+  private buildTransform(
+    context: ExportContext,
+    element: MotionElement,
+    originOffset: (properties: any) => number[] = () => [0, 0]
+  ): any {
+    return {
+      a: this.buildProperty(context, element, ['anchor', 'size', 'fontSize', 'textAlign'], p => {
+        const [offsetX = 0, offsetY = 0] = originOffset(p)
+        return [
+          (p.anchor?.x ?? 0.5) * (p.size?.width ?? 0) - offsetX,
+          (p.anchor?.y ?? 0.5) * (p.size?.height ?? 0) - offsetY,
+        ]
+      }),
+      p: this.buildProperty(context, element, ['position'], p => [p.position?.x ?? 0, p.position?.y ?? 0]),
+      s: this.buildProperty(context, element, ['scale'], p => [(p.scale?.x ?? 1) * 100, (p.scale?.y ?? 1) * 100]),
+      r: this.buildProperty(context, element, ['rotation'], p => [p.rotation?.z ?? 0]),
+      o: this.buildProperty(context, element, ['opacity'], p => [(p.opacity ?? 1) * 100]),
+    }
+  }
+
+  private buildStaticTransform(width: number, height: number, opacity: any = { a: 0, k: 100 }): any {
+    return {
+      a: { a: 0, k: [width / 2, height / 2] },
+      p: { a: 0, k: [width / 2, height / 2] },
+      s: { a: 0, k: [100, 100] },
+      r: { a: 0, k: 0 },
+      o: opacity,
+    }
+  }
+
+  private buildGroupTransform(): any {
+    return {
+      ty: 'tr',
+      p: { a: 0, k: [0, 0] },
+      a: { a: 0, k: [0, 0] },
+      s: { a: 0, k: [100, 100] },
+      r: { a: 0, k: 0 },
+      o: { a: 0, k: 100 },
+    }
+  }
+
+  // Animated properties
+  private buildProperty(context: ExportContext, element: MotionElement, sources: string[], sample: Sampler): any {
+    const animations = this.getAnimations(element, sources)
+    const staticValue = sample(element.properties)
+
+    if (animations.length === 0) {
+      return { a: 0, k: staticValue.length === 1 ? staticValue[0] : staticValue }
+    }
+
+    const exact = animations.length === 1 && animations[0]
+      ? this.buildExactKeyframes(element, animations[0], sample)
+      : null
+    if (exact) {
+      return { a: 1, k: exact }
+    }
+
+    if (animations.length > 1) {
+      this.warn(
+        context,
+        { elementId: element.id },
+        'animation:baked',
+        `Overlapping animations on ${sources.join('/')} were baked to per-frame keyframes`
+      )
+    }
+
+    return { a: 1, k: this.bakeKeyframes(context, element, sample) }
+  }
+
+  private buildExactKeyframes(element: MotionElement, animation: Animation, sample: Sampler): LottieKeyframe[] | null {
+    const keyframes = [...animation.keyframes].sort((a, b) => a.frame - b.frame)
+    if (animation.loop || keyframes.length === 0) return null
+    // Curved motion and auto-orient are sampled from the engine
+    if (this.motionEngine.isSpatialAnimation(animation)) return null
+    if (!keyframes.every(keyframe => this.isNumericValue(keyframe.value))) return null
+
+    const valueAt = (value: any): number[] => {
+      const properties = JSON.parse(JSON.stringify(element.properties))
+      this.setNestedProperty(properties, animation.property, value)
+      return sample(properties)
+    }
+
+    const result: LottieKeyframe[] = []
+    for (let i = 0; i < keyframes.length; i++) {
+      const current = keyframes[i]
+      const next = keyframes[i + 1]
+      if (!current) continue
+
+      const time = current.frame + animation.delay
+      const value = valueAt(current.value)
+
+      if (!next) {
+        result.push({ t: time, s: value })
+        break
+      }
+
+      const easing = next.easing || animation.easing
+      if (easing === 'ease-in-out') {
+        // inOut(ease) is two mirrored bezier halves joined at the midpoint
+        const midTime = (current.frame + next.frame) / 2 + animation.delay
+        const nextValue = valueAt(next.value)
+        const midValue = value.map((v, j) => v + ((nextValue[j] ?? v) - v) / 2)
+        result.push({ t: time, s: value, o: { x: [0.42], y: [0] }, i: { x: [1], y: [1] } })
+        result.push({ t: midTime, s: midValue, o: { x: [0], y: [0] }, i: { x: [0.58], y: [1] } })
+        continue
+      }
+
+      const bezier = getBezierPoints(easing, next)
+      if (!bezier) return null
+
+      const [x1, y1, x2, y2] = bezier
+      result.push({ t: time, s: value, o: { x: [x1], y: [y1] }, i: { x: [x2], y: [y2] } })
+    }
+
+    return result
+  }
+
+  private bakeKeyframes(context: ExportContext, element: MotionElement, sample: Sampler): LottieKeyframe[] {
+    const samples: LottieKeyframe[] = []
+
+    for (let frame = element.startFrame; frame <= element.endFrame; frame++) {
+      const properties = this.motionEngine.calculateElementPropertiesAtFrame(element, frame, context.project)
+      samples.push({
+        t: frame,
+        s: sample(properties),
+        o: { x: [0], y: [0] },
+        i: { x: [1], y: [1] },
+      })
+    }
+
+    // Drop samples that sit inside a run of identical values
+    return samples.filter((keyframe, i) => {
+      const previous = samples[i - 1]
+      const next = samples[i + 1]
+      if (!previous || !next) return true
+      return !(this.sameValue(previous.s, keyframe.s) && this.sameValue(keyframe.s, next.s))
+    })
+  }
+
+  private bakeHoldKeyframes(
+    context: ExportContext,
+    element: MotionElement,
+    sample: (properties: any) => any,
+    wrap: boolean = true
+  ): any[] {
+    const keyframes: any[] = []
+    let previous: string | null = null
+
+    for (let frame = element.startFrame; frame <= element.endFrame; frame++) {
+      const properties = this.motionEngine.calculateElementPropertiesAtFrame(element, frame, context.project)
+      const value = sample(properties)
+      const serialized = JSON.stringify(value)
+      if (serialized === previous) continue
+
+      keyframes.push(wrap ? { s: value, t: frame } : { t: frame, s: value, h: 1 })
+      previous = serialized
+    }
+
+    return keyframes
+  }
+
+  private getAnimations(element: MotionElement, sources: string[]): Animation[] {
+    return element.animations.filter(animation =>
+      sources.some(source =>
+        animation.property === source ||
+        animation.property.startsWith(`${source}.`) ||
+        source.startsWith(`${animation.property}.`) ||
+        // Auto-orient drives rotation from a position animation
+        (source === 'rotation' && animation.motionPath?.autoOrient === true)
+      )
+    )
+  }
+
+  private hasAnimations(element: MotionElement, sources: string[]): boolean {
+    return this.getAnimations(element, sources).length > 0
+  }
+
+  private warnUnsupportedAnimations(context: ExportContext, element: MotionElement): void {
+    const supported = [
+      'position', 'scale', 'rotation', 'opacity', 'anchor', 'size',
+      'backgroundColor', 'fill', 'strokeColor', 'strokeWidth', 'borderRadius', 'pathData', 'sides', 'starPoints',
+      'text', 'content', 'color', 'fontSize', 'fontFamily', 'fontWeight', 'textAlign', 'lineHeight', 'letterSpacing',
+    ]
+
+    element.animations.forEach(animation => {
+      const root = animation.property.split('.')[0] ?? animation.property
+      if (!supported.includes(root) || (root === 'rotation' && /^rotation\.(x|y)$/.test(animation.property))) {
+        this.warn(
+          context,
+          { elementId: element.id },
+          `animation:${animation.property}`,
+          `Animation of '${animation.property}' cannot be expressed in Lottie and was skipped`
+        )
+      }
+    })
+  }
+
+  // Assets
+  private addImageAsset(context: ExportContext, src: string, width: number, height: number): string {
+    const existing = context.assets.find(asset => asset['p'] === src && asset['w'] === width && asset['h'] === height)
+    if (existing) return existing.id
+
+    const id = `image_${context.assets.filter(asset => asset.id.startsWith('image_')).length}`
+    const embedded = src.startsWith('data:')
+    context.assets.push({
+      id,
+      w: width,
+      h: height,
+      u: '',
+      p: src,
+      e: embedded ? 1 : 0,
+    })
+    return id
+  }
+
+  private registerFont(context: ExportContext, fontFamily: string | undefined, fontWeight: any): string {
+    const family = (fontFamily || 'Arial').split(',')[0]?.trim().replace(/^['"]|['"]$/g, '') || 'Arial'
+    const bold = fontWeight === 'bold' || Number(fontWeight) >= 600
+    const style = bold ? 'Bold' : 'Regular'
+    const name = `${family.replace(/\s+/g, '')}-${style}`
+
+    if (!context.fonts.has(name)) {
+      context.fonts.set(name, { fName: name, fFamily: family, fStyle: style, ascent: 75 })
+    }
+    return name
+  }
+
+  // Color helpers
+  private toLottieColor(
+    context: ExportContext,
+    color: string,
+    ids: { sceneId?: string; elementId?: string }
+  ): [number, number, number, number] {
+    const parsed = parseColor(color)
+    if (parsed) {
+      return [parsed.r, parsed.g, parsed.b, parsed.a]
+    }
+
+    this.warn(context, ids, 'color', `Unsupported color '${color}' was exported as white`)
+    return [1, 1, 1, 1]
+  }
+
+  private toHexColor(color: string): string {
+    const parsed = parseColor(color)
+    return parsed ? formatColor({ ...parsed, a: 1 }) : '#000000'
+  }
+
+  // Utility methods
+  private isNumericValue(value: any): boolean {
+    if (typeof value === 'number') return true
+    if (value && typeof value === 'object') {
+      return Object.values(value).every(entry => this.isNumericValue(entry))
+    }
+    return false
+  }
+
+  private sameValue(a: any[], b: any[]): boolean {
+    return a.length === b.length && a.every((value, i) => value === b[i])
+  }
+
+  private setNestedProperty(obj: any, path: string, value: any): void {
+    const keys = path.split('.')
+    let current = obj
+
+    for (let i = 0; i < keys.length - 1; i++) {
+      const key = keys[i] as string
+      if (!(key in current)) {
+        current[key] = {}
+      }
+      current = current[key]
+    }
+
+    current[keys[keys.length - 1] as string] = value
+  }
+
+  private warn(
+    context: ExportContext,
+    ids: { sceneId?: string; elementId?: string },
+    feature: string,
+    message: string
+  ): void {
+    // One warning per feature and target keeps reports readable
+    const duplicate = context.warnings.some(warning =>
+      warning.feature === feature &&
+      warning.elementId === ids.elementId &&
+      warning.sceneId === ids.sceneId
+    )
+    if (duplicate) return
+
+    const warning: LottieExportWarning = { feature, message }
+    if (ids.sceneId) warning.sceneId = ids.sceneId
+    if (ids.elementId) warning.elementId = ids.elementId
+    context.warnings.push(warning)
+  }
+}
+
+// Singleton instance
+let lottieExporterInstance: LottieExporter | null = null
+
+export function getLottieExporter(): LottieExporter {
+  if (!lottieExporterInstance) {
+    lottieExporterInstance = new LottieExporter()
+  }
+  return lottieExporterInstance
+}
+
+// Convenience functions
+export function exportLottie(project: MotionProject): LottieExportResult {
+  return getLottieExporter().exportProject(project)
+}
+
+export default LottieExporter
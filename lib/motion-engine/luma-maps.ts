@@ -0,0 +1,124 @@
+// Grayscale maps that drive luma transitions: the incoming scene shows
+// wherever a pixel's value has fallen below the transition's progress, so
+// dark areas reveal first. Besides images, a set of maps is generated here at
+// any frame size, so they never need to ship as files.
+
+export const BUNDLED_LUMA_MAPS = ['linear', 'radial', 'clock', 'noise', 'blinds'] as const
+
+export type BundledLumaMap = typeof BUNDLED_LUMA_MAPS[number]
+
+export interface LumaMapOptions {
+  angle?: number // degrees; linear and blinds run across it, clock starts there (0 is 12 o'clock)
+  center?: { x: number; y: number } // radial and clock, 0..1 across the frame
+  count?: number // blinds: slats; clock: sweeps
+  scale?: number // noise: feature size in pixels
+  seed?: number // noise
+}
+
+export const DEFAULT_NOISE_SCALE = 64
+const NOISE_OCTAVES = 4
+
+export function isBundledLumaMap(source: string): source is BundledLumaMap {
+  return (BUNDLED_LUMA_MAPS as readonly string[]).includes(source)
+}
+
+// One value in 0..1 per pixel, row by row
+export function generateLumaMap(
+  name: BundledLumaMap,
+  width: number,
+  height: number,
+  options: LumaMapOptions = {}
+): Float32Array {
+  const map = new Float32Array(width * height)
+  const angle = ((options.angle ?? 0) * Math.PI) / 180
+  const center = { x: (options.center?.x ?? 0.5) * width, y: (options.center?.y ?? 0.5) * height }
+  const count = Math.max(1, Math.round(options.count ?? (name === 'blinds' ? 8 : 1)))
+
+  const corners = [[0, 0], [width, 0], [0, height], [width, height]] as const
+  const along = (x: number, y: number) => x * Math.cos(angle) + y * Math.sin(angle)
+  const projections = corners.map(([x, y]) => along(x, y))
+  const low = Math.min(...projections)
+  const span = Math.max(...projections) - low || 1
+  const reach = Math.max(...corners.map(([x, y]) => Math.hypot(x - center.x, y - center.y))) || 1
+
+  const scale = Math.max(1, options.scale ?? DEFAULT_NOISE_SCALE)
+  const seed = options.seed ?? 0
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5
+      const py = y + 0.5
+      let value: number
+
+      switch (name) {
+        case 'radial':
+          value = Math.hypot(px - center.x, py - center.y) / reach
+          break
+        case 'clock': {
+          // Clockwise from the start angle, repeated count times around the dial
+          const turn = (Math.atan2(px - center.x, center.y - py) - angle) / (2 * Math.PI)
+          value = fract(fract(turn) * count)
+          break
+        }
+        case 'noise':
+          value = fractalNoise(px / scale, py / scale, seed)
+          break
+        case 'blinds':
+          value = fract(((along(px, py) - low) / span) * count)
+          break
+        default:
+          value = (along(px, py) - low) / span
+      }
+
+      map[y * width + x] = Math.min(1, Math.max(0, value))
+    }
+  }
+
+  return map
+}
+
+function fract(value: number): number {
+  return value - Math.floor(value)
+}
+
+// Smoothed value noise, summed over octaves and normalized to 0..1
+export function fractalNoise(x: number, y: number, seed: number): number {
+  let total = 0
+  let amplitude = 1
+  let frequency = 1
+  let range = 0
+
+  for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+    total += valueNoise(x * frequency, y * frequency, seed + octave) * amplitude
+    range += amplitude
+    amplitude /= 2
+    frequency *= 2
+  }
+
+  return total / range
+}
+
+function valueNoise(x: number, y: number, seed: number): number {
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const fx = smooth(x - x0)
+  const fy = smooth(y - y0)
+
+  const top = lerp(lattice(x0, y0, seed), lattice(x0 + 1, y0, seed), fx)
+  const bottom = lerp(lattice(x0, y0 + 1, seed), lattice(x0 + 1, y0 + 1, seed), fx)
+  return lerp(top, bottom, fy)
+}
+
+function lattice(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 1442695041)
+  h = Math.imul(h ^ (h >>> 13), 1274126177)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967295
+}
+
+function smooth(t: number): number {
+  return t * t * (3 - 2 * t)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
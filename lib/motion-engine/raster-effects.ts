@@ -0,0 +1,644 @@
+import type { FrameBuffer } from './rasterizer'
+import { parseColor, mixColors, RGBA } from './color'
+import { fractalNoise } from './luma-maps'
+
+// Pixel implementations of the EffectLibrary effects, run by the rasterizer
+// on each layer's buffer. Lengths in parameters are project pixels and are
+// scaled to the output, and every random value is seeded from the element and
+// frame, so a half-size preview shows the same result as the final render.
+// Work is done in premultiplied alpha, so transparent pixels never bleed a
+// dark fringe into blurs and resampling.
+
+export interface RasterEffectContext {
+  frame: number
+  scale: number // output pixels per project pixel
+  seed: string // stable per element: layers get different grain, renders the same
+}
+
+export type RasterEffect = (
+  buffer: FrameBuffer,
+  params: Record<string, any>,
+  context: RasterEffectContext
+) => FrameBuffer
+
+// Below this a blur would move no pixel by a visible amount
+const MIN_SIGMA = 0.3
+
+// Effects
+
+export const blurEffect: RasterEffect = (buffer, params, context) => {
+  const amount = (params['amount'] ?? 0) * context.scale
+  if (amount <= 0) return buffer
+
+  const data = premultiply(buffer)
+  const result = params['directional']
+    ? directionalBlur(data, buffer.width, buffer.height, amount, params['angle'] ?? 0, getBounds(buffer, Math.ceil(amount / 2) + 1))
+    : blurChannels(data, buffer.width, buffer.height, 4, amount / 2)
+  return unpremultiply(result, buffer.width, buffer.height)
+}
+
+export const glowEffect: RasterEffect = (buffer, params, context) => {
+  const color = parseColor(params['color'] ?? '#ffffff') ?? { r: 1, g: 1, b: 1, a: 1 }
+  const intensity = params['intensity'] ?? 1
+  // Harder glows hold their strength further out before falling off
+  const gain = intensity * (1 + 2 * (1 - (params['softness'] ?? 0.5)))
+  const alpha = blurChannels(getAlpha(buffer), buffer.width, buffer.height, 1, ((params['size'] ?? 10) * context.scale) / 2)
+
+  const glow = new Float32Array(buffer.width * buffer.height * 4)
+  for (let i = 0; i < alpha.length; i++) {
+    fillPremultiplied(glow, i * 4, color, clamp((alpha[i] ?? 0) * gain))
+  }
+  return unpremultiply(over(premultiply(buffer), glow), buffer.width, buffer.height)
+}
+
+export const shadowEffect: RasterEffect = (buffer, params, context) => {
+  const { width, height } = buffer
+  const color = parseColor(params['color'] ?? '#000000') ?? { r: 0, g: 0, b: 0, a: 1 }
+  const opacity = params['opacity'] ?? 0.5
+  const offsetX = (params['offsetX'] ?? 0) * context.scale
+  const offsetY = (params['offsetY'] ?? 0) * context.scale
+  const alpha = blurChannels(getAlpha(buffer), width, height, 1, ((params['blur'] ?? 0) * context.scale) / 2)
+
+  const shadow = new Float32Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const coverage = sampleChannel(alpha, width, height, 1, 0, x - offsetX, y - offsetY)
+      fillPremultiplied(shadow, (y * width + x) * 4, color, coverage * opacity)
+    }
+  }
+  return unpremultiply(over(premultiply(buffer), shadow), width, height)
+}
+
+// Strokes outside the layer's edge by distance from its opaque pixels. Dashes
+// and dots are spaced by angle around the layer so they close up evenly.
+export const outlineEffect: RasterEffect = (buffer, params, context) => {
+  const { width, height } = buffer
+  const strokeWidth = (params['width'] ?? 0) * context.scale
+  if (strokeWidth <= 0) return buffer
+
+  const color = parseColor(params['color'] ?? '#ffffff') ?? { r: 1, g: 1, b: 1, a: 1 }
+  const alpha = getAlpha(buffer)
+  const distance = distanceTransform(alpha, width, height, 0.5)
+
+  // Centre and rough radius of the layer, for dash spacing
+  let area = 0
+  let sumX = 0
+  let sumY = 0
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i] ?? 0
+    area += a
+    sumX += (i % width) * a
+    sumY += Math.floor(i / width) * a
+  }
+  if (area <= 0) return buffer
+  const centerX = sumX / area
+  const centerY = sumY / area
+  const circumference = 2 * Math.PI * (Math.sqrt(area / Math.PI) + strokeWidth)
+
+  const style = params['style'] ?? 'solid'
+  const period = style === 'dotted' ? strokeWidth * 2 : strokeWidth * 6
+  const duty = style === 'dotted' ? 0.5 : 0.65
+  const repeats = Math.max(1, Math.round(circumference / period))
+
+  const outline = new Float32Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      let coverage = clamp(strokeWidth + 0.5 - (distance[i] ?? Infinity))
+      if (coverage > 0 && style !== 'solid') {
+        const turn = (Math.atan2(y - centerY, x - centerX) / (2 * Math.PI) + 1) * repeats
+        if (turn - Math.floor(turn) >= duty) coverage = 0
+      }
+      fillPremultiplied(outline, i * 4, color, coverage)
+    }
+  }
+  return unpremultiply(over(premultiply(buffer), outline), width, height)
+}
+
+// Tints the layer with a CSS-style gradient across its visible bounds
+export const gradientEffect: RasterEffect = (buffer, params) => {
+  const { width, data } = buffer
+  const bounds = getBounds(buffer, 0)
+  if (!bounds) return buffer
+
+  const start = parseColor(params['color1'] ?? '#ff0000')
+  const end = parseColor(params['color2'] ?? '#0000ff')
+  if (!start || !end) return buffer
+
+  // CSS gradients blend in sRGB; 256 steps is finer than 8-bit output
+  const ramp = Array.from({ length: 256 }, (_, index) => mixColors(start, end, index / 255, 'srgb'))
+  const opacity = params['opacity'] ?? 0.5
+  const boxWidth = bounds.right - bounds.left
+  const boxHeight = bounds.bottom - bounds.top
+  const centerX = bounds.left + boxWidth / 2
+  const centerY = bounds.top + boxHeight / 2
+
+  // CSS angles: 0deg points up, 90deg to the right
+  const angle = ((params['angle'] ?? 45) * Math.PI) / 180
+  const directionX = Math.sin(angle)
+  const directionY = -Math.cos(angle)
+  const lineLength = Math.abs(boxWidth * directionX) + Math.abs(boxHeight * directionY) || 1
+  const radius = Math.hypot(boxWidth, boxHeight) / 2 || 1
+
+  const result = copyBuffer(buffer)
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      const index = (y * width + x) * 4
+      if ((data[index + 3] ?? 0) === 0) continue
+
+      const dx = x + 0.5 - centerX
+      const dy = y + 0.5 - centerY
+      const t = params['type'] === 'radial'
+        ? Math.hypot(dx, dy) / radius
+        : (dx * directionX + dy * directionY) / lineLength + 0.5
+      const color = ramp[Math.round(clamp(t) * 255)]!
+      const amount = opacity * color.a
+
+      result.data[index] = (data[index] ?? 0) * (1 - amount) + color.r * 255 * amount
+      result.data[index + 1] = (data[index + 1] ?? 0) * (1 - amount) + color.g * 255 * amount
+      result.data[index + 2] = (data[index + 2] ?? 0) * (1 - amount) + color.b * 255 * amount
+    }
+  }
+  return result
+}
+
+// Monochrome grain in cells of scale project pixels
+export const noiseEffect: RasterEffect = (buffer, params, context) => {
+  const amount = params['amount'] ?? 0
+  if (amount <= 0) return buffer
+
+  const { width, height, data } = buffer
+  const cell = Math.max(0.1, params['scale'] ?? 1) * context.scale
+  const seed = getSeed(context, params['animated'] === true)
+
+  const result = copyBuffer(buffer)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4
+      if ((data[index + 3] ?? 0) === 0) continue
+
+      const grain = (hash2d(Math.floor((x + 0.5) / cell), Math.floor((y + 0.5) / cell), seed) - 0.5) * 2 * amount * 255
+      result.data[index] = (data[index] ?? 0) + grain
+      result.data[index + 1] = (data[index + 1] ?? 0) + grain
+      result.data[index + 2] = (data[index + 2] ?? 0) + grain
+    }
+  }
+  return result
+}
+
+// Moves pixels by a smooth noise field, a wave across the angle or ripples
+// around the layer's centre
+export const displacementEffect: RasterEffect = (buffer, params, context) => {
+  const amount = params['amount'] ?? 0
+  const bounds = getBounds(buffer, Math.ceil(Math.abs(amount) * context.scale) + 1)
+  if (amount === 0 || !bounds) return buffer
+
+  const { width, height } = buffer
+  const scale = context.scale
+  const featureSize = Math.max(1, params['scale'] ?? 40)
+  const pattern = params['pattern'] ?? 'noise'
+  const animated = params['animated'] === true
+  const phase = animated ? context.frame * 0.1 * (params['speed'] ?? 1) : 0
+  const seed = getSeed(context, false)
+  const angle = ((params['angle'] ?? 0) * Math.PI) / 180
+  const centerX = (bounds.left + bounds.right) / 2 / scale
+  const centerY = (bounds.top + bounds.bottom) / 2 / scale
+
+  const source = premultiply(buffer)
+  const result = new Float32Array(source.length)
+  const sample = new Float32Array(4)
+
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      // Offsets are worked out in project pixels
+      const px = (x + 0.5) / scale
+      const py = (y + 0.5) / scale
+      let dx = 0
+      let dy = 0
+
+      if (pattern === 'wave') {
+        const along = px * Math.cos(angle) + py * Math.sin(angle)
+        const offset = amount * Math.sin((2 * Math.PI * along) / featureSize + phase)
+        dx = -Math.sin(angle) * offset
+        dy = Math.cos(angle) * offset
+      } else if (pattern === 'ripple') {
+        const distance = Math.hypot(px - centerX, py - centerY)
+        if (distance > 0) {
+          const offset = amount * Math.sin((2 * Math.PI * distance) / featureSize - phase)
+          dx = ((px - centerX) / distance) * offset
+          dy = ((py - centerY) / distance) * offset
+        }
+      } else {
+        dx = (fractalNoise(px / featureSize + phase, py / featureSize, seed) - 0.5) * 2 * amount
+        dy = (fractalNoise(px / featureSize, py / featureSize + phase, seed + 1) - 0.5) * 2 * amount
+      }
+
+      samplePremultiplied(source, width, height, x + dx * scale, y + dy * scale, sample)
+      result.set(sample, (y * width + x) * 4)
+    }
+  }
+  return unpremultiply(result, width, height)
+}
+
+// Same order and formulas as the CSS brightness(), contrast(), saturate() and
+// hue-rotate() filters
+export const colorCorrectionEffect: RasterEffect = (buffer, params) => {
+  const brightness = params['brightness'] ?? 1
+  const contrast = params['contrast'] ?? 1
+  const saturation = params['saturation'] ?? 1
+  const hue = ((params['hue'] ?? 0) * Math.PI) / 180
+
+  const s = saturation
+  const saturate = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ]
+  const cos = Math.cos(hue)
+  const sin = Math.sin(hue)
+  const rotate = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ]
+  const applyMatrix = (m: number[], r: number, g: number, b: number): [number, number, number] => [
+    clamp(m[0]! * r + m[1]! * g + m[2]! * b),
+    clamp(m[3]! * r + m[4]! * g + m[5]! * b),
+    clamp(m[6]! * r + m[7]! * g + m[8]! * b),
+  ]
+
+  const { data } = buffer
+  const result = copyBuffer(buffer)
+  for (let i = 0; i < data.length; i += 4) {
+    if ((data[i + 3] ?? 0) === 0) continue
+
+    let rgb = [0, 1, 2].map(channel => {
+      const value = clamp(((data[i + channel] ?? 0) / 255) * brightness)
+      return clamp((value - 0.5) * contrast + 0.5)
+    }) as [number, number, number]
+    rgb = applyMatrix(saturate, ...rgb)
+    rgb = applyMatrix(rotate, ...rgb)
+
+    result.data[i] = rgb[0] * 255
+    result.data[i + 1] = rgb[1] * 255
+    result.data[i + 2] = rgb[2] * 255
+  }
+  return result
+}
+
+// Red and blue drift apart along the angle while green stays put
+export const chromaticAberrationEffect: RasterEffect = (buffer, params, context) => {
+  const amount = (params['amount'] ?? 0) * context.scale
+  if (amount <= 0) return buffer
+
+  const { width, height } = buffer
+  const angle = ((params['angle'] ?? 0) * Math.PI) / 180
+  const dx = Math.cos(angle) * amount
+  const dy = Math.sin(angle) * amount
+  const source = premultiply(buffer)
+  const result = new Float32Array(source.length)
+  const red = new Float32Array(4)
+  const green = new Float32Array(4)
+  const blue = new Float32Array(4)
+
+  const bounds = getBounds(buffer, Math.ceil(amount) + 1)
+  if (!bounds) return buffer
+
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      samplePremultiplied(source, width, height, x - dx, y - dy, red)
+      samplePremultiplied(source, width, height, x, y, green)
+      samplePremultiplied(source, width, height, x + dx, y + dy, blue)
+
+      const index = (y * width + x) * 4
+      result[index] = red[0]!
+      result[index + 1] = green[1]!
+      result[index + 2] = blue[2]!
+      result[index + 3] = Math.max(red[3]!, green[3]!, blue[3]!)
+    }
+  }
+  return unpremultiply(result, width, height)
+}
+
+// Blurs
+
+// Gaussian blur approximated by three box blurs, which costs the same at any
+// radius. Pixels beyond the edge count as transparent.
+export function blurChannels(
+  data: Float32Array,
+  width: number,
+  height: number,
+  channels: number,
+  sigma: number
+): Float32Array {
+  if (sigma < MIN_SIGMA) return data
+
+  const current = Float32Array.from(data)
+  const scratch = new Float32Array(data.length)
+  for (const size of getBoxSizes(sigma, 3)) {
+    const radius = (size - 1) / 2
+    boxPass(current, scratch, width, height, channels, radius, true)
+    boxPass(scratch, current, width, height, channels, radius, false)
+  }
+  return current
+}
+
+function getBoxSizes(sigma: number, count: number): number[] {
+  const ideal = Math.sqrt((12 * sigma * sigma) / count + 1)
+  let lower = Math.floor(ideal)
+  if (lower % 2 === 0) lower--
+  const upper = lower + 2
+  const lowerCount = Math.round(
+    (12 * sigma * sigma - count * lower * lower - 4 * count * lower - 3 * count) / (-4 * lower - 4)
+  )
+  return Array.from({ length: count }, (_, index) => (index < lowerCount ? lower : upper))
+}
+
+function boxPass(
+  source: Float32Array,
+  target: Float32Array,
+  width: number,
+  height: number,
+  channels: number,
+  radius: number,
+  horizontal: boolean
+): void {
+  const length = horizontal ? width : height
+  const lines = horizontal ? height : width
+  const stride = (horizontal ? 1 : width) * channels
+  const norm = 1 / (2 * radius + 1)
+
+  for (let line = 0; line < lines; line++) {
+    const base = (horizontal ? line * width : line) * channels
+    for (let channel = 0; channel < channels; channel++) {
+      let sum = 0
+      for (let i = 0; i < radius && i < length; i++) {
+        sum += source[base + i * stride + channel] ?? 0
+      }
+      for (let i = 0; i < length; i++) {
+        if (i + radius < length) sum += source[base + (i + radius) * stride + channel] ?? 0
+        if (i - radius - 1 >= 0) sum -= source[base + (i - radius - 1) * stride + channel] ?? 0
+        target[base + i * stride + channel] = sum * norm
+      }
+    }
+  }
+}
+
+// Averages samples along a line of the given length through each pixel
+function directionalBlur(
+  data: Float32Array,
+  width: number,
+  height: number,
+  length: number,
+  angle: number,
+  bounds: Bounds | null
+): Float32Array {
+  const radians = (angle * Math.PI) / 180
+  const stepX = Math.cos(radians)
+  const stepY = Math.sin(radians)
+  const samples = Math.max(2, Math.ceil(length) + 1)
+  const result = new Float32Array(data.length)
+  const sample = new Float32Array(4)
+
+  if (!bounds) return result
+
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      const index = (y * width + x) * 4
+      for (let i = 0; i < samples; i++) {
+        const offset = (i / (samples - 1) - 0.5) * length
+        samplePremultiplied(data, width, height, x + stepX * offset, y + stepY * offset, sample)
+        for (let channel = 0; channel < 4; channel++) {
+          result[index + channel]! += sample[channel]! / samples
+        }
+      }
+    }
+  }
+  return result
+}
+
+// Euclidean distance from each pixel to the nearest pixel whose alpha reaches
+// threshold (Felzenszwalb and Huttenlocher, one axis at a time)
+export function distanceTransform(alpha: Float32Array, width: number, height: number, threshold: number): Float32Array {
+  const squared = new Float32Array(width * height)
+  for (let i = 0; i < squared.length; i++) {
+    squared[i] = (alpha[i] ?? 0) >= threshold ? 0 : 1e20
+  }
+
+  const size = Math.max(width, height)
+  const line = new Float32Array(size)
+  const output = new Float32Array(size)
+  const parabolas = new Int32Array(size)
+  const bounds = new Float32Array(size + 1)
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) line[y] = squared[y * width + x]!
+    distance1d(line, height, output, parabolas, bounds)
+    for (let y = 0; y < height; y++) squared[y * width + x] = output[y]!
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) line[x] = squared[y * width + x]!
+    distance1d(line, width, output, parabolas, bounds)
+    for (let x = 0; x < width; x++) squared[y * width + x] = output[x]!
+  }
+
+  return squared.map(Math.sqrt)
+}
+
+function distance1d(
+  values: Float32Array,
+  length: number,
+  output: Float32Array,
+  parabolas: Int32Array,
+  bounds: Float32Array
+): void {
+  let k = 0
+  parabolas[0] = 0
+  bounds[0] = -Infinity
+  bounds[1] = Infinity
+
+  for (let q = 1; q < length; q++) {
+    let s: number
+    do {
+      const p = parabolas[k]!
+      s = ((values[q]! + q * q) - (values[p]! + p * p)) / (2 * q - 2 * p)
+    } while (s <= bounds[k]! && --k >= 0)
+    k++
+    parabolas[k] = q
+    bounds[k] = s
+    bounds[k + 1] = Infinity
+  }
+
+  k = 0
+  for (let q = 0; q < length; q++) {
+    while (bounds[k + 1]! < q) k++
+    const p = parabolas[k]!
+    output[q] = (q - p) * (q - p) + values[p]!
+  }
+}
+
+// Buffer helpers
+
+function premultiply(buffer: FrameBuffer): Float32Array {
+  const { data } = buffer
+  const result = new Float32Array(data.length)
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = (data[i + 3] ?? 0) / 255
+    result[i] = ((data[i] ?? 0) / 255) * alpha
+    result[i + 1] = ((data[i + 1] ?? 0) / 255) * alpha
+    result[i + 2] = ((data[i + 2] ?? 0) / 255) * alpha
+    result[i + 3] = alpha
+  }
+  return result
+}
+
+function unpremultiply(data: Float32Array, width: number, height: number): FrameBuffer {
+  const result = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < result.length; i += 4) {
+    const alpha = data[i + 3] ?? 0
+    if (alpha <= 1e-6) continue
+    result[i] = clamp((data[i] ?? 0) / alpha) * 255
+    result[i + 1] = clamp((data[i + 1] ?? 0) / alpha) * 255
+    result[i + 2] = clamp((data[i + 2] ?? 0) / alpha) * 255
+    result[i + 3] = clamp(alpha) * 255
+  }
+  return { width, height, data: result }
+}
+
+// Source-over in premultiplied alpha; writes into and returns backdrop
+function over(source: Float32Array, backdrop: Float32Array): Float32Array {
+  for (let i = 0; i < backdrop.length; i += 4) {
+    const remaining = 1 - (source[i + 3] ?? 0)
+    for (let channel = 0; channel < 4; channel++) {
+      backdrop[i + channel] = (source[i + channel] ?? 0) + (backdrop[i + channel] ?? 0) * remaining
+    }
+  }
+  return backdrop
+}
+
+function fillPremultiplied(target: Float32Array, offset: number, color: RGBA, coverage: number): void {
+  const alpha = clamp(coverage * color.a)
+  target[offset] = color.r * alpha
+  target[offset + 1] = color.g * alpha
+  target[offset + 2] = color.b * alpha
+  target[offset + 3] = alpha
+}
+
+function getAlpha(buffer: FrameBuffer): Float32Array {
+  const alpha = new Float32Array(buffer.width * buffer.height)
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = (buffer.data[i * 4 + 3] ?? 0) / 255
+  }
+  return alpha
+}
+
+function copyBuffer(buffer: FrameBuffer): FrameBuffer {
+  return { width: buffer.width, height: buffer.height, data: new Uint8ClampedArray(buffer.data) }
+}
+
+// Bilinear, with pixel centres at whole coordinates and transparency outside
+function samplePremultiplied(
+  data: Float32Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  out: Float32Array
+): void {
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const fx = x - x0
+  const fy = y - y0
+  out.fill(0)
+
+  for (let j = 0; j < 2; j++) {
+    const py = y0 + j
+    if (py < 0 || py >= height) continue
+    for (let i = 0; i < 2; i++) {
+      const px = x0 + i
+      if (px < 0 || px >= width) continue
+
+      const weight = (i ? fx : 1 - fx) * (j ? fy : 1 - fy)
+      if (weight === 0) continue
+      const index = (py * width + px) * 4
+      out[0]! += data[index]! * weight
+      out[1]! += data[index + 1]! * weight
+      out[2]! += data[index + 2]! * weight
+      out[3]! += data[index + 3]! * weight
+    }
+  }
+}
+
+function sampleChannel(
+  data: Float32Array,
+  width: number,
+  height: number,
+  channels: number,
+  channel: number,
+  x: number,
+  y: number
+): number {
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const fx = x - x0
+  const fy = y - y0
+  const at = (px: number, py: number) =>
+    px < 0 || py < 0 || px >= width || py >= height ? 0 : data[(py * width + px) * channels + channel] ?? 0
+
+  return (at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx) * (1 - fy) +
+    (at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx) * fy
+}
+
+// Box around the visible pixels, grown by margin and kept inside the buffer
+interface Bounds {
+  left: number
+  top: number
+  right: number // exclusive
+  bottom: number // exclusive
+}
+
+function getBounds(buffer: FrameBuffer, margin: number): Bounds | null {
+  const { width, height, data } = buffer
+  let left = width
+  let top = height
+  let right = -1
+  let bottom = -1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((data[(y * width + x) * 4 + 3] ?? 0) === 0) continue
+      if (x < left) left = x
+      if (x > right) right = x
+      if (y < top) top = y
+      if (y > bottom) bottom = y
+    }
+  }
+  if (right < 0) return null
+
+  return {
+    left: Math.max(0, left - margin),
+    top: Math.max(0, top - margin),
+    right: Math.min(width, right + 1 + margin),
+    bottom: Math.min(height, bottom + 1 + margin),
+  }
+}
+
+// Seeds
+
+function getSeed(context: RasterEffectContext, animated: boolean): number {
+  let hash = 2166136261
+  for (let i = 0; i < context.seed.length; i++) {
+    hash = Math.imul(hash ^ context.seed.charCodeAt(i), 16777619)
+  }
+  return animated ? (hash ^ Math.imul(context.frame + 1, 2654435761)) | 0 : hash | 0
+}
+
+function hash2d(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 1442695041)
+  h = Math.imul(h ^ (h >>> 13), 1274126177)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967295
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
@@ -0,0 +1,959 @@
+import sharp from 'sharp'
+import { promises as fs } from 'fs'
+import { SceneBackground, GradientBackground, MediaBackground } from './core'
+import {
+  SceneComposition,
+  CompositionLayer,
+  BlendMode,
+  MaskSettings,
+  FrameComposition,
+  CrossSceneComposition,
+  SceneState,
+  TransitionMask,
+  PixelTransition,
+  isCrossSceneComposition,
+} from './scene-composer'
+import { TransitionPixelInput } from './transitions'
+import { getEffectLibrary } from './effects'
+import { RGBA } from './color'
+import { generateLumaMap, isBundledLumaMap, DEFAULT_NOISE_SCALE } from './luma-maps'
+import { resolveAssetSource } from './assets'
+
+// Server-side frame rasterization. Layers are described as SVG and rasterized
+// by sharp (librsvg, CPU only), then composited into RGBA buffers here so blend
+// modes, masks and opacity behave the same regardless of the layer source.
+
+export interface FrameBuffer {
+  width: number
+  height: number
+  data: Uint8ClampedArray // RGBA, straight (non-premultiplied) alpha
+}
+
+export interface RasterizeOptions {
+  width: number // composition width in project units
+  height: number
+  backgroundColor?: string
+  scale?: number // output scale, e.g. 0.5 for previews
+  transparent?: boolean // skip scene and project backgrounds for alpha output
+}
+
+// How a frame is fitted into an output of a different aspect ratio. 'bars'
+// letterboxes or pillarboxes with a solid color; 'blur' fills the gaps with a
+// blurred, enlarged copy of the frame.
+export interface FramePadding {
+  mode: 'bars' | 'blur'
+  color?: string // '#rrggbb' or '#rrggbbaa' bar color; defaults to black
+}
+
+type BlendFunction = (backdrop: number, source: number) => number
+
+const BLEND_FUNCTIONS: Record<BlendMode, BlendFunction> = {
+  normal: (_b, s) => s,
+  multiply: (b, s) => b * s,
+  screen: (b, s) => b + s - b * s,
+  overlay: (b, s) => hardLight(s, b),
+  'soft-light': (b, s) => softLight(b, s),
+  'hard-light': (b, s) => hardLight(b, s),
+  'color-dodge': (b, s) => (b === 0 ? 0 : s >= 1 ? 1 : Math.min(1, b / (1 - s))),
+  'color-burn': (b, s) => (b >= 1 ? 1 : s <= 0 ? 0 : 1 - Math.min(1, (1 - b) / s)),
+  darken: (b, s) => Math.min(b, s),
+  lighten: (b, s) => Math.max(b, s),
+  difference: (b, s) => Math.abs(b - s),
+  exclusion: (b, s) => b + s - 2 * b * s,
+}
+
+// Stable per-cell noise in 0..1
+function hashNoise(x: number, y: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263)
+  h = Math.imul(h ^ (h >>> 13), 1274126177)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967295
+}
+
+function hardLight(b: number, s: number): number {
+  return s <= 0.5 ? b * 2 * s : BLEND_FUNCTIONS.screen(b, 2 * s - 1)
+}
+
+function softLight(b: number, s: number): number {
+  if (s <= 0.5) {
+    return b - (1 - 2 * s) * b * (1 - b)
+  }
+  const d = b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b)
+  return b + (2 * s - 1) * (d - b)
+}
+
+export class FrameRasterizer {
+  private assetCache = new Map<string, string>()
+  private maxAssetCacheSize = 50
+  private pixelFailures = new Set<string>() // pixel transitions that threw, warned about once
+  private lumaMapCache = new Map<string, Float32Array>()
+  private maxLumaMapCacheSize = 20
+
+  // Main rasterization method
+  async rasterize(composition: SceneComposition, options: RasterizeOptions): Promise<FrameBuffer> {
+    const background = options.transparent ? undefined : composition.background
+    const frame = await this.renderBackground(background, options)
+
+    let previousLayer: FrameBuffer | null = null
+    for (const layer of composition.layers) {
+      if (!layer.visible) continue
+
+      const layerBuffer = await this.renderLayer(layer, options, composition.frame)
+      if (!layerBuffer) continue
+
+      const mask = layer.mask
+        ? await this.renderMask(layer, layer.mask, previousLayer, options)
+        : null
+
+      this.compositeLayer(
+        frame,
+        layerBuffer,
+        layer.blendMode,
+        this.clamp(layer.computedProperties.opacity ?? 1, 0, 1),
+        mask
+      )
+      previousLayer = layerBuffer
+    }
+
+    return frame
+  }
+
+  async rasterizeFrame(composition: FrameComposition, options: RasterizeOptions): Promise<FrameBuffer> {
+    return isCrossSceneComposition(composition)
+      ? this.rasterizeCrossScene(composition, options)
+      : this.rasterize(composition, options)
+  }
+
+  // Cross-scene transitions: both scenes are rendered in full, then placed,
+  // masked and blended over the project background as the effect describes
+  private async rasterizeCrossScene(composition: CrossSceneComposition, options: RasterizeOptions): Promise<FrameBuffer> {
+    const from = await this.rasterize(composition.from, options)
+    const to = await this.rasterize(composition.to, options)
+    const frame = await this.rasterizeBlank(options)
+
+    if (composition.pixel) {
+      try {
+        const mixed = this.runPixelTransition(
+          composition.pixel,
+          this.placeScene(from, composition.fromState, options),
+          this.placeScene(to, composition.toState, options)
+        )
+        this.compositeLayer(frame, mixed, 'normal', 1, null)
+        return frame
+      } catch (error) {
+        // Fall back to the property-level result, once per plugin
+        if (!this.pixelFailures.has(composition.pixel.type)) {
+          this.pixelFailures.add(composition.pixel.type)
+          console.warn(`Pixel transition ${composition.pixel.type} failed:`, error)
+        }
+      }
+    }
+
+    const lower = composition.fromOnTop
+      ? { buffer: to, state: composition.toState }
+      : { buffer: from, state: composition.fromState }
+    const upper = composition.fromOnTop
+      ? { buffer: from, state: composition.fromState }
+      : { buffer: to, state: composition.toState }
+
+    for (const [scene, blendMode] of [[lower, 'normal'], [upper, composition.blendMode]] as const) {
+      const opacity = this.clamp(scene.state.opacity ?? 1, 0, 1)
+      if (opacity <= 0) continue
+
+      this.compositeLayer(
+        frame,
+        this.placeScene(scene.buffer, scene.state, options),
+        blendMode,
+        opacity,
+        this.getTransitionCoverage(
+          scene.state,
+          frame.width,
+          frame.height,
+          options,
+          scene.state.mask?.type === 'luma' ? await this.getLumaMap(scene.state.mask, frame.width, frame.height, options) : null
+        )
+      )
+    }
+
+    return frame
+  }
+
+  // Runs a plugin's pixel function over both placed scenes. Colors go in and
+  // come out as 0..1 with straight alpha.
+  private runPixelTransition(
+    transition: PixelTransition,
+    from: FrameBuffer,
+    to: FrameBuffer
+  ): FrameBuffer {
+    const { width, height } = from
+    const result = this.createBuffer(width, height)
+
+    const read = (buffer: FrameBuffer, x: number, y: number): RGBA => {
+      const px = this.clamp(Math.floor(x * width), 0, width - 1)
+      const py = this.clamp(Math.floor(y * height), 0, height - 1)
+      const index = (py * width + px) * 4
+      return {
+        r: (buffer.data[index] ?? 0) / 255,
+        g: (buffer.data[index + 1] ?? 0) / 255,
+        b: (buffer.data[index + 2] ?? 0) / 255,
+        a: (buffer.data[index + 3] ?? 0) / 255,
+      }
+    }
+
+    const input: TransitionPixelInput = {
+      x: 0,
+      y: 0,
+      width,
+      height,
+      progress: transition.progress,
+      params: transition.parameters,
+      from: { r: 0, g: 0, b: 0, a: 0 },
+      to: { r: 0, g: 0, b: 0, a: 0 },
+      sampleFrom: (x, y) => read(from, x, y),
+      sampleTo: (x, y) => read(to, x, y),
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        input.x = (x + 0.5) / width
+        input.y = (y + 0.5) / height
+        input.from = read(from, input.x, input.y)
+        input.to = read(to, input.x, input.y)
+
+        const color = transition.run(input)
+        const index = (y * width + x) * 4
+        result.data[index] = this.clamp(color.r, 0, 1) * 255
+        result.data[index + 1] = this.clamp(color.g, 0, 1) * 255
+        result.data[index + 2] = this.clamp(color.b, 0, 1) * 255
+        result.data[index + 3] = this.clamp(color.a, 0, 1) * 255
+      }
+    }
+
+    return result
+  }
+
+  // Moves, scales and turns a rendered scene by inverse-mapping every output
+  // pixel onto the scene plane. Rotation about x or y is seen in perspective
+  // from state.perspective pixels away.
+  private placeScene(buffer: FrameBuffer, state: SceneState, options: RasterizeOptions): FrameBuffer {
+    const scale = options.scale ?? 1
+    const rotation = state.rotation ?? { x: 0, y: 0, z: 0 }
+    const scaleX = state.scale?.x ?? 1
+    const scaleY = state.scale?.y ?? 1
+    const offsetX = (state.position?.x ?? 0) * scale
+    const offsetY = (state.position?.y ?? 0) * scale
+
+    const identity = offsetX === 0 && offsetY === 0 && scaleX === 1 && scaleY === 1 &&
+      !rotation.x && !rotation.y && !rotation.z
+    if (identity) return buffer
+    if (scaleX === 0 || scaleY === 0) return this.createBuffer(buffer.width, buffer.height)
+
+    const { width, height, data } = buffer
+    const result = this.createBuffer(width, height)
+    const anchorX = (state.anchor?.x ?? 0.5) * width
+    const anchorY = (state.anchor?.y ?? 0.5) * height
+    const distance = (state.perspective ?? 1000) * scale
+
+    // Plane rotation R = Rx * Ry; rows give the plane's axes in view space
+    const ax = ((rotation.x ?? 0) * Math.PI) / 180
+    const ay = ((rotation.y ?? 0) * Math.PI) / 180
+    const az = ((rotation.z ?? 0) * Math.PI) / 180
+    const cx = Math.cos(ax), sx = Math.sin(ax)
+    const cy = Math.cos(ay), sy = Math.sin(ay)
+    const r = [cy, 0, sy, sx * sy, cx, -sx * cy, -cx * sy, sx, cx * cy]
+    const cosZ = Math.cos(-az)
+    const sinZ = Math.sin(-az)
+    const flat = !rotation.x && !rotation.y
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let u = x + 0.5 - anchorX - offsetX
+        let v = y + 0.5 - anchorY - offsetY
+
+        if (!flat) {
+          // Ray from the eye at (0, 0, distance) through the screen point,
+          // intersected with the rotated plane through the origin
+          const nx = r[2]!, ny = r[5]!, nz = r[8]!
+          const denominator = nx * u + ny * v - nz * distance
+          if (Math.abs(denominator) < 1e-9) continue
+          const t = -(nz * distance) / denominator
+          if (t <= 0) continue
+          const px = t * u
+          const py = t * v
+          const pz = distance - t * distance
+          u = r[0]! * px + r[3]! * py + r[6]! * pz
+          v = r[1]! * px + r[4]! * py + r[7]! * pz
+        }
+
+        const rotatedU = u * cosZ - v * sinZ
+        const rotatedV = u * sinZ + v * cosZ
+        this.sampleBilinear(data, width, height, rotatedU / scaleX + anchorX - 0.5, rotatedV / scaleY + anchorY - 0.5, result.data, (y * width + x) * 4)
+      }
+    }
+
+    return result
+  }
+
+  // Alpha-weighted so transparent neighbours don't darken edges
+  private sampleBilinear(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    target: Uint8ClampedArray,
+    offset: number
+  ): void {
+    const x0 = Math.floor(x)
+    const y0 = Math.floor(y)
+    const fx = x - x0
+    const fy = y - y0
+    let alpha = 0
+    let red = 0
+    let green = 0
+    let blue = 0
+
+    for (let j = 0; j < 2; j++) {
+      for (let i = 0; i < 2; i++) {
+        const px = x0 + i
+        const py = y0 + j
+        if (px < 0 || py < 0 || px >= width || py >= height) continue
+
+        const weight = (i ? fx : 1 - fx) * (j ? fy : 1 - fy)
+        const index = (py * width + px) * 4
+        const a = ((data[index + 3] ?? 0) / 255) * weight
+        alpha += a
+        red += (data[index] ?? 0) * a
+        green += (data[index + 1] ?? 0) * a
+        blue += (data[index + 2] ?? 0) * a
+      }
+    }
+
+    if (alpha <= 0) return
+    target[offset] = red / alpha
+    target[offset + 1] = green / alpha
+    target[offset + 2] = blue / alpha
+    target[offset + 3] = alpha * 255
+  }
+
+  // Per-pixel visibility from a transition mask or dissolve, null when the
+  // whole scene shows
+  private getTransitionCoverage(
+    state: SceneState,
+    width: number,
+    height: number,
+    options: RasterizeOptions,
+    luma: Float32Array | null = null
+  ): Float32Array | null {
+    const { mask, dissolve } = state
+    if (!mask && !dissolve) return null
+
+    const coverage = new Float32Array(width * height)
+
+    // Visible where t lies beyond the edge; the edge starts a softness-width
+    // before 0 so progress 0 shows everything and progress 1 nothing
+    const edge = (t: number, progress: number, softness: number, inverted?: boolean) => {
+      const s = Math.max(1e-4, softness)
+      const value = inverted ? 1 - t : t
+      return this.clamp((value - (progress * (1 + s) - s)) / s, 0, 1)
+    }
+
+    const along = (direction: string | undefined, x: number, y: number) => {
+      switch (direction) {
+        case 'vertical':
+        case 'down':
+          return y
+        case 'up':
+          return 1 - y
+        case 'left':
+          return 1 - x
+        default:
+          return x
+      }
+    }
+
+    // Dissolve grain: cells of noiseScale pixels; a higher threshold gives a harder edge
+    const cell = Math.max(1, (dissolve?.noiseScale ?? 1) * (options.scale ?? 1))
+    const grainSoftness = (1 - this.clamp(dissolve?.threshold ?? 0.5, 0, 1)) * 0.5
+
+    const center = { x: (mask?.center?.x ?? 0.5) * width, y: (mask?.center?.y ?? 0.5) * height }
+    const irisDistance = (dx: number, dy: number) => {
+      switch (mask?.shape) {
+        case 'square':
+          return Math.max(Math.abs(dx) / width, Math.abs(dy) / height)
+        case 'diamond':
+          return Math.abs(dx) / width + Math.abs(dy) / height
+        case 'ellipse':
+          return Math.hypot(dx / width, dy / height)
+        default:
+          return Math.hypot(dx, dy)
+      }
+    }
+    // Radius 1 reaches the farthest corner
+    const corners = [[0, 0], [width, 0], [0, height], [width, height]] as const
+    const irisReach = Math.max(...corners.map(([x, y]) => irisDistance(x - center.x, y - center.y))) || 1
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const nx = (x + 0.5) / width
+        const ny = (y + 0.5) / height
+        let value = 1
+
+        if (mask?.type === 'wipe') {
+          value = edge(along(mask.direction, nx, ny), mask.progress ?? 0, mask.softness ?? 0, mask.inverted)
+        } else if (mask?.type === 'reveal') {
+          value = 1 - edge(along(mask.direction, nx, ny), mask.progress ?? 0, mask.softness ?? 0)
+        } else if (mask?.type === 'luma' && luma) {
+          // Shows once progress passes the map's value, darkest first
+          const level = luma[y * width + x] ?? 0
+          const softness = Math.max(1e-4, mask.softness ?? 0)
+          const threshold = mask.inverted ? 1 - level : level
+          value = this.clamp(((mask.progress ?? 0) * (1 + softness) - threshold) / softness, 0, 1)
+        } else if (mask?.type === 'iris') {
+          const distance = irisDistance(x + 0.5 - center.x, y + 0.5 - center.y) / irisReach
+          const softness = Math.max(1e-4, mask.softness ?? 0)
+          value = this.clamp(((mask.radius ?? 0) * (1 + softness) - distance) / softness, 0, 1)
+        }
+
+        if (dissolve) {
+          const noise = hashNoise(Math.floor(x / cell), Math.floor(y / cell))
+          value *= edge(noise, dissolve.progress, grainSoftness, dissolve.inverted)
+        }
+
+        coverage[y * width + x] = value
+      }
+    }
+
+    return coverage
+  }
+
+  // Luma maps at frame size, from the bundled generators or a grayscale image.
+  // An image that fails to load falls back to the linear map.
+  private async getLumaMap(
+    mask: TransitionMask,
+    width: number,
+    height: number,
+    options: RasterizeOptions
+  ): Promise<Float32Array> {
+    const source = mask.source || 'linear'
+    const mapOptions = {
+      ...mask.mapOptions,
+      // Noise features are sized in project pixels
+      scale: (mask.mapOptions?.scale ?? DEFAULT_NOISE_SCALE) * (options.scale ?? 1),
+    }
+    const key = `${source}|${width}x${height}|${JSON.stringify(mapOptions)}`
+    const cached = this.lumaMapCache.get(key)
+    if (cached) return cached
+
+    let map: Float32Array | null = null
+    if (isBundledLumaMap(source)) {
+      map = generateLumaMap(source, width, height, mapOptions)
+    } else {
+      // Image maps are confined like every other asset (see assets.ts); a
+      // refused or missing image falls back to the linear map
+      const href = await this.loadAsset(source)
+      if (href) {
+        const { data } = await sharp(Buffer.from(href.slice(href.indexOf(',') + 1), 'base64'))
+          .resize(width, height, { fit: 'fill' })
+          .removeAlpha()
+          .toColourspace('b-w')
+          .raw()
+          .toBuffer({ resolveWithObject: true })
+        map = Float32Array.from(data, value => value / 255)
+      }
+    }
+    map ??= generateLumaMap('linear', width, height, mapOptions)
+
+    if (this.lumaMapCache.size >= this.maxLumaMapCacheSize) {
+      const oldestKey = this.lumaMapCache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.lumaMapCache.delete(oldestKey)
+      }
+    }
+    this.lumaMapCache.set(key, map)
+    return map
+  }
+
+  async rasterizeBlank(options: RasterizeOptions): Promise<FrameBuffer> {
+    return this.renderSvg(this.wrapSvg('', options), options)
+  }
+
+  createBuffer(width: number, height: number): FrameBuffer {
+    return { width, height, data: new Uint8ClampedArray(width * height * 4) }
+  }
+
+  async encodePng(buffer: FrameBuffer): Promise<Buffer> {
+    return this.encodeImage(buffer, { format: 'png' })
+  }
+
+  async encodeImage(
+    buffer: FrameBuffer,
+    options: {
+      format: 'png' | 'jpeg'
+      width?: number
+      height?: number
+      quality?: number
+      padding?: FramePadding // used when the output aspect ratio differs
+    }
+  ): Promise<Buffer> {
+    const raw = Buffer.from(buffer.data.buffer, buffer.data.byteOffset, buffer.data.length)
+    const input = { raw: { width: buffer.width, height: buffer.height, channels: 4 as const } }
+    let image = sharp(raw, input)
+
+    const width = options.width ?? buffer.width
+    const height = options.height ?? buffer.height
+    const padding = options.padding && !isSameAspect(buffer.width, buffer.height, width, height)
+      ? options.padding
+      : null
+
+    if (padding?.mode === 'blur') {
+      const background = await sharp(raw, input)
+        .resize(width, height, { kernel: 'lanczos3', fit: 'cover' })
+        .blur(Math.max(1, Math.min(width, height) / 40))
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+      const foreground = await image
+        .resize(width, height, { kernel: 'lanczos3', fit: 'inside' })
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+
+      image = sharp(background.data, { raw: { width, height, channels: 4 } }).composite([{
+        input: foreground.data,
+        raw: { width: foreground.info.width, height: foreground.info.height, channels: 4 },
+        gravity: 'centre',
+      }])
+    } else if (padding) {
+      image = image.resize(width, height, {
+        kernel: 'lanczos3',
+        fit: 'contain',
+        background: parseHexColor(padding.color ?? '#000000') ?? { r: 0, g: 0, b: 0, alpha: 1 },
+      })
+    } else if (width !== buffer.width || height !== buffer.height) {
+      image = image.resize(width, height, { kernel: 'lanczos3', fit: 'fill' })
+    }
+
+    return options.format === 'jpeg'
+      ? image.jpeg({ quality: options.quality ?? 90, mozjpeg: true }).toBuffer()
+      : image.png().toBuffer()
+  }
+
+  // Compositing
+  compositeLayer(
+    target: FrameBuffer,
+    source: FrameBuffer,
+    blendMode: BlendMode = 'normal',
+    opacity: number = 1,
+    mask: Float32Array | null = null
+  ): void {
+    if (target.width !== source.width || target.height !== source.height) {
+      throw new Error('Cannot composite buffers of different dimensions')
+    }
+
+    const blend = BLEND_FUNCTIONS[blendMode] ?? BLEND_FUNCTIONS.normal
+    const dst = target.data
+    const src = source.data
+    const pixelCount = target.width * target.height
+
+    for (let p = 0; p < pixelCount; p++) {
+      const i = p * 4
+      const coverage = mask ? mask[p] ?? 0 : 1
+      const as = ((src[i + 3] ?? 0) / 255) * opacity * coverage
+      if (as <= 0) continue
+
+      const ab = (dst[i + 3] ?? 0) / 255
+      const ao = as + ab * (1 - as)
+
+      for (let c = 0; c < 3; c++) {
+        const cs = (src[i + c] ?? 0) / 255
+        const cb = (dst[i + c] ?? 0) / 255
+        const mixed = (1 - ab) * cs + ab * blend(cb, cs)
+        dst[i + c] = Math.round(((as * mixed + ab * (1 - as) * cb) / ao) * 255)
+      }
+      dst[i + 3] = Math.round(ao * 255)
+    }
+  }
+
+  // Background rendering
+  private async renderBackground(
+    background: SceneBackground | undefined,
+    options: RasterizeOptions
+  ): Promise<FrameBuffer> {
+    const { width, height } = options
+    let defs = ''
+    let content = ''
+
+    if (background?.type === 'color' && typeof background.value === 'string') {
+      content = `<rect width="${width}" height="${height}" fill="${this.escape(background.value)}"/>`
+    } else if (background?.type === 'gradient' && typeof background.value === 'object') {
+      defs = this.buildGradient('background-gradient', background.value as GradientBackground, width, height)
+      content = `<rect width="${width}" height="${height}" fill="url(#background-gradient)"/>`
+    } else if (background?.type === 'image' && typeof background.value === 'object') {
+      const media = background.value as MediaBackground
+      const href = await this.loadAsset(media.src)
+      if (href) {
+        const scale = media.scale ?? 1
+        const w = width * scale
+        const h = height * scale
+        const x = (width - w) * (media.position?.x ?? 0.5)
+        const y = (height - h) * (media.position?.y ?? 0.5)
+        content = `<image href="${href}" x="${x}" y="${y}" width="${w}" height="${h}" ` +
+          `preserveAspectRatio="${this.getAspectRatioMode(media.fit)}" opacity="${this.toNumber(media.opacity, 1)}"/>`
+      }
+    }
+    // Video backgrounds need decoded frames and fall back to the project color
+
+    return this.renderSvg(this.wrapSvg(content, options, defs), options)
+  }
+
+  private buildGradient(id: string, gradient: GradientBackground, width: number, height: number): string {
+    const usesPercent = gradient.colors.some(stop => stop.position > 1)
+    const stops = gradient.colors
+      .map(stop => {
+        const offset = usesPercent ? stop.position / 100 : stop.position
+        return `<stop offset="${this.clamp(offset, 0, 1)}" stop-color="${this.escape(stop.color)}"/>`
+      })
+      .join('')
+
+    if (gradient.type === 'radial') {
+      const cx = (gradient.center?.x ?? 0.5) * width
+      const cy = (gradient.center?.y ?? 0.5) * height
+      const r = Math.sqrt(width * width + height * height) / 2
+      return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${cx}" cy="${cy}" r="${r}">${stops}</radialGradient>`
+    }
+
+    // CSS convention: 0deg points up, 90deg points right
+    const angle = ((gradient.angle ?? 180) * Math.PI) / 180
+    const dx = Math.sin(angle)
+    const dy = -Math.cos(angle)
+    const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+    const cx = width / 2
+    const cy = height / 2
+
+    return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${cx - dx * halfLength}" y1="${cy - dy * halfLength}" ` +
+      `x2="${cx + dx * halfLength}" y2="${cy + dy * halfLength}">${stops}</linearGradient>`
+  }
+
+  // Layer rendering
+  private async renderLayer(layer: CompositionLayer, options: RasterizeOptions, frame: number): Promise<FrameBuffer | null> {
+    const content = await this.buildElementSvg(layer)
+    if (!content) return null
+
+    const group = `<g transform="${this.getLayerTransform(layer.computedProperties)}">${content}</g>`
+    const buffer = await this.renderSvg(this.wrapSvg(group, options, '', false), options)
+
+    // Effects work on the layer's own pixels, before blending and masks
+    return getEffectLibrary().renderEffects(buffer, layer.element.effects, {
+      frame,
+      scale: options.scale ?? 1,
+      seed: layer.element.id,
+    })
+  }
+
+  private async buildElementSvg(layer: CompositionLayer): Promise<string | null> {
+    const props = layer.computedProperties
+    const width = this.toNumber(props.size?.width, 0)
+    const height = this.toNumber(props.size?.height, 0)
+
+    switch (layer.element.type) {
+      case 'text':
+        return this.buildTextSvg(props, width)
+      case 'shape':
+        return this.buildShapeSvg(props, width, height)
+      case 'image':
+        return this.buildImageSvg(props, width, height)
+      case 'logo':
+        return props.src
+          ? this.buildImageSvg(props, width, height)
+          : this.buildTextSvg(props, width)
+      default:
+        // Video, audio, particle and group elements have no static raster form
+        return null
+    }
+  }
+
+  private buildTextSvg(props: any, width: number): string | null {
+    const text = String(props.text ?? props.content ?? '')
+    if (!text) return null
+
+    const fontSize = this.toNumber(props.fontSize, 0) || 24
+    const lineHeight = (this.toNumber(props.lineHeight, 0) || 1.2) * fontSize
+    const align = props.textAlign || 'left'
+    const anchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start'
+    const x = align === 'center' ? width / 2 : align === 'right' ? width : 0
+
+    const lines = text
+      .split('\n')
+      .map((line, index) =>
+        `<tspan x="${x}" dy="${index === 0 ? fontSize : lineHeight}">${this.escape(line)}</tspan>`
+      )
+      .join('')
+
+    return `<text font-family="${this.escape(props.fontFamily || 'Arial, sans-serif')}" ` +
+      `font-size="${fontSize}" font-weight="${this.escape(String(props.fontWeight || 'normal'))}" ` +
+      `fill="${this.escape(props.color || '#ffffff')}" text-anchor="${anchor}"` +
+      (typeof props.letterSpacing === 'number' ? ` letter-spacing="${props.letterSpacing}"` : '') +
+      `>${lines}</text>`
+  }
+
+  private buildShapeSvg(props: any, width: number, height: number): string {
+    const fill = this.escape(props.backgroundColor || props.fill || '#ffffff')
+    const stroke = this.escape(props.strokeColor || 'none')
+    const paint = `fill="${fill}" stroke="${stroke}" stroke-width="${this.toNumber(props.strokeWidth, 0)}"`
+    const cx = width / 2
+    const cy = height / 2
+
+    switch (props.shapeType) {
+      case 'circle':
+        return `<ellipse cx="${cx}" cy="${cy}" rx="${cx}" ry="${cy}" ${paint}/>`
+      case 'triangle':
+        return `<polygon points="${cx},0 ${width},${height} 0,${height}" ${paint}/>`
+      case 'polygon':
+        return `<polygon points="${this.getPolygonPoints(this.toNumber(props.sides, 0) || 6, cx, cy, 1)}" ${paint}/>`
+      case 'star':
+        return `<polygon points="${this.getPolygonPoints(this.toNumber(props.starPoints, 0) || 5, cx, cy, 0.5)}" ${paint}/>`
+      case 'path':
+        return `<path d="${this.escape(props.pathData || '')}" ${paint}/>`
+      default: {
+        const radius = typeof props.borderRadius === 'number' ? props.borderRadius : 0
+        return `<rect width="${width}" height="${height}" rx="${radius}" ${paint}/>`
+      }
+    }
+  }
+
+  private async buildImageSvg(props: any, width: number, height: number): Promise<string | null> {
+    const href = await this.loadAsset(props.src)
+    if (!href) return null
+
+    return `<image href="${href}" width="${width}" height="${height}" ` +
+      `preserveAspectRatio="${this.getAspectRatioMode(props.fit || props.objectFit)}"/>`
+  }
+
+  private getPolygonPoints(count: number, cx: number, cy: number, innerRatio: number): string {
+    // innerRatio < 1 alternates outer and inner vertices (stars)
+    const vertices = innerRatio < 1 ? count * 2 : count
+    const points: string[] = []
+
+    for (let i = 0; i < vertices; i++) {
+      const angle = (i / vertices) * Math.PI * 2 - Math.PI / 2
+      const ratio = innerRatio < 1 && i % 2 === 1 ? innerRatio : 1
+      points.push(`${cx + Math.cos(angle) * cx * ratio},${cy + Math.sin(angle) * cy * ratio}`)
+    }
+
+    return points.join(' ')
+  }
+
+  private getLayerTransform(props: any): string {
+    const width = this.toNumber(props.size?.width, 0)
+    const height = this.toNumber(props.size?.height, 0)
+    const anchorX = this.toNumber(props.anchor?.x, 0.5) * width
+    const anchorY = this.toNumber(props.anchor?.y, 0.5) * height
+
+    // Parented elements carry their full scene transform
+    if (Array.isArray(props.worldTransform)) {
+      const matrix = props.worldTransform.map((value: unknown) => this.toNumber(value, 0))
+      return `matrix(${matrix.join(' ')}) translate(${-anchorX} ${-anchorY})`
+    }
+
+    return [
+      `translate(${this.toNumber(props.position?.x, 0)} ${this.toNumber(props.position?.y, 0)})`,
+      `rotate(${this.toNumber(props.rotation?.z, 0)})`,
+      `scale(${this.toNumber(props.scale?.x, 1)} ${this.toNumber(props.scale?.y, 1)})`,
+      `translate(${-anchorX} ${-anchorY})`,
+    ].join(' ')
+  }
+
+  // Mask rendering
+  private async renderMask(
+    layer: CompositionLayer,
+    mask: MaskSettings,
+    previousLayer: FrameBuffer | null,
+    options: RasterizeOptions
+  ): Promise<Float32Array | null> {
+    let source: FrameBuffer | null = null
+
+    if (mask.path) {
+      const d = this.escape(mask.path)
+      const expansion = mask.expansion
+        ? `<path d="${d}" fill="none" stroke="${mask.expansion > 0 ? '#fff' : '#000'}" ` +
+          `stroke-width="${Math.abs(mask.expansion) * 2}" stroke-linejoin="round"/>`
+        : ''
+      const content = `<g transform="${this.getLayerTransform(layer.computedProperties)}">` +
+        `<path d="${d}" fill="#fff"/>${expansion}</g>`
+      source = await this.renderSvg(this.wrapSvg(content, options, '', false), options, mask.feather)
+    } else if (previousLayer) {
+      // Without a path the layer below acts as a track matte
+      source = mask.feather > 0
+        ? await this.blurBuffer(previousLayer, mask.feather)
+        : previousLayer
+    }
+
+    if (!source) return null
+
+    const pixelCount = source.width * source.height
+    const coverage = new Float32Array(pixelCount)
+    const data = source.data
+
+    for (let p = 0; p < pixelCount; p++) {
+      const i = p * 4
+      const alpha = (data[i + 3] ?? 0) / 255
+      let value = alpha
+      if (mask.type === 'luminance') {
+        const luma = (0.2126 * (data[i] ?? 0) + 0.7152 * (data[i + 1] ?? 0) + 0.0722 * (data[i + 2] ?? 0)) / 255
+        value = luma * alpha
+      }
+      coverage[p] = mask.inverted ? 1 - value : value
+    }
+
+    return coverage
+  }
+
+  private async blurBuffer(buffer: FrameBuffer, radius: number): Promise<FrameBuffer> {
+    const { data, info } = await sharp(Buffer.from(buffer.data.buffer, buffer.data.byteOffset, buffer.data.length), {
+      raw: { width: buffer.width, height: buffer.height, channels: 4 },
+    })
+      .blur(Math.max(0.3, radius / 2))
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    return { width: info.width, height: info.height, data: new Uint8ClampedArray(data) }
+  }
+
+  // SVG helpers
+  private wrapSvg(content: string, options: RasterizeOptions, defs: string = '', withBackground: boolean = true): string {
+    const scale = options.scale ?? 1
+    const outputWidth = Math.max(1, Math.round(options.width * scale))
+    const outputHeight = Math.max(1, Math.round(options.height * scale))
+    const background = withBackground && !options.transparent && options.backgroundColor
+      ? `<rect width="${options.width}" height="${options.height}" fill="${this.escape(options.backgroundColor)}"/>`
+      : ''
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${outputWidth}" height="${outputHeight}" viewBox="0 0 ${options.width} ${options.height}">` +
+      `<defs>${defs}</defs>${background}${content}</svg>`
+  }
+
+  private async renderSvg(svg: string, options: RasterizeOptions, blur: number = 0): Promise<FrameBuffer> {
+    let pipeline = sharp(Buffer.from(svg)).ensureAlpha()
+    if (blur > 0) {
+      pipeline = pipeline.blur(Math.max(0.3, (blur * (options.scale ?? 1)) / 2))
+    }
+
+    const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true })
+    return {
+      width: info.width,
+      height: info.height,
+      data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+    }
+  }
+
+  private getAspectRatioMode(fit: string | undefined): string {
+    switch (fit) {
+      case 'cover':
+        return 'xMidYMid slice'
+      case 'fill':
+      case 'stretch':
+        return 'none'
+      default:
+        return 'xMidYMid meet'
+    }
+  }
+
+  // Asset loading
+  private async loadAsset(src: string | undefined): Promise<string | null> {
+    if (!src) return null
+    if (src.startsWith('data:')) return src
+
+    const cached = this.assetCache.get(src)
+    if (cached) return cached
+
+    try {
+      let raw: Buffer
+      const source = resolveAssetSource(src)
+      if (source.type === 'url') {
+        // Redirects could lead anywhere, including hosts off the allowlist
+        const response = await fetch(source.url, { redirect: 'error' })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+        raw = Buffer.from(await response.arrayBuffer())
+      } else if (source.type === 'file') {
+        raw = await fs.readFile(source.path)
+      } else {
+        return source.uri
+      }
+
+      // Normalize to PNG so librsvg can decode any format sharp understands
+      const png = await sharp(raw).png().toBuffer()
+      const dataUri = `data:image/png;base64,${png.toString('base64')}`
+      this.cacheAsset(src, dataUri)
+      return dataUri
+    } catch (error) {
+      console.warn(`Failed to load asset: ${src}`, error)
+      return null
+    }
+  }
+
+  private cacheAsset(key: string, value: string): void {
+    if (this.assetCache.size >= this.maxAssetCacheSize) {
+      const oldestKey = this.assetCache.keys().next().value
+      if (oldestKey !== undefined) {
+        this.assetCache.delete(oldestKey)
+      }
+    }
+    this.assetCache.set(key, value)
+  }
+
+  clearAssetCache(): void {
+    this.assetCache.clear()
+    this.lumaMapCache.clear()
+  }
+
+  // Utility methods
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value))
+  }
+
+  // Project values are untrusted; only finite numbers reach SVG attributes
+  private toNumber(value: unknown, fallback: number): number {
+    const number = Number(value)
+    return value !== null && value !== '' && Number.isFinite(number) ? number : fallback
+  }
+}
+
+// Within a pixel of rounding, as output sizes are rounded to even numbers
+export function isSameAspect(width: number, height: number, otherWidth: number, otherHeight: number): boolean {
+  return Math.abs(width / height - otherWidth / otherHeight) * Math.min(otherWidth, otherHeight) < 2
+}
+
+export function parseHexColor(color: string): { r: number; g: number; b: number; alpha: number } | null {
+  const match = /^#([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(color)
+  if (!match) return null
+
+  const value = parseInt(match[1]!, 16)
+  return {
+    r: (value >> 16) & 0xff,
+    g: (value >> 8) & 0xff,
+    b: value & 0xff,
+    alpha: match[2] ? parseInt(match[2], 16) / 255 : 1,
+  }
+}
+
+// Singleton instance
+let frameRasterizerInstance: FrameRasterizer | null = null
+
+export function getFrameRasterizer(): FrameRasterizer {
+  if (!frameRasterizerInstance) {
+    frameRasterizerInstance = new FrameRasterizer()
+  }
+  return frameRasterizerInstance
+}
+
+export default FrameRasterizer
@@ -0,0 +1,606 @@
+import type { MotionProject, MotionScene, MotionElement, Animation, Keyframe } from './core'
+import type { AffineTransform } from './scene-composer'
+import { transformSvgPath } from './svg-path'
+
+// Re-lays out a project for another frame size. Each element is pinned to the
+// start, centre or end of both axes depending on where it sits, then scaled
+// uniformly, so corner badges stay in their corners and centred titles stay
+// centred. Full-frame backdrops are stretched to the new frame instead, and
+// text is shrunk or nudged back inside the title-safe area. Position and size
+// keyframes, spatial tangents and motion paths go through the same mapping, so
+// motion keeps its shape. Parented elements are placed relative to their
+// parent, which is pinned for them, so their offsets are only scaled; frame
+// and title-safe checks still use where they land in the scene.
+
+export interface ReframeOptions {
+  // 'contain' keeps every element inside the frame; 'cover' fills the larger
+  // axis and may push elements off screen (reported as out-of-frame)
+  fit?: 'contain' | 'cover'
+  titleSafeMargin?: number // fraction of each dimension, default 0.1
+  minTextScale?: number // text is never shrunk below this, default 0.5
+}
+
+export interface ReframeIssue {
+  sceneId: string
+  elementId: string
+  elementName: string
+  reason: 'text-overflow' | 'out-of-frame'
+  message: string
+}
+
+export interface ReframeReport {
+  scale: number // uniform scale applied to element sizes
+  adjusted: string[] // text elements shrunk or moved to stay title-safe
+  unfitted: ReframeIssue[]
+}
+
+export interface ReframeResult {
+  project: MotionProject
+  report: ReframeReport
+}
+
+type Pin = 'start' | 'center' | 'end'
+
+interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+interface ReframeContext {
+  source: { width: number; height: number }
+  target: { width: number; height: number }
+  scale: number
+  options: ReframeOptions
+  report: ReframeReport
+}
+
+// How one element's properties and keyframes are rewritten
+interface ElementTransform {
+  x: (value: number) => number
+  y: (value: number) => number
+  width: number // size multipliers
+  height: number
+  pixels: number // multiplier for pixel-valued style properties
+  scale: number // multiplier for the scale property
+}
+
+// Style properties measured in pixels, scaled along with the element
+const PIXEL_PROPERTIES = ['fontSize', 'letterSpacing', 'strokeWidth', 'borderRadius']
+
+// Elements covering at least this much of the frame on both axes are backdrops
+const BACKDROP_COVERAGE = 0.95
+
+// Bounds may overshoot the frame by this much before counting as outside
+const EDGE_TOLERANCE = 1
+
+export class ProjectReframer {
+  reframe(
+    project: MotionProject,
+    target: { width: number; height: number },
+    options: ReframeOptions = {}
+  ): ReframeResult {
+    const source = { width: project.width, height: project.height }
+    const ratios = [target.width / source.width, target.height / source.height]
+    const scale = options.fit === 'cover' ? Math.max(...ratios) : Math.min(...ratios)
+
+    const report: ReframeReport = { scale, adjusted: [], unfitted: [] }
+    const context: ReframeContext = { source, target, scale, options, report }
+
+    const scenes = project.scenes.map(scene => this.reframeScene(scene, context))
+
+    return {
+      project: { ...project, width: target.width, height: target.height, scenes },
+      report,
+    }
+  }
+
+  private reframeScene(scene: MotionScene, context: ReframeContext): MotionScene {
+    const original = new Map(scene.elements.map(element => [element.id, element]))
+    const parents = new Map<string, string>()
+    for (const element of scene.elements) {
+      const parent = this.getParent(element, original)
+      if (parent) parents.set(element.id, parent.id)
+    }
+
+    const before = new Map(scene.elements.map(element => [
+      element.id,
+      this.getSceneBounds(element, this.getParentTransform(element, original, parents)),
+    ]))
+    const reframed = new Map(scene.elements.map(element => [
+      element.id,
+      this.reframeElement(element, before.get(element.id)!, this.getOffsetScale(element, original, parents, context), context),
+    ]))
+
+    // Parents are fitted first, so children are checked where their parent ends up
+    const ordered = [...scene.elements].sort((a, b) => this.getDepth(a, parents) - this.getDepth(b, parents))
+    for (const element of ordered) {
+      const parentTransform = this.getParentTransform(element, reframed, parents)
+      reframed.set(
+        element.id,
+        this.checkElement(element, reframed.get(element.id)!, before.get(element.id)!, parentTransform, scene, context)
+      )
+    }
+
+    return { ...scene, elements: scene.elements.map(element => reframed.get(element.id)!) }
+  }
+
+  private reframeElement(
+    element: MotionElement,
+    before: Bounds,
+    offsetScale: number | null,
+    context: ReframeContext
+  ): MotionElement {
+    const { source, target, scale } = context
+    const isPath = this.isPath(element)
+
+    if (offsetScale !== null) {
+      return this.transformElement(element, {
+        x: value => value * offsetScale,
+        y: value => value * offsetScale,
+        width: isPath ? 1 : offsetScale,
+        height: isPath ? 1 : offsetScale,
+        pixels: isPath ? 1 : offsetScale,
+        scale: isPath ? offsetScale : 1,
+      })
+    }
+
+    if (element.type !== 'text' && this.isBackdrop(before, source)) {
+      const scaleX = target.width / source.width
+      const scaleY = target.height / source.height
+      return this.transformElement(element, {
+        x: value => value * scaleX,
+        y: value => value * scaleY,
+        width: scaleX,
+        height: scaleY,
+        pixels: scale,
+        scale: 1,
+      })
+    }
+
+    const pinX = this.getPin((before.left + before.right) / 2, source.width)
+    const pinY = this.getPin((before.top + before.bottom) / 2, source.height)
+    return this.transformElement(element, {
+      x: value => this.mapAxis(value, pinX, source.width, target.width, scale),
+      y: value => this.mapAxis(value, pinY, source.height, target.height, scale),
+      width: isPath ? 1 : scale,
+      height: isPath ? 1 : scale,
+      pixels: isPath ? 1 : scale,
+      scale: isPath ? scale : 1,
+    })
+  }
+
+  // Fits text into the title-safe area and reports elements pushed off screen
+  private checkElement(
+    element: MotionElement,
+    reframed: MotionElement,
+    before: Bounds,
+    parentTransform: AffineTransform | null,
+    scene: MotionScene,
+    context: ReframeContext
+  ): MotionElement {
+    const { source, target, options, report } = context
+    const wasInside = this.isInside(before, { left: 0, top: 0, right: source.width, bottom: source.height })
+
+    if (element.type === 'text' && wasInside) {
+      return this.fitTitleSafe(reframed, parentTransform, scene, target, options, report)
+    }
+
+    const after = this.getSceneBounds(reframed, parentTransform)
+    if (wasInside && !this.isInside(after, { left: 0, top: 0, right: target.width, bottom: target.height })) {
+      report.unfitted.push({
+        sceneId: scene.id,
+        elementId: element.id,
+        elementName: element.name,
+        reason: 'out-of-frame',
+        message: `${element.name} no longer fits inside the ${target.width}x${target.height} frame`,
+      })
+    }
+
+    return reframed
+  }
+
+  // Title-safe fitting
+  private fitTitleSafe(
+    element: MotionElement,
+    parentTransform: AffineTransform | null,
+    scene: MotionScene,
+    target: { width: number; height: number },
+    options: ReframeOptions,
+    report: ReframeReport
+  ): MotionElement {
+    const margin = options.titleSafeMargin ?? 0.1
+    const minScale = options.minTextScale ?? 0.5
+    const safe: Bounds = {
+      left: target.width * margin,
+      top: target.height * margin,
+      right: target.width * (1 - margin),
+      bottom: target.height * (1 - margin),
+    }
+
+    let bounds = this.getSceneBounds(element, parentTransform)
+    if (this.isInside(bounds, safe)) return element
+
+    let fitted = element
+    const needed = Math.min(
+      1,
+      (safe.right - safe.left) / Math.max(1, bounds.right - bounds.left),
+      (safe.bottom - safe.top) / Math.max(1, bounds.bottom - bounds.top)
+    )
+    const shrink = Math.max(minScale, needed)
+
+    if (shrink < 1) {
+      // Resized around the element's own anchor, so its position holds
+      fitted = this.transformElement(fitted, {
+        x: value => value,
+        y: value => value,
+        width: shrink,
+        height: shrink,
+        pixels: shrink,
+        scale: 1,
+      })
+      bounds = this.getSceneBounds(fitted, parentTransform)
+    }
+
+    // The nudge is measured in the scene and applied in the parent's space
+    const nudge = this.toLocalOffset(
+      this.getNudge(bounds.left, bounds.right, safe.left, safe.right),
+      this.getNudge(bounds.top, bounds.bottom, safe.top, safe.bottom),
+      parentTransform
+    )
+    if (nudge.x !== 0 || nudge.y !== 0) {
+      fitted = this.transformElement(fitted, {
+        x: value => value + nudge.x,
+        y: value => value + nudge.y,
+        width: 1,
+        height: 1,
+        pixels: 1,
+        scale: 1,
+      })
+    }
+
+    report.adjusted.push(element.id)
+    if (needed < minScale) {
+      report.unfitted.push({
+        sceneId: scene.id,
+        elementId: element.id,
+        elementName: element.name,
+        reason: 'text-overflow',
+        message: `${element.name} would need to shrink to ${Math.round(needed * 100)}% ` +
+          `to fit the title-safe area; it was kept at ${Math.round(minScale * 100)}%`,
+      })
+    }
+
+    return fitted
+  }
+
+  // Moves [start, end] inside [min, max], or centres it when it is too large
+  private getNudge(start: number, end: number, min: number, max: number): number {
+    if (end - start > max - min) return (min + max) / 2 - (start + end) / 2
+    if (start < min) return min - start
+    if (end > max) return max - end
+    return 0
+  }
+
+  // Layout mapping
+  private getPin(center: number, length: number): Pin {
+    if (center < length / 3) return 'start'
+    if (center > (length * 2) / 3) return 'end'
+    return 'center'
+  }
+
+  private mapAxis(value: number, pin: Pin, source: number, target: number, scale: number): number {
+    switch (pin) {
+      case 'start':
+        return value * scale
+      case 'end':
+        return target - (source - value) * scale
+      default:
+        return target / 2 + (value - source / 2) * scale
+    }
+  }
+
+  // Path data is in local pixels, so paths are scaled rather than resized
+  private isPath(element: MotionElement): boolean {
+    return element.properties['shapeType'] === 'path'
+  }
+
+  // Multiplier for a parented element's local offsets and sizes, or null for
+  // top-level elements. A path ancestor's scale already carries the reframe.
+  private getOffsetScale(
+    element: MotionElement,
+    elements: Map<string, MotionElement>,
+    parents: Map<string, string>,
+    context: ReframeContext
+  ): number | null {
+    if (!parents.has(element.id)) return null
+
+    for (let id = parents.get(element.id); id !== undefined; id = parents.get(id)) {
+      const ancestor = elements.get(id)
+      if (ancestor && this.isPath(ancestor)) return 1
+    }
+    return context.scale
+  }
+
+  private isBackdrop(bounds: Bounds, source: { width: number; height: number }): boolean {
+    return bounds.right - bounds.left >= source.width * BACKDROP_COVERAGE &&
+      bounds.bottom - bounds.top >= source.height * BACKDROP_COVERAGE
+  }
+
+  // Element rewriting
+  private transformElement(element: MotionElement, transform: ElementTransform): MotionElement {
+    return {
+      ...element,
+      properties: this.transformProperties(element.properties, transform),
+      animations: element.animations.map(animation => this.transformAnimation(animation, transform)),
+    }
+  }
+
+  private transformProperties(
+    properties: MotionElement['properties'],
+    transform: ElementTransform
+  ): MotionElement['properties'] {
+    const result = { ...properties }
+
+    result.position = this.transformValue('position', properties.position, transform)
+    result.size = this.transformValue('size', properties.size, transform)
+    result.scale = this.transformValue('scale', properties.scale, transform)
+    for (const property of PIXEL_PROPERTIES) {
+      if (typeof properties[property] === 'number') {
+        result[property] = properties[property] * transform.pixels
+      }
+    }
+
+    return result
+  }
+
+  private transformAnimation(animation: Animation, transform: ElementTransform): Animation {
+    if (!this.isLayoutProperty(animation.property)) return animation
+
+    // Path keyframes hold progress along the path, so the path moves instead
+    const pathData = animation.motionPath?.pathData
+    if (pathData) {
+      return {
+        ...animation,
+        motionPath: {
+          ...animation.motionPath,
+          pathData: transformSvgPath(pathData, point => ({ x: transform.x(point.x), y: transform.y(point.y) })),
+        },
+      }
+    }
+
+    return {
+      ...animation,
+      keyframes: animation.keyframes.map(keyframe => ({
+        ...keyframe,
+        value: this.transformValue(animation.property, keyframe.value, transform),
+        ...this.transformTangents(keyframe, transform),
+      })),
+    }
+  }
+
+  // Tangents are offsets, so they take the mapping's scale but not its shift
+  private transformTangents(keyframe: Keyframe, transform: ElementTransform): Partial<Keyframe> {
+    const offset = (tangent: { x: number; y: number }) => ({
+      x: transform.x(tangent.x) - transform.x(0),
+      y: transform.y(tangent.y) - transform.y(0),
+    })
+
+    return {
+      ...(keyframe.inTangent ? { inTangent: offset(keyframe.inTangent) } : {}),
+      ...(keyframe.outTangent ? { outTangent: offset(keyframe.outTangent) } : {}),
+    }
+  }
+
+  private isLayoutProperty(property: string): boolean {
+    const root = property.split('.')[0] ?? ''
+    return root === 'position' || root === 'size' || root === 'scale' || PIXEL_PROPERTIES.includes(root)
+  }
+
+  // Rewrites a whole property ('position') or one component ('position.x')
+  private transformValue(property: string, value: any, transform: ElementTransform): any {
+    const [root, key] = property.split('.')
+    const multiply = (v: any, factor: number) => typeof v === 'number' ? v * factor : v
+
+    if (key !== undefined) {
+      if (typeof value !== 'number') return value
+      if (root === 'position') {
+        return key === 'x' ? transform.x(value) : key === 'y' ? transform.y(value) : value
+      }
+      if (root === 'size') {
+        return key === 'width' ? value * transform.width : key === 'height' ? value * transform.height : value
+      }
+      if (root === 'scale') {
+        return key === 'x' || key === 'y' ? value * transform.scale : value
+      }
+      return value
+    }
+
+    if (PIXEL_PROPERTIES.includes(property)) {
+      return multiply(value, transform.pixels)
+    }
+    if (!value || typeof value !== 'object') return value
+
+    switch (root) {
+      case 'position':
+        return {
+          ...value,
+          ...(typeof value.x === 'number' ? { x: transform.x(value.x) } : {}),
+          ...(typeof value.y === 'number' ? { y: transform.y(value.y) } : {}),
+        }
+      case 'size':
+        return { ...value, width: multiply(value.width, transform.width), height: multiply(value.height, transform.height) }
+      case 'scale':
+        return { ...value, x: multiply(value.x, transform.scale), y: multiply(value.y, transform.scale) }
+      default:
+        return value
+    }
+  }
+
+  // Geometry
+  // Properties where the element comes to rest: the last keyframe of any
+  // layout animation, so slide-ins that start off screen are judged where they land
+  private getRestProperties(element: MotionElement): any {
+    const rest: any = {
+      position: { ...element.properties.position },
+      size: { ...element.properties.size },
+      scale: { ...element.properties.scale },
+      rotation: { ...element.properties.rotation },
+    }
+
+    for (const animation of element.animations) {
+      const [root, key] = animation.property.split('.')
+      if (!root || !(root in rest) || animation.keyframes.length === 0) continue
+
+      const last = animation.keyframes.reduce((latest, keyframe) =>
+        keyframe.frame >= latest.frame ? keyframe : latest
+      )
+      if (key !== undefined) {
+        if (typeof last.value === 'number') rest[root][key] = last.value
+      } else if (last.value && typeof last.value === 'object') {
+        rest[root] = { ...rest[root], ...last.value }
+      }
+    }
+
+    return rest
+  }
+
+  private getRestBounds(element: MotionElement): Bounds {
+    const rest = this.getRestProperties(element)
+    const width = (rest.size?.width ?? 0) * Math.abs(rest.scale?.x ?? 1)
+    const height = (rest.size?.height ?? 0) * Math.abs(rest.scale?.y ?? 1)
+    const left = (rest.position?.x ?? 0) - (element.properties.anchor?.x ?? 0.5) * width
+    const top = (rest.position?.y ?? 0) - (element.properties.anchor?.y ?? 0.5) * height
+
+    return { left, top, right: left + width, bottom: top + height }
+  }
+
+  // Rest bounds in scene space, boxing the corners when a parent rotates them
+  private getSceneBounds(element: MotionElement, parentTransform: AffineTransform | null): Bounds {
+    const bounds = this.getRestBounds(element)
+    if (!parentTransform) return bounds
+
+    const corners = [
+      applyTransform(parentTransform, bounds.left, bounds.top),
+      applyTransform(parentTransform, bounds.right, bounds.top),
+      applyTransform(parentTransform, bounds.left, bounds.bottom),
+      applyTransform(parentTransform, bounds.right, bounds.bottom),
+    ]
+    return {
+      left: Math.min(...corners.map(corner => corner.x)),
+      top: Math.min(...corners.map(corner => corner.y)),
+      right: Math.max(...corners.map(corner => corner.x)),
+      bottom: Math.max(...corners.map(corner => corner.y)),
+    }
+  }
+
+  // Parenting, resolved as the composer does from each parent's rest transform
+  private getParent(element: MotionElement, elements: Map<string, MotionElement>): MotionElement | undefined {
+    const next = (child: MotionElement) => child.parentId && child.parentId !== child.id
+      ? elements.get(child.parentId)
+      : undefined
+    const parent = next(element)
+
+    // Members of a parent cycle are laid out as top-level elements
+    const seen = new Set<string>()
+    for (let ancestor = parent; ancestor && !seen.has(ancestor.id); ancestor = next(ancestor)) {
+      if (ancestor.id === element.id) return undefined
+      seen.add(ancestor.id)
+    }
+
+    return parent
+  }
+
+  private getParentTransform(
+    element: MotionElement,
+    elements: Map<string, MotionElement>,
+    parents: Map<string, string>
+  ): AffineTransform | null {
+    const parentId = parents.get(element.id)
+    const parent = parentId ? elements.get(parentId) : undefined
+    if (!parent) return null
+
+    const rest = this.getRestProperties(parent)
+    const radians = ((rest.rotation?.z ?? 0) * Math.PI) / 180
+    const scaleX = rest.scale?.x ?? 1
+    const scaleY = rest.scale?.y ?? 1
+    const local: AffineTransform = [
+      Math.cos(radians) * scaleX,
+      Math.sin(radians) * scaleX,
+      -Math.sin(radians) * scaleY,
+      Math.cos(radians) * scaleY,
+      rest.position?.x ?? 0,
+      rest.position?.y ?? 0,
+    ]
+
+    const outer = this.getParentTransform(parent, elements, parents)
+    return outer ? multiplyTransforms(outer, local) : local
+  }
+
+  private getDepth(element: MotionElement, parents: Map<string, string>): number {
+    let depth = 0
+    for (let id = parents.get(element.id); id !== undefined; id = parents.get(id)) {
+      depth++
+    }
+    return depth
+  }
+
+  // Scene-space offset expressed in the parent's space; zero when the parent
+  // has collapsed to nothing
+  private toLocalOffset(dx: number, dy: number, parentTransform: AffineTransform | null): { x: number; y: number } {
+    if (!parentTransform) return { x: dx, y: dy }
+
+    const [a, b, c, d] = parentTransform
+    const determinant = a * d - b * c
+    if (Math.abs(determinant) < 1e-12) return { x: 0, y: 0 }
+    return { x: (d * dx - c * dy) / determinant, y: (a * dy - b * dx) / determinant }
+  }
+
+  private isInside(bounds: Bounds, area: Bounds): boolean {
+    return bounds.left >= area.left - EDGE_TOLERANCE &&
+      bounds.top >= area.top - EDGE_TOLERANCE &&
+      bounds.right <= area.right + EDGE_TOLERANCE &&
+      bounds.bottom <= area.bottom + EDGE_TOLERANCE
+  }
+}
+
+function multiplyTransforms(outer: AffineTransform, inner: AffineTransform): AffineTransform {
+  const [a1, b1, c1, d1, e1, f1] = outer
+  const [a2, b2, c2, d2, e2, f2] = inner
+
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ]
+}
+
+function applyTransform(transform: AffineTransform, x: number, y: number): { x: number; y: number } {
+  const [a, b, c, d, e, f] = transform
+  return { x: a * x + c * y + e, y: b * x + d * y + f }
+}
+
+// Singleton instance
+let projectReframerInstance: ProjectReframer | null = null
+
+export function getProjectReframer(): ProjectReframer {
+  if (!projectReframerInstance) {
+    projectReframerInstance = new ProjectReframer()
+  }
+  return projectReframerInstance
+}
+
+// Convenience functions
+export function reframeProject(
+  project: MotionProject,
+  target: { width: number; height: number },
+  options?: ReframeOptions
+): ReframeResult {
+  return getProjectReframer().reframe(project, target, options)
+}
+
+export default ProjectReframer
@@ -0,0 +1,312 @@
+import type { MotionProject } from './core'
+import type { RenderOptions } from './renderer'
+
+// Named delivery targets for social platforms. A preset fixes everything a
+// platform cares about, and projects are checked against it before queueing.
+// Projects of another shape are padded to the preset's aspect ratio.
+// Kept free of server-only imports so the editor can list presets too.
+
+export interface RenderPreset {
+  id: string
+  name: string
+  platform: string
+  description: string
+  aspectRatio: { width: number; height: number }
+  format: 'mp4' | 'webm'
+  codec: 'h264' | 'vp9'
+  resolution: RenderOptions['resolution'] // bounding box, rotated for portrait presets
+  fps: number
+  quality: RenderOptions['quality'] // default; requests may override it
+  maxBitrate: string // ffmpeg notation, e.g. '8M'
+  minDuration?: number // seconds
+  maxDuration: number // seconds
+  maxFileSize: number // bytes
+}
+
+export interface PresetValidation {
+  valid: boolean
+  errors: string[] // the platform would reject the upload
+  warnings: string[] // output differs from the project but is accepted
+}
+
+export interface RenderFormatOption {
+  id: RenderOptions['format']
+  name: string
+  description: string
+}
+
+export interface RenderQualityOption {
+  id: RenderOptions['quality']
+  name: string
+  description: string
+}
+
+export const RENDER_FORMATS: RenderFormatOption[] = [
+  { id: 'mp4', name: 'MP4', description: 'Best for web and social media' },
+  { id: 'webm', name: 'WebM', description: 'Optimized for web browsers' },
+  { id: 'mov', name: 'ProRes MOV', description: 'Lossless-quality master for editing' },
+  { id: 'gif', name: 'GIF', description: 'Animated image format' },
+  { id: 'lottie', name: 'Lottie', description: 'JSON animation for web/mobile' },
+]
+
+export const RENDER_QUALITIES: RenderQualityOption[] = [
+  { id: 'draft', name: 'Draft', description: 'Fast preview quality' },
+  { id: 'preview', name: 'Preview', description: 'Good for review' },
+  { id: 'low', name: 'Low', description: 'Small files for quick sharing' },
+  { id: 'medium', name: 'Medium', description: 'Balanced size and quality' },
+  { id: 'high', name: 'High', description: 'Production quality' },
+  { id: 'ultra', name: 'Ultra', description: 'Maximum quality' },
+]
+
+// Render requests are validated against the same list the editor offers
+export const RENDER_QUALITY_IDS = RENDER_QUALITIES.map(quality => quality.id) as [
+  RenderOptions['quality'],
+  ...RenderOptions['quality'][],
+]
+
+const MB = 1024 * 1024
+const GB = 1024 * MB
+
+// Aspect ratios closer than this are treated as equal (1080x1920 vs 9:16, etc.)
+const ASPECT_TOLERANCE = 0.01
+
+export class RenderPresetLibrary {
+  private presets: RenderPreset[] = []
+
+  constructor() {
+    this.initializePresets()
+  }
+
+  private initializePresets(): void {
+    this.presets = [
+      {
+        id: 'instagram-reel',
+        name: 'Instagram Reel',
+        platform: 'Instagram',
+        description: 'Vertical 1080x1920 video for Reels',
+        aspectRatio: { width: 9, height: 16 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '8M',
+        minDuration: 3,
+        maxDuration: 90,
+        maxFileSize: 4 * GB,
+      },
+      {
+        id: 'instagram-square',
+        name: 'Instagram Square Post',
+        platform: 'Instagram',
+        description: 'Square 1080x1080 feed video',
+        aspectRatio: { width: 1, height: 1 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '8M',
+        minDuration: 3,
+        maxDuration: 60,
+        maxFileSize: 4 * GB,
+      },
+      {
+        id: 'youtube-1080p',
+        name: 'YouTube 1080p',
+        platform: 'YouTube',
+        description: 'Full HD 1920x1080 upload',
+        aspectRatio: { width: 16, height: 9 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '12M',
+        maxDuration: 12 * 60 * 60,
+        maxFileSize: 256 * GB,
+      },
+      {
+        id: 'youtube-4k',
+        name: 'YouTube 4K',
+        platform: 'YouTube',
+        description: 'Ultra HD 3840x2160 upload',
+        aspectRatio: { width: 16, height: 9 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '4k',
+        fps: 30,
+        quality: 'ultra',
+        maxBitrate: '45M',
+        maxDuration: 12 * 60 * 60,
+        maxFileSize: 256 * GB,
+      },
+      {
+        id: 'youtube-shorts',
+        name: 'YouTube Shorts',
+        platform: 'YouTube',
+        description: 'Vertical 1080x1920 Short',
+        aspectRatio: { width: 9, height: 16 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '12M',
+        maxDuration: 180,
+        maxFileSize: 256 * GB,
+      },
+      {
+        id: 'tiktok',
+        name: 'TikTok',
+        platform: 'TikTok',
+        description: 'Vertical 1080x1920 video',
+        aspectRatio: { width: 9, height: 16 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '10M',
+        minDuration: 3,
+        maxDuration: 10 * 60,
+        maxFileSize: 2 * GB,
+      },
+      {
+        id: 'linkedin-square',
+        name: 'LinkedIn Square',
+        platform: 'LinkedIn',
+        description: 'Square 1080x1080 feed video',
+        aspectRatio: { width: 1, height: 1 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '1080p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '10M',
+        minDuration: 3,
+        maxDuration: 10 * 60,
+        maxFileSize: 5 * GB,
+      },
+      {
+        id: 'x-landscape',
+        name: 'X (Twitter)',
+        platform: 'X',
+        description: 'Landscape 1280x720 post video',
+        aspectRatio: { width: 16, height: 9 },
+        format: 'mp4',
+        codec: 'h264',
+        resolution: '720p',
+        fps: 30,
+        quality: 'high',
+        maxBitrate: '6M',
+        minDuration: 0.5,
+        maxDuration: 140,
+        maxFileSize: 512 * MB,
+      },
+    ]
+  }
+
+  // Preset management
+  getPresets(): RenderPreset[] {
+    return [...this.presets]
+  }
+
+  getPreset(id: string): RenderPreset | undefined {
+    return this.presets.find(preset => preset.id === id)
+  }
+
+  // Validation
+  validateProject(
+    project: Pick<MotionProject, 'width' | 'height' | 'fps' | 'duration'>,
+    preset: RenderPreset,
+    range?: { startFrame?: number; endFrame?: number }
+  ): PresetValidation {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const projectAspect = project.width / project.height
+    const presetAspect = preset.aspectRatio.width / preset.aspectRatio.height
+    if (Math.abs(projectAspect / presetAspect - 1) > ASPECT_TOLERANCE) {
+      warnings.push(
+        `The ${project.width}x${project.height} project will be padded to ` +
+        `${preset.name}'s ${preset.aspectRatio.width}:${preset.aspectRatio.height} frame`
+      )
+    }
+
+    const duration = this.getDurationSeconds(project, range)
+    if (duration > preset.maxDuration) {
+      errors.push(`${preset.name} allows at most ${preset.maxDuration}s, but the render is ${duration.toFixed(1)}s`)
+    }
+    if (preset.minDuration !== undefined && duration < preset.minDuration) {
+      errors.push(`${preset.name} needs at least ${preset.minDuration}s, but the render is ${duration.toFixed(1)}s`)
+    }
+
+    // The bitrate cap bounds the file size, so this only trips on presets
+    // whose size limit is tighter than cap x duration
+    const estimatedSize = (parseBitrate(preset.maxBitrate) * duration) / 8
+    if (estimatedSize > preset.maxFileSize) {
+      warnings.push(
+        `At up to ${preset.maxBitrate}bps the render may exceed ${preset.name}'s ` +
+        `${formatBytes(preset.maxFileSize)} limit`
+      )
+    }
+
+    if (project.fps !== preset.fps) {
+      warnings.push(`The project runs at ${project.fps} fps and will be resampled to ${preset.fps} fps`)
+    }
+
+    return { valid: errors.length === 0, errors, warnings }
+  }
+
+  // Render options a preset stands for; quality may still be overridden
+  getRenderOptions(preset: RenderPreset): Pick<
+    RenderOptions,
+    'format' | 'quality' | 'resolution' | 'fps' | 'maxBitrate' | 'maxFileSize' | 'aspectRatio'
+  > {
+    return {
+      format: preset.format,
+      aspectRatio: preset.aspectRatio,
+      quality: preset.quality,
+      resolution: preset.resolution,
+      fps: preset.fps,
+      maxBitrate: preset.maxBitrate,
+      maxFileSize: preset.maxFileSize,
+    }
+  }
+
+  private getDurationSeconds(
+    project: Pick<MotionProject, 'fps' | 'duration'>,
+    range?: { startFrame?: number; endFrame?: number }
+  ): number {
+    const lastFrame = Math.max(0, project.duration - 1)
+    const start = Math.min(lastFrame, range?.startFrame ?? 0)
+    const end = Math.min(lastFrame, range?.endFrame ?? lastFrame)
+    return (Math.max(start, end) - start + 1) / project.fps
+  }
+}
+
+// Bits per second from ffmpeg notation ('500K', '8M', '1.5G')
+export function parseBitrate(bitrate: string): number {
+  const match = /^(\d+(?:\.\d+)?)([KMG]?)$/i.exec(bitrate)
+  if (!match) return NaN
+
+  const multipliers: Record<string, number> = { '': 1, K: 1e3, M: 1e6, G: 1e9 }
+  return Number(match[1]) * (multipliers[(match[2] ?? '').toUpperCase()] ?? 1)
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= GB ? `${bytes / GB} GB` : `${Math.round(bytes / MB)} MB`
+}
+
+// Singleton instance
+let renderPresetLibraryInstance: RenderPresetLibrary | null = null
+
+export function getRenderPresets(): RenderPresetLibrary {
+  if (!renderPresetLibraryInstance) {
+    renderPresetLibraryInstance = new RenderPresetLibrary()
+  }
+  return renderPresetLibraryInstance
+}
+
+export default RenderPresetLibrary
@@ -1,14 +1,36 @@
-import { MotionProject, MotionScene } from './core'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { pathToFileURL } from 'url'
+import { MotionProject } from './core'
 import { getSceneComposer } from './scene-composer'
 import { getMotionEngine } from './core'
+import { getFrameRasterizer, FrameBuffer, FramePadding, RasterizeOptions, isSameAspect } from './rasterizer'
+import { createEncoder, concatVideos, EncoderFormat, FrameSink, supportsAlpha } from './encoder'
+import { createFrameSequence, SpriteSheetOptions } from './frame-sequence'
+import { getLottieExporter } from './lottie-exporter'
+import { getFrameCache } from './frame-cache'
+import { getStorage } from '../storage'
+import { parseBitrate } from './render-presets'
 
 export interface RenderOptions {
-  format: 'mp4' | 'webm' | 'gif' | 'lottie' | 'frames'
+  format: 'mp4' | 'webm' | 'gif' | 'mov' | 'lottie' | 'frames' | 'png' | 'jpeg'
   quality: 'draft' | 'preview' | 'low' | 'medium' | 'high' | 'ultra'
   resolution: '480p' | '720p' | '1080p' | '1440p' | '4k'
   fps?: number
-  onProgress?: (progress: number, stage: string) => void
+  maxBitrate?: string // caps the quality preset's bitrate, e.g. '8M'
+  maxFileSize?: number // bytes; larger outputs complete with a warning
+  aspectRatio?: { width: number; height: number } // output frame shape; defaults to the project's
+  padding?: FramePadding // fills the frame when aspectRatio differs (default black bars)
+  startFrame?: number // first project frame to render (inclusive)
+  endFrame?: number // last project frame to render (inclusive)
+  frame?: number // 'png' and 'jpeg' only: project frame to capture
+  spriteSheet?: SpriteSheetOptions // 'frames' only: also pack a sprite sheet with a JSON atlas
+  alpha?: boolean // transparent background; requires 'mov', 'webm', 'frames' or 'png'
+  cache?: boolean // reuse unchanged frames from the frame cache (default true)
+  signal?: AbortSignal // aborts the render between frames
+  onProgress?: (progress: number, stage: RenderStage, stats: RenderStats) => void
   onStageChange?: (stage: RenderStage) => void
+  onComplete?: (output: RenderOutput) => void
   outputPath?: string
   preview?: boolean
 }
@@ -17,15 +39,29 @@ export interface RenderJob {
   id: string
   project: MotionProject
   options: RenderOptions
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: number
   currentStage: RenderStage
+  stats: RenderStats
+  reusedFrames: number // frames served from the frame cache
   startTime?: Date
   endTime?: Date
   outputUrl?: string
+  output?: RenderOutput
   error?: string
 }
 
+export interface RenderOutput {
+  url: string // stable file URL; file:// for explicit output paths
+  path: string // file the renderer wrote; moved into storage when storageKey is set
+  storageKey?: string
+  format: RenderOptions['format']
+  size: number // bytes
+  duration: number // seconds
+  reusedFrames?: number // frames served from the frame cache
+  warnings?: string[]
+}
+
 export type RenderStage =
   | 'initializing'
   | 'composing'
@@ -37,10 +73,10 @@ export type RenderStage =
 export interface RenderStats {
   totalFrames: number
   renderedFrames: number
-  averageFrameTime: number
-  estimatedTimeRemaining: number
-  memoryUsage: number
-  cpuUsage: number
+  averageFrameTime: number // milliseconds
+  estimatedTimeRemaining: number // seconds
+  memoryUsage: number // resident set size in bytes
+  cpuUsage: number // percent of one core since the render started
 }
 
 export class MotionRenderer {
@@ -49,6 +85,10 @@ export class MotionRenderer {
   private maxConcurrentJobs = 2
   private sceneComposer = getSceneComposer()
   private motionEngine = getMotionEngine()
+  private rasterizer = getFrameRasterizer()
+  private lottieExporter = getLottieExporter()
+  private frameCache = getFrameCache()
+  private storage = getStorage()
 
   // Main rendering method
   async renderProject(
@@ -63,22 +103,47 @@ export class MotionRenderer {
       status: 'pending',
       progress: 0,
       currentStage: 'initializing',
+      stats: {
+        totalFrames: 0,
+        renderedFrames: 0,
+        averageFrameTime: 0,
+        estimatedTimeRemaining: 0,
+        memoryUsage: 0,
+        cpuUsage: 0,
+      },
+      reusedFrames: 0,
       startTime: new Date(),
     }
 
     this.jobs.set(jobId, job)
 
     try {
-      if (options.preview) {
+      this.validateOptions(options)
+      job.status = 'processing'
+      this.activeJobs.add(jobId)
+
+      if (this.isStillFormat(options.format)) {
+        // A single frame renders quickly enough that it never needs a preview
+        return await this.renderStill(job)
+      } else if (options.preview) {
         return await this.renderPreview(job)
+      } else if (options.format === 'lottie') {
+        return await this.renderLottie(job)
       } else {
         return await this.renderFinal(job)
       }
     } catch (error) {
-      job.status = 'failed'
-      job.error = error instanceof Error ? error.message : 'Unknown error'
+      if (this.isCancelled(job)) {
+        job.status = 'cancelled'
+        job.error = 'Cancelled by user'
+      } else {
+        job.status = 'failed'
+        job.error = error instanceof Error ? error.message : 'Unknown error'
+      }
       job.endTime = new Date()
       throw error
+    } finally {
+      this.activeJobs.delete(jobId)
     }
   }
 
@@ -88,154 +153,541 @@ export class MotionRenderer {
     // Generate preview frames (lower quality, fewer frames)
     const previewFrames = Math.min(job.project.duration, 150) // Max 5 seconds at 30fps
     const frameStep = Math.max(1, Math.floor(job.project.duration / previewFrames))
+    const fps = job.project.fps / frameStep
+
+    // ProRes is an intermediate format; preview it as H.264 instead
+    const format = this.getEncoderFormat(job.options.format)
+    const encoder = await this.openEncoder(job, {
+      format: format === 'mov' ? 'mp4' : format,
+      fps,
+      preview: true,
+      resolution: '480p',
+      quality: 'preview',
+    })
 
-    const frames: string[] = []
-
-    for (let frame = 0; frame < job.project.duration; frame += frameStep) {
-      const frameData = await this.renderFrame(job.project, frame, true)
-      frames.push(frameData)
+    try {
+      for (let frame = 0; frame < job.project.duration; frame += frameStep) {
+        this.throwIfCancelled(job)
+        const frameData = await this.renderFrame(job, frame, true)
+        await encoder.writeFrame(frameData)
 
-      const progress = (frame / job.project.duration) * 100
-      this.updateJobProgress(job, progress)
+        const progress = (frame / job.project.duration) * 100
+        this.updateJobProgress(job, progress)
+      }
+    } catch (error) {
+      await encoder.abort()
+      throw error
     }
 
     this.updateJobStage(job, 'finalizing')
 
-    // For preview, return a data URL or temporary URL
-    const previewUrl = await this.createPreviewVideo(frames, job.options)
+    // For preview, return a temporary URL
+    const output = await this.finishOutput(encoder, job, true)
 
-    job.status = 'completed'
-    job.outputUrl = previewUrl
-    job.endTime = new Date()
+    this.completeJob(job, output)
 
-    return previewUrl
+    return output.url
   }
 
   private async renderFinal(job: RenderJob): Promise<string> {
     this.updateJobStage(job, 'composing')
 
-    // Load project into motion engine
-    this.motionEngine.loadProject(job.project)
-
-    const totalFrames = job.project.duration
-    const frames: string[] = []
+    const fps = job.options.fps ?? job.project.fps
+    const range = this.getFrameRange(job)
+    const totalFrames = this.getOutputFrameCount(job.project, range, fps)
+
+    // Image sequences go to a zip of PNGs, everything else through ffmpeg
+    const sink = job.options.format === 'frames'
+      ? await this.openFrameSequence(job, { fps, frameCount: totalFrames, range })
+      : await this.openEncoder(job, {
+        format: this.getEncoderFormat(job.options.format),
+        fps,
+        preview: false,
+        resolution: job.options.resolution,
+        quality: job.options.quality,
+        ...(job.options.maxBitrate ? { maxBitrate: job.options.maxBitrate } : {}),
+      })
 
     this.updateJobStage(job, 'rendering')
 
-    // Render all frames
-    for (let frame = 0; frame < totalFrames; frame++) {
-      const frameData = await this.renderFrame(job.project, frame, false)
-      frames.push(frameData)
+    const startTime = Date.now()
+    const startCpu = process.cpuUsage()
 
-      const progress = (frame / totalFrames) * 80 // 80% for rendering
-      this.updateJobProgress(job, progress)
-
-      job.options.onProgress?.(progress, 'rendering')
+    // Render all frames, streaming each one into the output
+    try {
+      for (let frame = 0; frame < totalFrames; frame++) {
+        this.throwIfCancelled(job)
+        const projectFrame = this.toProjectFrame(job.project, range, frame, fps)
+        const frameData = await this.renderFrame(job, projectFrame)
+        await sink.writeFrame(frameData, projectFrame)
+
+        this.updateJobStats(job, frame + 1, totalFrames, startTime, startCpu)
+        this.updateJobProgress(job, ((frame + 1) / totalFrames) * 80) // 80% for rendering
+      }
+    } catch (error) {
+      await sink.abort()
+      throw error
     }
 
     this.updateJobStage(job, 'encoding')
 
-    // Encode video
-    const videoUrl = await this.encodeVideo(frames, job.options)
+    // Flush the encoder (or pack the archive) and collect the finished file
+    const video = await this.finishOutput(sink, job, false)
+
+    this.checkFileSize(video, job.options.maxFileSize)
+    this.addExpressionWarnings(video, job.project)
 
     this.updateJobProgress(job, 90)
 
     this.updateJobStage(job, 'optimizing')
 
-    // Optimize output
-    const optimizedUrl = await this.optimizeOutput(videoUrl, job.options)
+    // GIFs are palette-optimized while encoding and PNGs are compressed as they
+    // are written, so the only work left is keeping the frame cache in budget
+    await this.frameCache.prune().catch(error => {
+      console.warn('Failed to prune frame cache:', error)
+    })
+    this.updateJobProgress(job, 100)
+
+    this.updateJobStage(job, 'finalizing')
+
+    this.completeJob(job, video)
+
+    return video.url
+  }
+
+  private async renderStill(job: RenderJob): Promise<string> {
+    this.updateJobStage(job, 'composing')
+
+    const frame = this.getStillFrame(job)
+    const format = job.options.format === 'jpeg' ? 'jpeg' : 'png'
+
+    this.throwIfCancelled(job)
+    this.updateJobStage(job, 'rendering')
+
+    const frameData = await this.renderFrame(job, frame)
+
+    this.updateJobProgress(job, 80)
+
+    this.updateJobStage(job, 'encoding')
+
+    const dimensions = this.getOutputDimensions(job.project, job.options.resolution, job.options.aspectRatio)
+    const padding = this.getPadding(job, dimensions)
+    const image = await this.rasterizer.encodeImage(frameData, {
+      format,
+      width: dimensions.width,
+      height: dimensions.height,
+      quality: this.getJpegQuality(job.options.quality),
+      ...(padding ? { padding } : {}),
+    })
+
+    const outputPath = this.getOutputPath(job, format === 'jpeg' ? 'jpg' : 'png', false)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, image)
 
     this.updateJobProgress(job, 100)
 
     this.updateJobStage(job, 'finalizing')
 
-    job.status = 'completed'
-    job.outputUrl = optimizedUrl
-    job.endTime = new Date()
+    const output: RenderOutput = {
+      ...await this.storeOutput(job, outputPath, false),
+      path: outputPath,
+      format: job.options.format,
+      size: image.length,
+      duration: 0,
+      reusedFrames: job.reusedFrames,
+    }
+    this.checkFileSize(output, job.options.maxFileSize)
+    this.addExpressionWarnings(output, job.project)
+    this.completeJob(job, output)
+
+    return output.url
+  }
+
+  private async renderLottie(job: RenderJob): Promise<string> {
+    this.updateJobStage(job, 'composing')
+
+    // Lottie is exported from the project structure, not from rendered frames
+    const { animation, warnings } = this.lottieExporter.exportProject(job.project)
+
+    this.updateJobProgress(job, 50)
+
+    this.updateJobStage(job, 'encoding')
+
+    const outputPath = this.getOutputPath(job, 'json', false)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, JSON.stringify(animation))
+    const stats = await fs.stat(outputPath)
+
+    this.updateJobProgress(job, 100)
+
+    this.updateJobStage(job, 'finalizing')
+
+    warnings.forEach(warning => {
+      console.warn(`Lottie export: ${warning.message}`)
+    })
+
+    const output: RenderOutput = {
+      ...await this.storeOutput(job, outputPath, false),
+      path: outputPath,
+      format: 'lottie',
+      size: stats.size,
+      duration: job.project.duration / job.project.fps,
+      warnings: warnings.map(warning => warning.message),
+    }
+    this.checkFileSize(output, job.options.maxFileSize)
+    this.addExpressionWarnings(output, job.project)
+    this.completeJob(job, output)
 
-    return optimizedUrl
+    return output.url
   }
 
   private async renderFrame(
-    project: MotionProject,
+    job: RenderJob,
     frame: number,
     preview: boolean = false
-  ): Promise<string> {
-    // Find active scene at this frame
-    const activeScene = this.findActiveScene(project, frame)
-    if (!activeScene) {
-      return this.createBlankFrame(project.width, project.height)
+  ): Promise<FrameBuffer> {
+    const options = this.getRasterizeOptions(job, preview)
+
+    // Compose the active scene, or both scenes during a cross transition
+    const composition = this.sceneComposer.composeFrame(job.project, frame)
+    if (!composition) {
+      return this.rasterizer.rasterizeBlank(options)
     }
 
-    // Compose the scene
-    const composition = this.sceneComposer.composeScene(activeScene, frame)
+    // Identical compositions rasterize to identical pixels, so reuse them
+    const hash = !preview && job.options.cache !== false
+      ? this.frameCache.hashComposition(composition, options)
+      : null
+    if (hash) {
+      const cached = await this.frameCache.get(hash)
+      if (cached) {
+        job.reusedFrames++
+        return cached
+      }
+    }
 
-    // Render composition to canvas/image data
-    const frameData = await this.renderComposition(composition, preview)
+    // Rasterize the composition into an RGBA frame buffer
+    const frameData = await this.rasterizer.rasterizeFrame(composition, options)
+    if (hash) {
+      await this.frameCache.set(hash, frameData)
+    }
 
     return frameData
   }
 
-  private findActiveScene(project: MotionProject, frame: number): MotionScene | null {
-    return project.scenes.find(scene =>
-      frame >= scene.startFrame && frame <= scene.endFrame
-    ) || null
+  private getRasterizeOptions(job: RenderJob, preview: boolean): RasterizeOptions {
+    return {
+      width: job.project.width,
+      height: job.project.height,
+      backgroundColor: job.project.backgroundColor,
+      scale: preview ? 0.5 : 1,
+      // Previews are always opaque so they play everywhere
+      transparent: !preview && job.options.alpha === true,
+    }
+  }
+
+  // Encoding
+  private async openEncoder(
+    job: RenderJob,
+    settings: {
+      format: EncoderFormat
+      fps: number
+      preview: boolean
+      resolution: RenderOptions['resolution']
+      quality: RenderOptions['quality']
+      maxBitrate?: string
+    }
+  ): Promise<FrameSink> {
+    const { project } = job
+    // Previews are rasterized at half size (see getRasterizeOptions)
+    const inputScale = settings.preview ? 0.5 : 1
+    // Previews keep the project's shape
+    const output = settings.preview
+      ? this.getOutputDimensions(project, settings.resolution)
+      : this.getOutputDimensions(project, settings.resolution, job.options.aspectRatio)
+    const padding = settings.preview ? undefined : this.getPadding(job, output)
+
+    const encoder = createEncoder({
+      format: settings.format,
+      outputPath: this.getOutputPath(job, settings.format, settings.preview),
+      inputWidth: Math.max(1, Math.round(project.width * inputScale)),
+      inputHeight: Math.max(1, Math.round(project.height * inputScale)),
+      outputWidth: output.width,
+      outputHeight: output.height,
+      fps: settings.fps,
+      quality: this.capBitrate(this.getQualitySettings(settings.quality), settings.maxBitrate),
+      // Previews are always opaque so they play everywhere
+      alpha: !settings.preview && job.options.alpha === true,
+      ...(padding ? { padding } : {}),
+    })
+
+    await encoder.start()
+    return encoder
+  }
+
+  private async openFrameSequence(
+    job: RenderJob,
+    settings: {
+      fps: number
+      frameCount: number
+      range: { start: number; end: number }
+    }
+  ): Promise<FrameSink> {
+    const { project } = job
+    const output = this.getOutputDimensions(project, job.options.resolution, job.options.aspectRatio)
+    const padding = this.getPadding(job, output)
+
+    const sequence = createFrameSequence({
+      outputPath: this.getOutputPath(job, 'zip', false),
+      inputWidth: project.width,
+      inputHeight: project.height,
+      outputWidth: output.width,
+      outputHeight: output.height,
+      fps: settings.fps,
+      frameCount: settings.frameCount,
+      ...(job.options.spriteSheet ? { spriteSheet: job.options.spriteSheet } : {}),
+      ...(padding ? { padding } : {}),
+      metadata: {
+        projectId: project.id,
+        title: project.title,
+        startFrame: settings.range.start,
+        endFrame: settings.range.end,
+      },
+    })
+
+    await sequence.start()
+    return sequence
+  }
+
+  private async finishOutput(
+    sink: FrameSink,
+    job: RenderJob,
+    preview: boolean
+  ): Promise<RenderOutput> {
+    const result = await sink.finish()
+
+    return {
+      ...await this.storeOutput(job, result.path, preview),
+      path: result.path,
+      format: job.options.format,
+      size: result.size,
+      duration: result.duration,
+      ...(preview ? {} : { reusedFrames: job.reusedFrames }),
+    }
+  }
+
+  private getEncoderFormat(format: RenderOptions['format']): EncoderFormat {
+    return format === 'webm' || format === 'gif' || format === 'mov' ? format : 'mp4'
+  }
+
+  private isStillFormat(format: RenderOptions['format']): boolean {
+    return format === 'png' || format === 'jpeg'
+  }
+
+  private validateOptions(options: RenderOptions): void {
+    const imageOutput = options.format === 'frames' || options.format === 'png'
+    if (options.alpha && !options.preview && !imageOutput &&
+      !supportsAlpha(this.getEncoderFormat(options.format))) {
+      throw new Error(`Alpha renders require mov, webm, png or frames output, not ${options.format}`)
+    }
+    if (options.frame !== undefined && !this.isStillFormat(options.format)) {
+      throw new Error(`A single frame can only be rendered as png or jpeg, not ${options.format}`)
+    }
+  }
+
+  private getOutputPath(job: RenderJob, extension: string, preview: boolean): string {
+    if (job.options.outputPath && !preview) {
+      return job.options.outputPath
+    }
+
+    return path.join(this.getOutputBaseDir(), preview ? 'previews' : 'videos', `${job.id}.${extension}`)
+  }
+
+  // Hand a finished file to storage. Explicit output paths (render chunks) are
+  // working files and stay where they were written; see storeChunk.
+  private async storeOutput(
+    job: RenderJob,
+    filePath: string,
+    preview: boolean
+  ): Promise<{ url: string; storageKey?: string }> {
+    if (job.options.outputPath && !preview) {
+      return { url: pathToFileURL(filePath).href }
+    }
+
+    const key = `${preview ? 'previews' : 'videos'}/${path.basename(filePath)}`
+    const stored = await this.storage.putFile(key, filePath)
+    return { url: stored.url, storageKey: stored.key }
+  }
+
+  private getOutputBaseDir(): string {
+    return process.env['RENDER_OUTPUT_DIR'] || path.join(process.cwd(), 'uploads', 'renders')
   }
 
-  private async renderComposition(composition: any, preview: boolean): Promise<string> {
-    // This would integrate with Remotion or canvas rendering
-    // For now, return a placeholder
-    return `data:image/png;base64,${this.generatePlaceholderFrame()}`
+  // Chunked rendering
+  canRenderInChunks(format: RenderOptions['format']): boolean {
+    return format === 'mp4' || format === 'webm' || format === 'mov'
   }
 
-  private createBlankFrame(width: number, height: number): string {
-    // Create a blank frame
-    return `data:image/png;base64,${this.generatePlaceholderFrame()}`
+  getChunkOutputPath(renderId: string, chunkIndex: number, format: RenderOptions['format']): string {
+    const fileName = `chunk_${String(chunkIndex).padStart(4, '0')}.${this.getEncoderFormat(format)}`
+    return path.join(this.getOutputBaseDir(), 'chunks', renderId, fileName)
   }
 
-  private generatePlaceholderFrame(): string {
-    // Generate a base64 encoded placeholder frame
-    return 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+  // Chunks may render on different workers than their concat, so each one is
+  // handed to storage and fetched back before assembly
+  async storeChunk(renderId: string, output: RenderOutput): Promise<RenderOutput> {
+    const stored = await this.storage.putFile(`chunks/${renderId}/${path.basename(output.path)}`, output.path)
+    return { ...output, url: stored.url, storageKey: stored.key }
   }
 
-  private async createPreviewVideo(frames: string[], options: RenderOptions): Promise<string> {
-    // Create a preview video from frames
-    // This would use FFmpeg or similar
-    return `/api/previews/${this.generateId()}.${options.format}`
+  async concatChunks(
+    renderId: string,
+    chunks: RenderOutput[],
+    format: RenderOptions['format'],
+    maxFileSize?: number
+  ): Promise<RenderOutput> {
+    if (!this.canRenderInChunks(format)) {
+      throw new Error(`${format} renders cannot be assembled from chunks`)
+    }
+
+    const chunkPaths: string[] = []
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+      const chunk = chunks[chunkIndex]!
+      if (!chunk.storageKey) {
+        throw new Error(`Chunk ${chunkIndex} was not stored`)
+      }
+      const chunkPath = this.getChunkOutputPath(renderId, chunkIndex, format)
+      await this.storage.getFile(chunk.storageKey, chunkPath)
+      chunkPaths.push(chunkPath)
+    }
+
+    const encoderFormat = this.getEncoderFormat(format)
+    const outputPath = path.join(this.getOutputBaseDir(), 'videos', `${this.generateId()}.${encoderFormat}`)
+    const result = await concatVideos(chunkPaths, outputPath, encoderFormat)
+    const stored = await this.storage.putFile(`videos/${path.basename(result.path)}`, result.path)
+
+    const output: RenderOutput = {
+      url: stored.url,
+      path: result.path,
+      storageKey: stored.key,
+      format,
+      size: result.size,
+      duration: chunks.reduce((total, chunk) => total + chunk.duration, 0),
+      reusedFrames: chunks.reduce((total, chunk) => total + (chunk.reusedFrames ?? 0), 0),
+    }
+    // Each chunk reports its own warnings; identical ones are listed once
+    const warnings = new Set(chunks.flatMap(chunk => chunk.warnings ?? []))
+    if (warnings.size > 0) {
+      output.warnings = Array.from(warnings)
+    }
+    this.checkFileSize(output, maxFileSize)
+
+    return output
+  }
+
+  // Failed expressions render with their animated values; say which ones
+  private addExpressionWarnings(output: RenderOutput, project: MotionProject): void {
+    const errors = this.motionEngine.getExpressionErrors(project)
+    if (errors.length === 0) return
+
+    output.warnings = [
+      ...(output.warnings ?? []),
+      ...errors.map(error =>
+        `Expression on ${error.elementId}.${error.property} failed at frame ${error.frame}: ${error.message}`
+      ),
+    ]
   }
 
-  private async encodeVideo(frames: string[], options: RenderOptions): Promise<string> {
-    // Encode frames into video using FFmpeg
-    const { format, quality, resolution } = options
-    const dimensions = this.getResolutionDimensions(resolution)
-    const qualitySettings = this.getQualitySettings(quality)
+  // Platform limits are advisory here; presets are validated before queueing
+  private checkFileSize(output: RenderOutput, maxFileSize: number | undefined): void {
+    if (maxFileSize === undefined || output.size <= maxFileSize) return
+
+    const warning = `Output is ${output.size} bytes, over the ${maxFileSize} byte limit`
+    console.warn(`Render output ${output.path}: ${warning}`)
+    output.warnings = [...(output.warnings ?? []), warning]
+  }
+
+  // Removes stored chunks and this worker's working copies
+  async removeChunks(renderId: string): Promise<void> {
+    await this.storage.deletePrefix(`chunks/${renderId}`)
+    await fs.rm(path.join(this.getOutputBaseDir(), 'chunks', renderId), { recursive: true, force: true })
+  }
 
-    // This would call FFmpeg with appropriate settings
-    return `/api/videos/${this.generateId()}.${format}`
+  getOutputDimensions(
+    project: MotionProject,
+    resolution: string,
+    aspectRatio?: { width: number; height: number }
+  ): { width: number; height: number } {
+    const shape = aspectRatio ?? { width: project.width, height: project.height }
+
+    // Resolution names describe landscape frames; portrait outputs use the same box rotated
+    const box = this.getResolutionDimensions(resolution)
+    const portrait = shape.height > shape.width
+    const maxWidth = portrait ? box.height : box.width
+    const maxHeight = portrait ? box.width : box.height
+    const scale = Math.min(maxWidth / shape.width, maxHeight / shape.height)
+
+    // H.264 and VP9 with 4:2:0 chroma need even dimensions
+    return {
+      width: Math.max(2, Math.round((shape.width * scale) / 2) * 2),
+      height: Math.max(2, Math.round((shape.height * scale) / 2) * 2),
+    }
   }
 
-  private async optimizeOutput(videoUrl: string, options: RenderOptions): Promise<string> {
-    // Optimize the output video
-    if (options.format === 'gif') {
-      return this.optimizeGif(videoUrl)
-    } else if (options.format === 'lottie') {
-      return this.generateLottie(videoUrl)
+  // Outputs shaped differently from the project are padded, never cropped or stretched
+  private getPadding(job: RenderJob, output: { width: number; height: number }): FramePadding | undefined {
+    if (isSameAspect(job.project.width, job.project.height, output.width, output.height)) {
+      return undefined
+    }
+    if (job.options.padding) {
+      return job.options.padding
     }
+    // Transparent renders get transparent bars
+    return { mode: 'bars', color: job.options.alpha ? '#00000000' : '#000000' }
+  }
 
-    return videoUrl
+  private getStillFrame(job: RenderJob): number {
+    const lastFrame = Math.max(0, job.project.duration - 1)
+    const frame = job.options.frame ?? job.options.startFrame ?? 0
+    return Math.min(lastFrame, Math.max(0, Math.floor(frame)))
   }
 
-  private async optimizeGif(videoUrl: string): Promise<string> {
-    // Convert video to optimized GIF
-    return videoUrl.replace('.mp4', '.gif')
+  private getFrameRange(job: RenderJob): { start: number; end: number } {
+    const lastFrame = Math.max(0, job.project.duration - 1)
+    const start = Math.min(lastFrame, Math.max(0, Math.floor(job.options.startFrame ?? 0)))
+    const end = Math.min(lastFrame, Math.max(start, Math.floor(job.options.endFrame ?? lastFrame)))
+    return { start, end }
   }
 
-  private async generateLottie(videoUrl: string): Promise<string> {
-    // Generate Lottie animation from video
-    return videoUrl.replace('.mp4', '.json')
+  private getOutputFrameCount(
+    project: MotionProject,
+    range: { start: number; end: number },
+    fps: number
+  ): number {
+    return Math.max(1, Math.round(((range.end - range.start + 1) * fps) / project.fps))
+  }
+
+  private toProjectFrame(
+    project: MotionProject,
+    range: { start: number; end: number },
+    outputFrame: number,
+    fps: number
+  ): number {
+    return Math.min(range.end, range.start + Math.floor((outputFrame * project.fps) / fps))
   }
 
   // Job management
+  private isCancelled(job: RenderJob): boolean {
+    return job.status === 'cancelled' || job.options.signal?.aborted === true
+  }
+
+  private throwIfCancelled(job: RenderJob): void {
+    // Callers abort their output sink on the way out, removing partial files
+    if (this.isCancelled(job)) {
+      throw new Error('Render cancelled')
+    }
+  }
+
   private updateJobStage(job: RenderJob, stage: RenderStage): void {
     job.currentStage = stage
     job.options.onStageChange?.(stage)
@@ -243,6 +695,37 @@ export class MotionRenderer {
 
   private updateJobProgress(job: RenderJob, progress: number): void {
     job.progress = Math.min(100, Math.max(0, progress))
+    job.options.onProgress?.(job.progress, job.currentStage, job.stats)
+  }
+
+  private updateJobStats(
+    job: RenderJob,
+    renderedFrames: number,
+    totalFrames: number,
+    startTime: number,
+    startCpu: NodeJS.CpuUsage
+  ): void {
+    const elapsed = Math.max(1, Date.now() - startTime)
+    const cpu = process.cpuUsage(startCpu)
+    const averageFrameTime = elapsed / renderedFrames
+
+    job.stats = {
+      totalFrames,
+      renderedFrames,
+      averageFrameTime,
+      estimatedTimeRemaining: (averageFrameTime * (totalFrames - renderedFrames)) / 1000,
+      memoryUsage: process.memoryUsage().rss,
+      // cpuUsage reports microseconds
+      cpuUsage: ((cpu.user + cpu.system) / 1000 / elapsed) * 100,
+    }
+  }
+
+  private completeJob(job: RenderJob, output: RenderOutput): void {
+    job.status = 'completed'
+    job.outputUrl = output.url
+    job.output = output
+    job.endTime = new Date()
+    job.options.onComplete?.(output)
   }
 
   // Utility methods
@@ -282,6 +765,32 @@ export class MotionRenderer {
     }
   }
 
+  private capBitrate<T extends { bitrate: string }>(quality: T, maxBitrate: string | undefined): T {
+    if (!maxBitrate || !(parseBitrate(maxBitrate) < parseBitrate(quality.bitrate))) {
+      return quality
+    }
+    return { ...quality, bitrate: maxBitrate }
+  }
+
+  getJpegQuality(quality: string): number {
+    switch (quality) {
+      case 'draft':
+        return 60
+      case 'preview':
+        return 70
+      case 'low':
+        return 75
+      case 'medium':
+        return 85
+      case 'high':
+        return 92
+      case 'ultra':
+        return 98
+      default:
+        return 85
+    }
+  }
+
   private generateId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36)
   }
@@ -297,8 +806,9 @@ export class MotionRenderer {
 
   cancelJob(jobId: string): boolean {
     const job = this.jobs.get(jobId)
-    if (job && job.status === 'processing') {
-      job.status = 'failed'
+    if (job && (job.status === 'pending' || job.status === 'processing')) {
+      // The render loop notices between frames and cleans up its output
+      job.status = 'cancelled'
       job.error = 'Cancelled by user'
       job.endTime = new Date()
       this.activeJobs.delete(jobId)
@@ -309,7 +819,7 @@ export class MotionRenderer {
 
   clearCompletedJobs(): void {
     for (const [jobId, job] of this.jobs.entries()) {
-      if (job.status === 'completed' || job.status === 'failed') {
+      if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
         this.jobs.delete(jobId)
       }
     }
@@ -1,12 +1,25 @@
-import { MotionScene, MotionElement, SceneTransition, MotionProject } from './core'
+import { MotionScene, MotionElement, SceneTransition, MotionProject, SceneBackground, TransitionType } from './core'
 import { getMotionEngine } from './core'
+import { getTransitionSystem, TransitionPixelFunction } from './transitions'
+import { LumaMapOptions } from './luma-maps'
 
 export interface CompositionLayer {
   element: MotionElement
-  computedProperties: any
+  computedProperties: any // in scene space once parents are applied
+  transform: AffineTransform // element pivot to scene space
   visible: boolean
   blendMode: BlendMode
   mask?: MaskSettings
+  children?: CompositionLayer[] // group layers only; these layers also appear in layers
+}
+
+// SVG matrix order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type AffineTransform = [number, number, number, number, number, number]
+
+interface ResolvedElement {
+  properties: any
+  transform: AffineTransform
+  active: boolean // inside its own and every ancestor's time range, and visible
 }
 
 export type BlendMode = 
@@ -33,6 +46,7 @@ export interface MaskSettings {
 
 export interface SceneComposition {
   scene: MotionScene
+  background: SceneBackground // scene background at this frame
   layers: CompositionLayer[]
   activeTransitions: ActiveTransition[]
   frame: number
@@ -48,21 +62,114 @@ export interface ActiveTransition {
   toScene?: MotionScene
 }
 
+// Both scenes on screen during a cross transition. Each scene is rendered on
+// its own, then placed, masked and blended by the transition effect's output.
+export interface CrossSceneComposition {
+  transition: SceneTransition
+  progress: number // linear progress through the transition window
+  from: SceneComposition
+  to: SceneComposition
+  fromState: SceneState
+  toState: SceneState
+  fromOnTop: boolean // the outgoing scene is drawn over the incoming one
+  blendMode: BlendMode // how the upper scene composites onto the lower
+  pixel?: PixelTransition // set for plugins with a pixel function
+  frame: number
+  timestamp: number
+}
+
+export type FrameComposition = SceneComposition | CrossSceneComposition
+
+export interface PixelTransition {
+  type: TransitionType
+  run: TransitionPixelFunction // resolved from the rendered project's plugins
+  progress: number // eased
+  parameters: Record<string, any>
+  version?: string
+}
+
+// A whole scene as one frame-sized element, as TransitionEffect.apply sees it
+export interface SceneState {
+  position: { x: number; y: number }
+  scale: { x: number; y: number }
+  rotation: { x: number; y: number; z: number }
+  opacity: number
+  anchor: { x: number; y: number }
+  size: { width: number; height: number }
+  perspective?: number // pixels from the viewer, for x and y rotation
+  mask?: TransitionMask
+  dissolve?: { progress: number; noiseScale: number; threshold: number; inverted?: boolean }
+}
+
+export interface TransitionMask {
+  type: 'wipe' | 'reveal' | 'iris' | 'luma'
+  progress?: number
+  direction?: string
+  softness?: number
+  inverted?: boolean
+  shape?: 'circle' | 'ellipse' | 'square' | 'diamond'
+  center?: { x: number; y: number }
+  radius?: number // iris: 1 reaches the farthest corner
+  source?: string // luma: bundled map name or image source
+  mapOptions?: LumaMapOptions // luma: shape of a bundled map
+}
+
+// The frames two adjacent scenes are blended over. Overlapping scenes blend
+// across the overlap; back-to-back scenes blend across a window centred on the
+// cut, holding the outgoing scene's last frame and the incoming scene's first.
+interface CrossWindow {
+  transition: SceneTransition
+  from: MotionScene
+  to: MotionScene
+  start: number
+  end: number // exclusive
+}
+
+export function isCrossSceneComposition(composition: FrameComposition): composition is CrossSceneComposition {
+  return 'from' in composition && 'to' in composition
+}
+
 export class SceneComposer {
   private motionEngine = getMotionEngine()
+  private transitionSystem = getTransitionSystem()
   private compositionCache = new Map<string, SceneComposition>()
   private maxCacheSize = 100
+  // Cache keys are per project object, so renders running side by side (and
+  // re-renders of an edited project) never share compositions
+  private projectKeys = new WeakMap<MotionProject, number>()
+  private nextProjectKey = 0
+
+  // Everything on screen at a project frame: one scene, both sides of a cross
+  // transition, or nothing in a gap between scenes
+  composeFrame(project: MotionProject, frame: number): FrameComposition | null {
+    const scenes = this.getSceneOrder(project)
+
+    for (let i = 0; i < scenes.length - 1; i++) {
+      const window = this.getCrossWindow(scenes[i]!, scenes[i + 1]!)
+      if (window && frame >= window.start && frame < window.end) {
+        return this.composeCrossScene(project, window, frame)
+      }
+    }
+
+    // On a frame two scenes share, the one starting there wins
+    const active = scenes.filter(scene => frame >= scene.startFrame && frame <= scene.endFrame).pop()
+    return active ? this.composeScene(active, frame, project) : null
+  }
 
   // Main composition method
-  composeScene(scene: MotionScene, frame: number): SceneComposition {
-    const cacheKey = `${scene.id}-${frame}`
+  composeScene(
+    scene: MotionScene,
+    frame: number,
+    project: MotionProject | null = this.motionEngine.getProject()
+  ): SceneComposition {
+    const cacheKey = `${scene.id}-${frame}-${this.getProjectKey(project)}`
     
     // Check cache first
     if (this.compositionCache.has(cacheKey)) {
       return this.compositionCache.get(cacheKey)!
     }
 
-    const composition = this.createComposition(scene, frame)
+    const composition = this.createComposition(scene, frame, project)
     
     // Cache the composition
     this.cacheComposition(cacheKey, composition)
@@ -70,33 +177,44 @@ export class SceneComposer {
     return composition
   }
 
-  private createComposition(scene: MotionScene, frame: number): SceneComposition {
-    // Filter elements that are active at this frame
-    const activeElements = scene.elements.filter(element => 
-      frame >= element.startFrame && frame <= element.endFrame && element.visible
-    )
+  private createComposition(scene: MotionScene, frame: number, project: MotionProject | null): SceneComposition {
+    const elementsById = new Map(scene.elements.map(element => [element.id, element]))
+    const resolved = new Map<string, ResolvedElement>()
 
-    // Sort elements by layer (higher layer = rendered on top)
-    activeElements.sort((a, b) => a.layer - b.layer)
+    // Layers in paint order; elements inactive at this frame are left out
+    const layers: CompositionLayer[] = []
+    const layersById = new Map<string, CompositionLayer>()
 
-    // Create composition layers
-    const layers: CompositionLayer[] = activeElements.map(element => {
-      const computedProperties = this.motionEngine.calculateElementPropertiesAtFrame(element, frame)
-      
-      return {
+    for (const element of this.getPaintOrder(scene, elementsById)) {
+      const { properties, transform, active } = this.resolveElement(project, element, frame, elementsById, resolved, new Set())
+      if (!active) continue
+
+      const mask = this.getElementMask(element, frame)
+      const layer: CompositionLayer = {
         element,
-        computedProperties,
-        visible: this.isElementVisible(element, frame),
+        computedProperties: properties,
+        transform,
+        visible: this.isElementVisible(element, frame, properties),
         blendMode: this.getElementBlendMode(element),
-        mask: this.getElementMask(element, frame),
+        ...(mask ? { mask } : {}),
+        ...(element.type === 'group' ? { children: [] } : {}),
       }
-    })
+      layers.push(layer)
+      layersById.set(element.id, layer)
+    }
+
+    // Groups hold the layers painted inside them
+    for (const layer of layers) {
+      const group = this.getContainingGroup(layer.element, elementsById)
+      if (group) layersById.get(group)?.children?.push(layer)
+    }
 
     // Calculate active transitions
-    const activeTransitions = this.calculateActiveTransitions(scene, frame)
+    const activeTransitions = this.calculateActiveTransitions(scene, frame, project)
 
     return {
       scene,
+      background: this.motionEngine.calculateBackgroundAtFrame(scene, frame, project),
       layers,
       activeTransitions,
       frame,
@@ -104,14 +222,125 @@ export class SceneComposer {
     }
   }
 
-  private isElementVisible(element: MotionElement, frame: number): boolean {
+  // Parenting
+  // Top-level elements sorted by layer (higher layer = rendered on top), with
+  // each group's children painted in the group's place. Parents that are not
+  // groups only lend their transform, so their children keep their own layer.
+  private getPaintOrder(scene: MotionScene, elementsById: Map<string, MotionElement>): MotionElement[] {
+    const byContainer = new Map<string | null, MotionElement[]>()
+    for (const element of scene.elements) {
+      const container = this.getContainingGroup(element, elementsById)
+      const siblings = byContainer.get(container) ?? []
+      siblings.push(element)
+      byContainer.set(container, siblings)
+    }
+
+    const order: MotionElement[] = []
+    const visit = (container: string | null) => {
+      const siblings = [...(byContainer.get(container) ?? [])].sort((a, b) => a.layer - b.layer)
+      for (const element of siblings) {
+        order.push(element)
+        if (element.type === 'group') visit(element.id)
+      }
+    }
+    visit(null)
+
+    return order
+  }
+
+  // Nearest group ancestor, or null for the scene itself
+  private getContainingGroup(element: MotionElement, elementsById: Map<string, MotionElement>): string | null {
+    const seen = new Set([element.id])
+    let parent = this.getParent(element, elementsById)
+
+    while (parent && !seen.has(parent.id)) {
+      if (parent.type === 'group') return parent.id
+      seen.add(parent.id)
+      parent = this.getParent(parent, elementsById)
+    }
+
+    return null
+  }
+
+  private getParent(element: MotionElement, elementsById: Map<string, MotionElement>): MotionElement | undefined {
+    return element.parentId && element.parentId !== element.id
+      ? elementsById.get(element.parentId)
+      : undefined
+  }
+
+  private resolveElement(
+    project: MotionProject | null,
+    element: MotionElement,
+    frame: number,
+    elementsById: Map<string, MotionElement>,
+    resolved: Map<string, ResolvedElement>,
+    chain: Set<string>
+  ): ResolvedElement {
+    const cached = resolved.get(element.id)
+    if (cached) return cached
+
+    const local = this.motionEngine.calculateElementPropertiesAtFrame(element, frame, project)
+    const localTransform = this.getLocalTransform(local)
+    const active = frame >= element.startFrame && frame <= element.endFrame && element.visible
+
+    // Parent cycles are broken by treating the element as top-level
+    chain.add(element.id)
+    const parentElement = this.getParent(element, elementsById)
+    const parent = parentElement && !chain.has(parentElement.id)
+      ? this.resolveElement(project, parentElement, frame, elementsById, resolved, chain)
+      : null
+
+    let result: ResolvedElement
+    if (!parent) {
+      result = { properties: local, transform: localTransform, active }
+    } else {
+      const transform = multiplyTransforms(parent.transform, localTransform)
+      const [a, b, c, d, e, f] = transform
+      const scaleX = Math.hypot(a, b)
+
+      result = {
+        properties: {
+          ...local,
+          position: { ...local.position, x: e, y: f },
+          rotation: { ...local.rotation, z: (Math.atan2(b, a) * 180) / Math.PI },
+          scale: { ...local.scale, x: scaleX, y: scaleX === 0 ? 0 : (a * d - b * c) / scaleX },
+          opacity: (local.opacity ?? 1) * (parent.properties.opacity ?? 1),
+          // Exact transform, for parents whose scale and rotation combine into a skew
+          worldTransform: transform,
+        },
+        transform,
+        active: active && parent.active,
+      }
+    }
+
+    resolved.set(element.id, result)
+    return result
+  }
+
+  private getLocalTransform(properties: any): AffineTransform {
+    const radians = ((properties.rotation?.z ?? 0) * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const scaleX = properties.scale?.x ?? 1
+    const scaleY = properties.scale?.y ?? 1
+
+    return [
+      cos * scaleX,
+      sin * scaleX,
+      -sin * scaleY,
+      cos * scaleY,
+      properties.position?.x ?? 0,
+      properties.position?.y ?? 0,
+    ]
+  }
+
+  private isElementVisible(element: MotionElement, frame: number, properties: any): boolean {
     // Check if element is within its time range
     if (frame < element.startFrame || frame > element.endFrame) {
       return false
     }
 
     // Check opacity
-    const properties = this.motionEngine.calculateElementPropertiesAtFrame(element, frame)
     if (properties.opacity <= 0) {
       return false
     }
@@ -149,10 +378,18 @@ export class SceneComposer {
     }
   }
 
-  private calculateActiveTransitions(scene: MotionScene, frame: number): ActiveTransition[] {
+  private calculateActiveTransitions(
+    scene: MotionScene,
+    frame: number,
+    project: MotionProject | null
+  ): ActiveTransition[] {
     const activeTransitions: ActiveTransition[] = []
+    const nextScene = this.getNextScene(scene, project)
 
     scene.transitions.forEach(transition => {
+      // Cross transitions into a following scene are composed by composeFrame
+      if (nextScene && this.motionEngine.isCrossTransition(transition)) return
+
       const startFrame = this.getTransitionStartFrame(transition, scene)
       const endFrame = startFrame + transition.duration
 
@@ -164,8 +401,8 @@ export class SceneComposer {
           progress,
           startFrame,
           endFrame,
-          fromScene: this.getPreviousScene(scene),
-          toScene: this.getNextScene(scene),
+          fromScene: this.getPreviousScene(scene, project),
+          toScene: nextScene,
         })
       }
     })
@@ -185,16 +422,79 @@ export class SceneComposer {
     }
   }
 
-  private getPreviousScene(currentScene: MotionScene): MotionScene | undefined {
-    const project = this.motionEngine.getProject()
+  // Cross-scene transitions
+  private composeCrossScene(project: MotionProject, window: CrossWindow, frame: number): CrossSceneComposition {
+    const { transition, from, to } = window
+    const progress = (frame - window.start + 1) / (window.end - window.start + 1)
+
+    // Outside its own range a scene holds its nearest frame
+    const fromComposition = this.composeScene(from, Math.min(Math.max(frame, from.startFrame), from.endFrame), project)
+    const toComposition = this.composeScene(to, Math.min(Math.max(frame, to.startFrame), to.endFrame), project)
+
+    const sceneState = (): SceneState => ({
+      position: { x: 0, y: 0 },
+      scale: { x: 1, y: 1 },
+      rotation: { x: 0, y: 0, z: 0 },
+      opacity: 1,
+      anchor: { x: 0.5, y: 0.5 },
+      size: { width: project.width, height: project.height },
+    })
+
+    // Slides and pushes travel one frame width (or height) unless told otherwise
+    const vertical = ['up', 'down'].includes(transition.parameters?.['direction'])
+    const result = this.transitionSystem.applyTransition(
+      { ...transition, parameters: { distance: vertical ? project.height : project.width, ...transition.parameters } },
+      progress,
+      sceneState(),
+      sceneState(),
+      project.fps,
+      project
+    )
+
+    return {
+      transition,
+      progress,
+      from: fromComposition,
+      to: toComposition,
+      fromState: { ...sceneState(), ...result?.from },
+      toState: { ...sceneState(), ...result?.to },
+      fromOnTop: result?.order === 'from-on-top',
+      blendMode: result?.blend?.mode ?? 'normal',
+      ...(result?.pixel ? { pixel: { type: transition.type, ...result.pixel } } : {}),
+      frame,
+      timestamp: Date.now(),
+    }
+  }
+
+  private getCrossWindow(from: MotionScene, to: MotionScene): CrossWindow | null {
+    const transition = from.transitions.find(candidate => this.motionEngine.isCrossTransition(candidate))
+    if (!transition) return null
+
+    if (to.startFrame < from.endFrame) {
+      return { transition, from, to, start: to.startFrame, end: from.endFrame }
+    }
+
+    const duration = Math.max(1, Math.round(transition.duration))
+    const start = to.startFrame - Math.floor(duration / 2)
+    return { transition, from, to, start, end: start + duration }
+  }
+
+  // Scenes in timeline order; array order breaks ties
+  private getSceneOrder(project: MotionProject): MotionScene[] {
+    return project.scenes
+      .map((scene, index) => ({ scene, index }))
+      .sort((a, b) => a.scene.startFrame - b.scene.startFrame || a.index - b.index)
+      .map(entry => entry.scene)
+  }
+
+  private getPreviousScene(currentScene: MotionScene, project: MotionProject | null): MotionScene | undefined {
     if (!project) return undefined
 
     const currentIndex = project.scenes.findIndex(scene => scene.id === currentScene.id)
     return currentIndex > 0 ? project.scenes[currentIndex - 1] : undefined
   }
 
-  private getNextScene(currentScene: MotionScene): MotionScene | undefined {
-    const project = this.motionEngine.getProject()
+  private getNextScene(currentScene: MotionScene, project: MotionProject | null): MotionScene | undefined {
     if (!project) return undefined
 
     const currentIndex = project.scenes.findIndex(scene => scene.id === currentScene.id)
@@ -205,8 +505,8 @@ export class SceneComposer {
   getLayerAtPosition(composition: SceneComposition, x: number, y: number): CompositionLayer | null {
     // Find the topmost layer at the given position
     for (let i = composition.layers.length - 1; i >= 0; i--) {
-      const layer = composition.layers[i]
-      if (this.isPointInLayer(layer, x, y)) {
+      const layer = composition.layers[i]!
+      if (layer.element.type !== 'group' && this.isPointInLayer(layer, x, y)) {
         return layer
       }
     }
@@ -214,23 +514,52 @@ export class SceneComposer {
   }
 
   private isPointInLayer(layer: CompositionLayer, x: number, y: number): boolean {
+    if (layer.children) {
+      return layer.children.some(child => this.isPointInLayer(child, x, y))
+    }
+
+    // Map the point into the element's own box, undoing rotation and scale
+    const local = invertPoint(layer.transform, x, y)
+    if (!local) return false
+
     const props = layer.computedProperties
-    const bounds = this.getLayerBounds(layer)
-    
-    return x >= bounds.left && x <= bounds.right && 
-           y >= bounds.top && y <= bounds.bottom
+    const width = props.size?.width ?? 0
+    const height = props.size?.height ?? 0
+    const boxX = local.x + (props.anchor?.x ?? 0.5) * width
+    const boxY = local.y + (props.anchor?.y ?? 0.5) * height
+
+    return boxX >= 0 && boxX <= width && boxY >= 0 && boxY <= height
   }
 
+  // Axis-aligned bounds in scene space; groups span their children
   getLayerBounds(layer: CompositionLayer): { left: number; top: number; right: number; bottom: number } {
+    if (layer.children && layer.children.length > 0) {
+      const bounds = layer.children.map(child => this.getLayerBounds(child))
+      return {
+        left: Math.min(...bounds.map(bound => bound.left)),
+        top: Math.min(...bounds.map(bound => bound.top)),
+        right: Math.max(...bounds.map(bound => bound.right)),
+        bottom: Math.max(...bounds.map(bound => bound.bottom)),
+      }
+    }
+
     const props = layer.computedProperties
-    const halfWidth = (props.size.width * props.scale.x) / 2
-    const halfHeight = (props.size.height * props.scale.y) / 2
-    
+    const width = props.size?.width ?? 0
+    const height = props.size?.height ?? 0
+    const left = -(props.anchor?.x ?? 0.5) * width
+    const top = -(props.anchor?.y ?? 0.5) * height
+    const corners = [
+      [left, top],
+      [left + width, top],
+      [left, top + height],
+      [left + width, top + height],
+    ].map(([cornerX, cornerY]) => applyTransform(layer.transform, cornerX!, cornerY!))
+
     return {
-      left: props.position.x - halfWidth,
-      top: props.position.y - halfHeight,
-      right: props.position.x + halfWidth,
-      bottom: props.position.y + halfHeight,
+      left: Math.min(...corners.map(corner => corner.x)),
+      top: Math.min(...corners.map(corner => corner.y)),
+      right: Math.max(...corners.map(corner => corner.x)),
+      bottom: Math.max(...corners.map(corner => corner.y)),
     }
   }
 
@@ -249,6 +578,17 @@ export class SceneComposer {
     this.compositionCache.clear()
   }
 
+  private getProjectKey(project: MotionProject | null): number {
+    if (!project) return 0
+
+    let key = this.projectKeys.get(project)
+    if (key === undefined) {
+      key = ++this.nextProjectKey
+      this.projectKeys.set(project, key)
+    }
+    return key
+  }
+
   // Scene manipulation
   addElementToScene(scene: MotionScene, element: MotionElement): void {
     // Ensure element doesn't exceed scene boundaries
@@ -265,7 +605,16 @@ export class SceneComposer {
   removeElementFromScene(scene: MotionScene, elementId: string): void {
     const index = scene.elements.findIndex(el => el.id === elementId)
     if (index > -1) {
-      scene.elements.splice(index, 1)
+      const [removed] = scene.elements.splice(index, 1)
+      // Children move up to the removed element's parent
+      scene.elements.forEach(element => {
+        if (element.parentId !== elementId) return
+        if (removed?.parentId) {
+          element.parentId = removed.parentId
+        } else {
+          delete element.parentId
+        }
+      })
       this.clearSceneCache(scene.id)
     }
   }
@@ -352,6 +701,40 @@ export class SceneComposer {
   }
 }
 
+// Transform helpers
+function multiplyTransforms(outer: AffineTransform, inner: AffineTransform): AffineTransform {
+  const [a1, b1, c1, d1, e1, f1] = outer
+  const [a2, b2, c2, d2, e2, f2] = inner
+
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ]
+}
+
+function applyTransform(transform: AffineTransform, x: number, y: number): { x: number; y: number } {
+  const [a, b, c, d, e, f] = transform
+  return { x: a * x + c * y + e, y: b * x + d * y + f }
+}
+
+// Null when the transform has collapsed (zero scale) and nothing can be hit
+function invertPoint(transform: AffineTransform, x: number, y: number): { x: number; y: number } | null {
+  const [a, b, c, d, e, f] = transform
+  const determinant = a * d - b * c
+  if (Math.abs(determinant) < 1e-12) return null
+
+  const dx = x - e
+  const dy = y - f
+  return {
+    x: (d * dx - c * dy) / determinant,
+    y: (a * dy - b * dx) / determinant,
+  }
+}
+
 // Singleton instance
 let sceneComposerInstance: SceneComposer | null = null
 
@@ -0,0 +1,399 @@
+// SVG path data parsing. Every command is normalized to absolute cubic bezier
+// segments so consumers (exporters, path samplers) only handle one curve type.
+
+export interface PathPoint {
+  x: number
+  y: number
+}
+
+export interface CubicSegment {
+  from: PathPoint
+  c1: PathPoint
+  c2: PathPoint
+  to: PathPoint
+}
+
+export interface PathContour {
+  start: PathPoint
+  segments: CubicSegment[]
+  closed: boolean
+}
+
+const COMMAND_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g
+
+const PARAMETER_COUNTS: Record<string, number> = {
+  m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0,
+}
+
+export function parseSvgPath(d: string): PathContour[] {
+  const tokens = d.match(COMMAND_PATTERN) ?? []
+  const contours: PathContour[] = []
+
+  let contour: PathContour | null = null
+  let current: PathPoint = { x: 0, y: 0 }
+  let lastControl: PathPoint | null = null // for S/s reflection
+  let lastQuadControl: PathPoint | null = null // for T/t reflection
+  let command = ''
+  let index = 0
+
+  const next = (): number => Number(tokens[index++])
+
+  const ensureContour = (): PathContour => {
+    if (!contour) {
+      contour = { start: { ...current }, segments: [], closed: false }
+      contours.push(contour)
+    }
+    return contour
+  }
+
+  const lineTo = (to: PathPoint) => {
+    ensureContour().segments.push({ from: current, c1: current, c2: to, to })
+    current = to
+  }
+
+  const quadTo = (control: PathPoint, to: PathPoint) => {
+    const c1 = { x: current.x + (2 / 3) * (control.x - current.x), y: current.y + (2 / 3) * (control.y - current.y) }
+    const c2 = { x: to.x + (2 / 3) * (control.x - to.x), y: to.y + (2 / 3) * (control.y - to.y) }
+    ensureContour().segments.push({ from: current, c1, c2, to })
+    current = to
+  }
+
+  while (index < tokens.length) {
+    const token = tokens[index] ?? ''
+    if (/[a-z]/i.test(token)) {
+      command = token
+      index++
+    } else if (!command) {
+      break // Path data must start with a command
+    }
+
+    const lower = command.toLowerCase()
+    const relative = command !== command.toUpperCase()
+    const base = relative ? current : { x: 0, y: 0 }
+
+    if (lower === 'z') {
+      if (contour) {
+        const active: PathContour = contour
+        if (current.x !== active.start.x || current.y !== active.start.y) {
+          lineTo({ ...active.start })
+        }
+        active.closed = true
+        current = { ...active.start }
+      }
+      contour = null
+      lastControl = null
+      lastQuadControl = null
+      command = ''
+      continue
+    }
+
+    if (index + (PARAMETER_COUNTS[lower] ?? 0) > tokens.length) break
+
+    let control: PathPoint | null = null
+    let quadControl: PathPoint | null = null
+
+    switch (lower) {
+      case 'm': {
+        const point = { x: base.x + next(), y: base.y + next() }
+        contour = { start: point, segments: [], closed: false }
+        contours.push(contour)
+        current = point
+        // Subsequent coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L'
+        break
+      }
+      case 'l':
+        lineTo({ x: base.x + next(), y: base.y + next() })
+        break
+      case 'h':
+        lineTo({ x: (relative ? current.x : 0) + next(), y: current.y })
+        break
+      case 'v':
+        lineTo({ x: current.x, y: (relative ? current.y : 0) + next() })
+        break
+      case 'c': {
+        const c1 = { x: base.x + next(), y: base.y + next() }
+        const c2 = { x: base.x + next(), y: base.y + next() }
+        const to = { x: base.x + next(), y: base.y + next() }
+        ensureContour().segments.push({ from: current, c1, c2, to })
+        current = to
+        control = c2
+        break
+      }
+      case 's': {
+        const c1 = lastControl
+          ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+          : { ...current }
+        const c2 = { x: base.x + next(), y: base.y + next() }
+        const to = { x: base.x + next(), y: base.y + next() }
+        ensureContour().segments.push({ from: current, c1, c2, to })
+        current = to
+        control = c2
+        break
+      }
+      case 'q': {
+        const q = { x: base.x + next(), y: base.y + next() }
+        const to = { x: base.x + next(), y: base.y + next() }
+        quadTo(q, to)
+        quadControl = q
+        break
+      }
+      case 't': {
+        const q: PathPoint = lastQuadControl
+          ? { x: 2 * current.x - lastQuadControl.x, y: 2 * current.y - lastQuadControl.y }
+          : { ...current }
+        const to = { x: base.x + next(), y: base.y + next() }
+        quadTo(q, to)
+        quadControl = q
+        break
+      }
+      case 'a': {
+        const rx = next()
+        const ry = next()
+        const rotation = next()
+        const largeArc = next() !== 0
+        const sweep = next() !== 0
+        const to = { x: base.x + next(), y: base.y + next() }
+        arcToCubics(current, to, rx, ry, rotation, largeArc, sweep).forEach(segment => {
+          ensureContour().segments.push(segment)
+        })
+        current = to
+        break
+      }
+      default:
+        index++ // Skip unknown tokens
+    }
+
+    lastControl = control
+    lastQuadControl = quadControl
+  }
+
+  return contours
+}
+
+// Maps every point of a path, e.g. to move it into another coordinate space.
+// The result is written back as absolute cubics, which map exactly under any
+// affine transform.
+export function transformSvgPath(d: string, map: (point: PathPoint) => PathPoint): string {
+  const format = (point: PathPoint) => {
+    const mapped = map(point)
+    return `${round(mapped.x)} ${round(mapped.y)}`
+  }
+
+  return parseSvgPath(d).map(contour => {
+    const commands = [`M ${format(contour.start)}`]
+    contour.segments.forEach(segment => {
+      commands.push(`C ${format(segment.c1)} ${format(segment.c2)} ${format(segment.to)}`)
+    })
+    if (contour.closed) commands.push('Z')
+    return commands.join(' ')
+  }).join(' ')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+// Endpoint-parameterized elliptical arc to cubic beziers (SVG 1.1 appendix F.6)
+function arcToCubics(
+  from: PathPoint,
+  to: PathPoint,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean
+): CubicSegment[] {
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [{ from, c1: from, c2: to, to }]
+  }
+
+  const phi = (rotationDegrees * Math.PI) / 180
+  const cosPhi = Math.cos(phi)
+  const sinPhi = Math.sin(phi)
+
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cosPhi * dx + sinPhi * dy
+  const y1 = -sinPhi * dx + cosPhi * dy
+
+  let radiusX = Math.abs(rx)
+  let radiusY = Math.abs(ry)
+  const lambda = (x1 * x1) / (radiusX * radiusX) + (y1 * y1) / (radiusY * radiusY)
+  if (lambda > 1) {
+    radiusX *= Math.sqrt(lambda)
+    radiusY *= Math.sqrt(lambda)
+  }
+
+  const numerator = radiusX * radiusX * radiusY * radiusY - radiusX * radiusX * y1 * y1 - radiusY * radiusY * x1 * x1
+  const denominator = radiusX * radiusX * y1 * y1 + radiusY * radiusY * x1 * x1
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cxPrime = (factor * radiusX * y1) / radiusY
+  const cyPrime = (-factor * radiusY * x1) / radiusX
+
+  const cx = cosPhi * cxPrime - sinPhi * cyPrime + (from.x + to.x) / 2
+  const cy = sinPhi * cxPrime + cosPhi * cyPrime + (from.y + to.y) / 2
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy))
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)))
+  }
+
+  const startAngle = angle(1, 0, (x1 - cxPrime) / radiusX, (y1 - cyPrime) / radiusY)
+  let sweepAngle = angle(
+    (x1 - cxPrime) / radiusX,
+    (y1 - cyPrime) / radiusY,
+    (-x1 - cxPrime) / radiusX,
+    (-y1 - cyPrime) / radiusY
+  )
+  if (!sweep && sweepAngle > 0) sweepAngle -= Math.PI * 2
+  if (sweep && sweepAngle < 0) sweepAngle += Math.PI * 2
+
+  const pointAt = (theta: number): PathPoint => ({
+    x: cx + radiusX * Math.cos(theta) * cosPhi - radiusY * Math.sin(theta) * sinPhi,
+    y: cy + radiusX * Math.cos(theta) * sinPhi + radiusY * Math.sin(theta) * cosPhi,
+  })
+  const derivativeAt = (theta: number): PathPoint => ({
+    x: -radiusX * Math.sin(theta) * cosPhi - radiusY * Math.cos(theta) * sinPhi,
+    y: -radiusX * Math.sin(theta) * sinPhi + radiusY * Math.cos(theta) * cosPhi,
+  })
+
+  // Split into segments of at most 90 degrees for an accurate approximation
+  const count = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2))
+  const delta = sweepAngle / count
+  const alpha = (4 / 3) * Math.tan(delta / 4)
+  const segments: CubicSegment[] = []
+
+  let theta = startAngle
+  let start = from
+  for (let i = 0; i < count; i++) {
+    const nextTheta = theta + delta
+    const end = i === count - 1 ? to : pointAt(nextTheta)
+    const d1 = derivativeAt(theta)
+    const d2 = derivativeAt(nextTheta)
+    segments.push({
+      from: start,
+      c1: { x: start.x + alpha * d1.x, y: start.y + alpha * d1.y },
+      c2: { x: end.x - alpha * d2.x, y: end.y - alpha * d2.y },
+      to: end,
+    })
+    theta = nextTheta
+    start = end
+  }
+
+  return segments
+}
+
+// Segment evaluation
+export function pointOnSegment(segment: CubicSegment, t: number): PathPoint {
+  const u = 1 - t
+  const a = u * u * u
+  const b = 3 * u * u * t
+  const c = 3 * u * t * t
+  const d = t * t * t
+  return {
+    x: a * segment.from.x + b * segment.c1.x + c * segment.c2.x + d * segment.to.x,
+    y: a * segment.from.y + b * segment.c1.y + c * segment.c2.y + d * segment.to.y,
+  }
+}
+
+// Direction of travel at t. Lines and other segments with a control point on
+// an endpoint have a zero derivative there, so fall back to the chords.
+export function tangentOnSegment(segment: CubicSegment, t: number): PathPoint {
+  const u = 1 - t
+  const { from, c1, c2, to } = segment
+  const candidates: PathPoint[] = [
+    {
+      x: 3 * u * u * (c1.x - from.x) + 6 * u * t * (c2.x - c1.x) + 3 * t * t * (to.x - c2.x),
+      y: 3 * u * u * (c1.y - from.y) + 6 * u * t * (c2.y - c1.y) + 3 * t * t * (to.y - c2.y),
+    },
+    t < 0.5 ? { x: c2.x - from.x, y: c2.y - from.y } : { x: to.x - c1.x, y: to.y - c1.y },
+    { x: to.x - from.x, y: to.y - from.y },
+  ]
+  return candidates.find(point => Math.hypot(point.x, point.y) > 1e-9) ?? { x: 0, y: 0 }
+}
+
+// Arc length measurement. Each segment is flattened into a table of cumulative
+// lengths, so a distance along the path maps back to a segment and t.
+const SAMPLES_PER_SEGMENT = 32
+
+export interface PathSample {
+  point: PathPoint
+  angle: number | null // degrees clockwise from +x, null when the path has no direction
+}
+
+interface LengthEntry {
+  length: number
+  segment: number
+  t: number
+}
+
+export class PathMeasure {
+  readonly length: number
+  private segments: CubicSegment[]
+  private table: LengthEntry[] = []
+
+  constructor(segments: CubicSegment[]) {
+    this.segments = segments
+
+    let total = 0
+    for (let index = 0; index < segments.length; index++) {
+      const segment = segments[index]!
+      let previous = segment.from
+      this.table.push({ length: total, segment: index, t: 0 })
+
+      for (let step = 1; step <= SAMPLES_PER_SEGMENT; step++) {
+        const t = step / SAMPLES_PER_SEGMENT
+        const point = pointOnSegment(segment, t)
+        total += Math.hypot(point.x - previous.x, point.y - previous.y)
+        this.table.push({ length: total, segment: index, t })
+        previous = point
+      }
+    }
+
+    this.length = total
+  }
+
+  getPointAtLength(distance: number): PathSample | null {
+    if (this.segments.length === 0) return null
+
+    const target = Math.max(0, Math.min(this.length, distance))
+
+    // First entry at or beyond the target
+    let low = 0
+    let high = this.table.length - 1
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (this.table[middle]!.length < target) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    const entry = this.table[low]!
+    const previous = this.table[low - 1]
+    let t = entry.t
+    if (previous && previous.segment === entry.segment && entry.length > previous.length) {
+      t = previous.t + ((target - previous.length) / (entry.length - previous.length)) * (entry.t - previous.t)
+    }
+
+    const segment = this.segments[entry.segment]!
+    const tangent = tangentOnSegment(segment, t)
+    return {
+      point: pointOnSegment(segment, t),
+      angle: tangent.x === 0 && tangent.y === 0 ? null : (Math.atan2(tangent.y, tangent.x) * 180) / Math.PI,
+    }
+  }
+
+  // progress is a fraction of the total length, so equal steps cover equal distance
+  getPointAtProgress(progress: number): PathSample | null {
+    return this.getPointAtLength(progress * this.length)
+  }
+}
+
+// Contours are measured end to end; the jump between them adds no length
+export function measurePath(d: string): PathMeasure {
+  return new PathMeasure(parseSvgPath(d).flatMap(contour => contour.segments))
+}
@@ -0,0 +1,234 @@
+import type { MotionProject, MotionElement } from './core'
+import type { TemplateSlot } from './customization'
+import { BLOCKED_PROPERTIES } from './expressions'
+
+// Fills a template's variable slots from data rows, one project per row.
+// Rows come from JSON or CSV; every value is checked against its slot so a bad
+// row is reported on its own instead of failing the rest of the batch.
+
+export type TemplateRow = Record<string, unknown>
+
+export interface TemplateRowResult {
+  row: number // 1-based, not counting a CSV header
+  values: Record<string, any> // coerced values by variable
+  errors: string[]
+}
+
+// A template config is a project config plus the slots it exposes
+export type TemplateConfig = Partial<MotionProject> & {
+  slots?: TemplateSlot[]
+}
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, '1': true,
+  false: false, no: false, '0': false,
+}
+
+// Slot paths come from saved templates; prototype keys would reach shared objects
+export function isSafePropertyPath(path: string): boolean {
+  return path.split('.').every(key => key !== '' && !BLOCKED_PROPERTIES.has(key))
+}
+
+export class TemplateDataBinder {
+  // Template checks: problems here would fail every row
+  validateSlots(config: TemplateConfig): string[] {
+    const errors: string[] = []
+    const elementIds = new Set(this.getElements(config).map(element => element.id))
+
+    for (const slot of config.slots ?? []) {
+      if (!slot.variable) {
+        errors.push(`Slot ${slot.id} has no variable name`)
+      }
+      if (!elementIds.has(slot.elementId)) {
+        errors.push(`Slot ${slot.variable} is bound to missing element ${slot.elementId}`)
+      }
+      if (!slot.property) {
+        errors.push(`Slot ${slot.variable} is not bound to a property`)
+      } else if (!isSafePropertyPath(slot.property)) {
+        errors.push(`Slot ${slot.variable} is bound to a disallowed property ${slot.property}`)
+      }
+    }
+
+    return errors
+  }
+
+  getVariables(config: TemplateConfig): string[] {
+    return Array.from(new Set((config.slots ?? []).map(slot => slot.variable)))
+  }
+
+  // Row validation
+  validateRow(slots: TemplateSlot[], row: TemplateRow, index: number): TemplateRowResult {
+    const values: Record<string, any> = {}
+    const errors: string[] = []
+
+    for (const slot of slots) {
+      if (!slot.enabled || slot.variable in values) continue
+
+      const raw = row[slot.variable]
+      if (raw === undefined || raw === null || raw === '') {
+        if (slot.required) {
+          errors.push(`${slot.variable} is required`)
+        } else if (slot.defaultValue !== undefined) {
+          values[slot.variable] = slot.defaultValue
+        }
+        continue
+      }
+
+      const result = this.coerceValue(slot, raw)
+      if ('error' in result) {
+        errors.push(`${slot.variable}: ${result.error}`)
+      } else {
+        values[slot.variable] = result.value
+      }
+    }
+
+    return { row: index + 1, values, errors }
+  }
+
+  private coerceValue(slot: TemplateSlot, raw: unknown): { value: any } | { error: string } {
+    const text = typeof raw === 'string' ? raw.trim() : raw
+
+    switch (slot.type) {
+      case 'number': {
+        const value = typeof text === 'number' ? text : Number(text)
+        if (!Number.isFinite(value)) return { error: `expected a number, got "${raw}"` }
+        const { min, max } = slot.controller ?? {}
+        if (min !== undefined && value < min) return { error: `must be at least ${min}` }
+        if (max !== undefined && value > max) return { error: `must be at most ${max}` }
+        return { value }
+      }
+      case 'boolean': {
+        if (typeof text === 'boolean') return { value: text }
+        const value = BOOLEAN_VALUES[String(text).toLowerCase()]
+        return value === undefined ? { error: `expected true or false, got "${raw}"` } : { value }
+      }
+      case 'color': {
+        const value = String(text)
+        return COLOR_PATTERN.test(value) ? { value } : { error: `expected a hex color, got "${raw}"` }
+      }
+      case 'url': {
+        const value = String(text)
+        return /^https?:\/\//i.test(value) || value.startsWith('/')
+          ? { value }
+          : { error: `expected an http(s) or site-relative URL, got "${raw}"` }
+      }
+      default: {
+        if (typeof text === 'object') return { error: 'expected text' }
+        const value = String(text)
+        if (slot.maxLength !== undefined && value.length > slot.maxLength) {
+          return { error: `is ${value.length} characters, the limit is ${slot.maxLength}` }
+        }
+        return { value }
+      }
+    }
+  }
+
+  // Project generation
+  applyRow(config: TemplateConfig, values: Record<string, any>): Partial<MotionProject> {
+    const { slots = [], ...project } = JSON.parse(JSON.stringify(config)) as TemplateConfig
+    const elements = new Map(this.getElements(project).map(element => [element.id, element]))
+
+    for (const slot of slots) {
+      if (!slot.enabled || !(slot.variable in values)) continue
+
+      const element = elements.get(slot.elementId)
+      if (element) {
+        this.setNestedProperty(element.properties, slot.property, values[slot.variable])
+      }
+    }
+
+    return project
+  }
+
+  private getElements(config: Partial<MotionProject>): MotionElement[] {
+    return (config.scenes ?? []).flatMap(scene => scene.elements ?? [])
+  }
+
+  // Only own properties are walked, so a path never reaches a prototype
+  private setNestedProperty(obj: any, path: string, value: any): void {
+    if (!isSafePropertyPath(path)) {
+      throw new Error(`Cannot set property ${path}`)
+    }
+
+    const keys = path.split('.')
+    let current = obj
+
+    for (let i = 0; i < keys.length - 1; i++) {
+      const key = keys[i]!
+      if (!Object.prototype.hasOwnProperty.call(current, key) || typeof current[key] !== 'object' || current[key] === null) {
+        current[key] = {}
+      }
+      current = current[key]
+    }
+
+    current[keys[keys.length - 1]!] = value
+  }
+
+  // CSV input. RFC 4180: quoted fields may hold commas, newlines and doubled
+  // quotes. The first record is the header; blank lines are skipped.
+  parseCsv(input: string): TemplateRow[] {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ''
+    let quoted = false
+    const text = input.replace(/^\uFEFF/, '')
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          field += char
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true
+      } else if (char === ',') {
+        record.push(field)
+        field = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        record.push(field)
+        records.push(record)
+        record = []
+        field = ''
+      } else {
+        field += char
+      }
+    }
+
+    if (quoted) {
+      throw new Error('Unterminated quoted field in CSV')
+    }
+    if (field !== '' || record.length > 0) {
+      record.push(field)
+      records.push(record)
+    }
+
+    const [header, ...rows] = records.filter(fields => fields.some(value => value.trim() !== ''))
+    if (!header) return []
+
+    const columns = header.map(column => column.trim())
+    return rows.map(fields =>
+      Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? '']))
+    )
+  }
+}
+
+// Singleton instance
+let templateDataBinderInstance: TemplateDataBinder | null = null
+
+export function getTemplateDataBinder(): TemplateDataBinder {
+  if (!templateDataBinderInstance) {
+    templateDataBinderInstance = new TemplateDataBinder()
+  }
+  return templateDataBinderInstance
+}
+
+export default TemplateDataBinder
@@ -125,6 +125,18 @@ export class TimelineManager {
     this.emitTimelineUpdate()
   }
 
+  // Places the project's scenes one after another, overlapping them by their
+  // cross transitions, and rebuilds the timeline to the new total duration
+  sequenceScenes(): void {
+    const project = this.motionEngine.sequenceScenes()
+    if (!project) return
+
+    const currentFrame = Math.min(this.state.currentFrame, project.duration)
+    this.loadProjectTimeline(project)
+    this.state.currentFrame = currentFrame
+    this.emitStateChange()
+  }
+
   private addSceneMarker(scene: MotionScene): void {
     this.markers.push({
       id: `scene-${scene.id}`,
@@ -1,11 +1,67 @@
-import { SceneTransition, TransitionType, EasingType } from './core'
-import { interpolate, spring, Easing } from 'remotion'
+import { SceneTransition, TransitionType, EasingType, MotionProject } from './core'
+import { interpolate } from 'remotion'
+import { ease } from './easing'
+import { EffectParameter, validateParameterValues } from './effects'
+import { RGBA } from './color'
+import { BUNDLED_LUMA_MAPS, isBundledLumaMap } from './luma-maps'
+import { resolveAssetSource } from './assets'
+import { getExpressionEngine, ExpressionScope, combineVectors, mapVector, seededRandom } from './expressions'
 
 export interface TransitionEffect {
   type: TransitionType
   apply: (progress: number, fromElement: any, toElement: any, params: any) => any
   defaultParams: Record<string, any>
   description: string
+  parameters?: EffectParameter[] // declared by plugins, and checked by validateTransition
+  pixel?: TransitionPixelFunction
+  version?: string
+}
+
+// A transition type added at runtime. apply changes the two scene states the
+// way the built-in effects do; pixel is a shader-like function the rasterizer
+// runs on the CPU for every pixel of the frame. A plugin may provide either or
+// both, in which case pixel sees the scenes after apply has moved them.
+export interface TransitionPlugin {
+  type: string
+  name: string
+  description: string
+  parameters: EffectParameter[]
+  apply?: TransitionEffect['apply']
+  pixel?: TransitionPixelFunction
+  version?: string // part of the frame cache key; change it when the output changes
+}
+
+// Colors are 0..1 with straight alpha; coordinates are 0..1 across the frame.
+// One input object is passed for every pixel of a frame, with only x, y, from
+// and to changing between calls.
+export interface TransitionPixelInput {
+  x: number // pixel centre
+  y: number
+  width: number // frame size in pixels
+  height: number
+  progress: number // eased
+  params: Record<string, any>
+  from: RGBA // the outgoing scene at this pixel
+  to: RGBA // the incoming scene at this pixel
+  sampleFrom: (x: number, y: number) => RGBA
+  sampleTo: (x: number, y: number) => RGBA
+}
+
+export type TransitionPixelFunction = (input: TransitionPixelInput) => RGBA
+
+// A plugin declared in project data. Behaviour is written as sandboxed
+// expressions (see expressions.ts), so projects never carry executable code.
+// Manifest plugins are only visible to the project that declares them.
+export interface TransitionPluginManifest {
+  type: string
+  name: string
+  description?: string
+  version?: string
+  parameters?: EffectParameter[]
+  // Scene state property path -> expression; value is the property's current
+  // value, alongside progress, params, width and height
+  properties?: { from?: Record<string, string>; to?: Record<string, string> }
+  pixel?: string // evaluated per pixel with TransitionPixelInput in scope; returns [r, g, b, a] or { r, g, b, a }
 }
 
 export interface TransitionPreset {
@@ -19,13 +75,24 @@ export interface TransitionPreset {
   preview?: string // Base64 encoded preview image
 }
 
+const IRIS_SHAPES = ['circle', 'ellipse', 'square', 'diamond']
+
+const PLUGIN_TYPE_PATTERN = /^[a-z][a-z0-9-]*$/
+const PARAMETER_TYPES = ['number', 'boolean', 'color', 'select', 'range']
+
 export class TransitionSystem {
   private effects = new Map<TransitionType, TransitionEffect>()
   private presets: TransitionPreset[] = []
+  private builtInTypes = new Set<TransitionType>()
+  private plugins = new Map<string, TransitionPlugin>()
+  // Compiled manifest plugins per project object, rebuilt when the manifest changes
+  private projectEffects = new WeakMap<MotionProject, { manifest: string; effects: Map<string, TransitionEffect> }>()
+  private expressionEngine = getExpressionEngine()
 
   constructor() {
     this.initializeEffects()
     this.initializePresets()
+    this.builtInTypes = new Set(this.effects.keys())
   }
 
   private initializeEffects(): void {
@@ -267,11 +334,12 @@ export class TransitionSystem {
               y: fromElement.position.y + offset.y,
             },
           },
+          // The incoming element follows one distance behind, from the far side
           to: {
             ...toElement,
             position: {
-              x: toElement.position.x + offset.x - distance,
-              y: toElement.position.y + offset.y,
+              x: toElement.position.x + offset.x + (direction === 'left' ? distance : direction === 'right' ? -distance : 0),
+              y: toElement.position.y + offset.y + (direction === 'up' ? distance : direction === 'down' ? -distance : 0),
             },
           },
         }
@@ -279,6 +347,133 @@ export class TransitionSystem {
       defaultParams: { direction: 'left', distance: 1920 },
       description: 'Push one element out while bringing another in',
     })
+
+    // Reveal transition
+    this.effects.set('reveal', {
+      type: 'reveal',
+      apply: (progress, fromElement, toElement, params) => {
+        const direction = params.direction || 'left'
+        const softness = params.softness ?? 0.05
+        const parallax = params.parallax ?? 0
+        const distance = params.distance || 1920
+
+        // The outgoing element stays underneath, drifting by the parallax
+        // fraction, while an edge sweeps across to uncover the incoming one
+        const drift = distance * parallax * progress
+        const offset = {
+          x: direction === 'left' ? -drift : direction === 'right' ? drift : 0,
+          y: direction === 'up' ? -drift : direction === 'down' ? drift : 0,
+        }
+
+        return {
+          from: {
+            ...fromElement,
+            position: {
+              x: fromElement.position.x + offset.x,
+              y: fromElement.position.y + offset.y,
+            },
+          },
+          to: {
+            ...toElement,
+            mask: {
+              type: 'reveal',
+              progress,
+              direction,
+              softness,
+            },
+          },
+        }
+      },
+      defaultParams: { direction: 'left', softness: 0.05, parallax: 0, distance: 1920 },
+      description: 'Uncover the next element behind a sweeping soft edge',
+    })
+
+    // Iris transition
+    this.effects.set('iris', {
+      type: 'iris',
+      apply: (progress, fromElement, toElement, params) => {
+        const shape = params.shape || 'circle'
+        const center = { x: params.center?.x ?? 0.5, y: params.center?.y ?? 0.5 }
+        const softness = params.softness ?? 0.02
+        const closing = params.mode === 'close'
+
+        // Opening grows a hole in the incoming element; closing shrinks the
+        // outgoing one down to a point. Radius 1 reaches the farthest corner.
+        const mask = {
+          type: 'iris',
+          shape,
+          center,
+          radius: closing ? 1 - progress : progress,
+          softness,
+        }
+
+        // A closing iris draws the outgoing element over the incoming one
+        return closing
+          ? { from: { ...fromElement, mask }, to: toElement, order: 'from-on-top' }
+          : { from: fromElement, to: { ...toElement, mask } }
+      },
+      defaultParams: { shape: 'circle', center: { x: 0.5, y: 0.5 }, softness: 0.02, mode: 'open' },
+      description: 'Open or close a shaped iris around a center point',
+    })
+
+    // Flip transition
+    this.effects.set('flip', {
+      type: 'flip',
+      apply: (progress, fromElement, toElement, params) => {
+        const axis = params.axis === 'x' ? 'x' : 'y'
+        const perspective = params.perspective || 1000
+        const sign = params.direction === 'backward' ? -1 : 1
+
+        // One card turning over: the outgoing face turns away for the first
+        // half, then the incoming face turns in from the other side
+        const angle = 180 * progress * sign
+        const firstHalf = progress < 0.5
+
+        return {
+          from: {
+            ...fromElement,
+            rotation: { ...fromElement.rotation, [axis]: (fromElement.rotation?.[axis] ?? 0) + angle },
+            opacity: firstHalf ? fromElement.opacity : 0,
+            perspective,
+          },
+          to: {
+            ...toElement,
+            rotation: { ...toElement.rotation, [axis]: (toElement.rotation?.[axis] ?? 0) + angle - 180 * sign },
+            opacity: firstHalf ? 0 : toElement.opacity,
+            perspective,
+          },
+        }
+      },
+      defaultParams: { axis: 'y', perspective: 1000, direction: 'forward' },
+      description: '3D card flip around the horizontal or vertical axis',
+    })
+
+    // Luma transition
+    this.effects.set('luma', {
+      type: 'luma',
+      apply: (progress, fromElement, toElement, params) => {
+        // map is a bundled map name (see luma-maps.ts) or an image source;
+        // the incoming element shows where the map's value is below progress
+        const mask = {
+          type: 'luma',
+          source: params.map || 'linear',
+          progress,
+          softness: params.softness ?? 0.1,
+          inverted: params.invert === true,
+          mapOptions: {
+            ...(params.angle !== undefined ? { angle: params.angle } : {}),
+            ...(params.center !== undefined ? { center: params.center } : {}),
+            ...(params.count !== undefined ? { count: params.count } : {}),
+            ...(params.scale !== undefined ? { scale: params.scale } : {}),
+            ...(params.seed !== undefined ? { seed: params.seed } : {}),
+          },
+        }
+
+        return { from: fromElement, to: { ...toElement, mask } }
+      },
+      defaultParams: { map: 'linear', softness: 0.1, invert: false },
+      description: 'Reveal through a grayscale luma map, darkest areas first',
+    })
   }
 
   private initializePresets(): void {
@@ -319,49 +514,312 @@ export class TransitionSystem {
         easing: 'linear',
         parameters: { direction: 'vertical', softness: 0.05 },
       },
+      {
+        id: 'reveal-soft',
+        name: 'Soft Reveal',
+        description: 'Soft-edged reveal with a slight parallax drift',
+        type: 'reveal',
+        duration: 30,
+        easing: 'ease-in-out',
+        parameters: { direction: 'left', softness: 0.15, parallax: 0.2 },
+      },
+      {
+        id: 'iris-open',
+        name: 'Iris Open',
+        description: 'Circular iris opening from the center',
+        type: 'iris',
+        duration: 30,
+        easing: 'ease-out',
+        parameters: { shape: 'circle', center: { x: 0.5, y: 0.5 }, softness: 0.02, mode: 'open' },
+      },
+      {
+        id: 'flip-horizontal',
+        name: 'Card Flip',
+        description: 'Flip over the vertical axis like a card',
+        type: 'flip',
+        duration: 24,
+        easing: 'ease-in-out',
+        parameters: { axis: 'y', perspective: 1200, direction: 'forward' },
+      },
+      {
+        id: 'luma-radial',
+        name: 'Radial Luma',
+        description: 'Soft circular reveal spreading from the center',
+        type: 'luma',
+        duration: 30,
+        easing: 'ease-in-out',
+        parameters: { map: 'radial', softness: 0.2, invert: false },
+      },
+      {
+        id: 'luma-clock',
+        name: 'Clock Wipe',
+        description: 'Sweep clockwise around the center like a clock hand',
+        type: 'luma',
+        duration: 30,
+        easing: 'linear',
+        parameters: { map: 'clock', softness: 0.02, invert: false, angle: 0 },
+      },
+      {
+        id: 'luma-noise',
+        name: 'Noise Burn',
+        description: 'Organic reveal through cloudy noise',
+        type: 'luma',
+        duration: 36,
+        easing: 'ease-in-out',
+        parameters: { map: 'noise', softness: 0.15, invert: false, scale: 120 },
+      },
+      {
+        id: 'luma-blinds',
+        name: 'Venetian Blinds',
+        description: 'Horizontal slats opening together',
+        type: 'luma',
+        duration: 24,
+        easing: 'ease-in-out',
+        parameters: { map: 'blinds', softness: 0.05, invert: false, angle: 90, count: 10 },
+      },
     ]
   }
 
-  // Apply transition effect
+  // Apply transition effect. The project supplies its manifest plugins.
   applyTransition(
     transition: SceneTransition,
     progress: number,
     fromElement: any,
-    toElement: any
+    toElement: any,
+    fps: number = 30,
+    project?: MotionProject
   ): any {
-    const effect = this.effects.get(transition.type)
+    const effect = this.getEffect(transition.type, project)
     if (!effect) {
       console.warn(`Unknown transition type: ${transition.type}`)
       return { from: fromElement, to: toElement }
     }
 
     // Apply easing to progress
-    const easedProgress = this.applyEasing(progress, transition.easing)
+    const easedProgress = ease(progress, transition.easing, transition.easingOptions, transition.duration / fps)
     
     // Merge transition parameters with effect defaults
     const params = { ...effect.defaultParams, ...transition.parameters }
     
-    return effect.apply(easedProgress, fromElement, toElement, params)
+    const result = effect.apply(easedProgress, fromElement, toElement, params)
+    if (!effect.pixel) return result
+
+    // The rasterizer runs the pixel function with these (see rasterizeCrossScene)
+    return {
+      ...result,
+      pixel: {
+        run: effect.pixel,
+        progress: easedProgress,
+        parameters: params,
+        ...(effect.version ? { version: effect.version } : {}),
+      },
+    }
+  }
+
+  // Plugins
+  // Registering a type again replaces the earlier plugin; built-in types can't
+  // be replaced.
+  registerTransition(plugin: TransitionPlugin): void {
+    // Built before either map changes, so a rejected plugin leaves no trace
+    const effect = this.createPluginEffect(plugin)
+    this.plugins.set(plugin.type, plugin)
+    this.effects.set(plugin.type, effect)
+  }
+
+  unregisterTransition(type: string): boolean {
+    if (!this.plugins.delete(type)) return false
+    this.effects.delete(type)
+    return true
+  }
+
+  private createPluginEffect(plugin: TransitionPlugin): TransitionEffect {
+    if (this.builtInTypes.has(plugin.type)) {
+      throw new Error(`Cannot replace the built-in ${plugin.type} transition`)
+    }
+    if (!PLUGIN_TYPE_PATTERN.test(plugin.type)) {
+      throw new Error(`Invalid transition type: ${plugin.type} (use lowercase letters, digits and dashes)`)
+    }
+    if (!plugin.apply && !plugin.pixel) {
+      throw new Error(`Transition ${plugin.type} needs an apply or a pixel function`)
+    }
+
+    const defaultParams: Record<string, any> = {}
+    plugin.parameters.forEach(param => {
+      defaultParams[param.name] = param.defaultValue
+    })
+
+    return {
+      type: plugin.type,
+      apply: plugin.apply ?? ((_progress, fromElement, toElement) => ({ from: fromElement, to: toElement })),
+      defaultParams,
+      description: plugin.description,
+      parameters: plugin.parameters,
+      ...(plugin.pixel ? { pixel: plugin.pixel } : {}),
+      ...(plugin.version ? { version: plugin.version } : {}),
+    }
+  }
+
+  getPlugins(): TransitionPlugin[] {
+    return Array.from(this.plugins.values())
+  }
+
+  getPlugin(type: string): TransitionPlugin | undefined {
+    return this.plugins.get(type)
+  }
+
+  // Problems with a project's manifest, for editors; invalid entries are
+  // skipped when the project renders
+  validateManifest(manifest: TransitionPluginManifest[]): string[] {
+    return this.compileManifest(manifest).errors
+  }
+
+  private compileManifest(manifest: TransitionPluginManifest[]): {
+    effects: Map<string, TransitionEffect>
+    errors: string[]
+  } {
+    const effects = new Map<string, TransitionEffect>()
+    const errors: string[] = []
+
+    manifest.forEach((entry, index) => {
+      const entryErrors = this.validateManifestEntry(entry)
+      if (entryErrors.length > 0) {
+        errors.push(...entryErrors.map(error => `Transition plugin ${entry?.type ?? index}: ${error}`))
+        return
+      }
+
+      try {
+        effects.set(entry.type, this.createPluginEffect(this.createManifestPlugin(entry)))
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+      }
+    })
+
+    return { effects, errors }
+  }
+
+  // Compiled once per project object, and again if its manifest is edited
+  private getProjectEffects(project: MotionProject): Map<string, TransitionEffect> {
+    const manifest = JSON.stringify(project.transitionPlugins ?? [])
+    const cached = this.projectEffects.get(project)
+    if (cached && cached.manifest === manifest) return cached.effects
+
+    const { effects, errors } = this.compileManifest(project.transitionPlugins ?? [])
+    errors.forEach(error => console.warn(error))
+    this.projectEffects.set(project, { manifest, effects })
+    return effects
   }
 
-  private applyEasing(progress: number, easing: EasingType): number {
-    switch (easing) {
-      case 'linear':
-        return progress
-      case 'ease':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.ease })
-      case 'ease-in':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.in(Easing.ease) })
-      case 'ease-out':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.out(Easing.ease) })
-      case 'ease-in-out':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.inOut(Easing.ease) })
-      case 'spring':
-        return spring({ frame: progress * 30, fps: 30 })
-      case 'bounce':
-        return interpolate(progress, [0, 1], [0, 1], { easing: Easing.bounce })
-      default:
-        return progress
+  private validateManifestEntry(entry: TransitionPluginManifest): string[] {
+    const errors: string[] = []
+
+    if (typeof entry?.type !== 'string' || !PLUGIN_TYPE_PATTERN.test(entry.type)) {
+      return ['type must be lowercase letters, digits and dashes']
+    }
+    if (typeof entry.name !== 'string' || entry.name.length === 0) {
+      errors.push('name is required')
+    }
+    if (!entry.pixel && !entry.properties) {
+      errors.push('needs properties or a pixel expression')
+    }
+
+    ;(entry.parameters ?? []).forEach(param => {
+      if (typeof param?.name !== 'string' || !PARAMETER_TYPES.includes(param.type)) {
+        errors.push(`parameters need a name and one of the types ${PARAMETER_TYPES.join(', ')}`)
+      } else if (param.defaultValue === undefined) {
+        errors.push(`parameter ${param.name} needs a default value`)
+      }
+    })
+
+    const expressions = [
+      ...Object.entries(entry.properties?.from ?? {}),
+      ...Object.entries(entry.properties?.to ?? {}),
+      ...(entry.pixel ? [['pixel', entry.pixel] as const] : []),
+    ]
+    expressions.forEach(([name, source]) => {
+      const error = typeof source === 'string' ? this.expressionEngine.validate(source) : 'must be a string'
+      if (error) errors.push(`${name}: ${error}`)
+    })
+
+    return errors
+  }
+
+  private createManifestPlugin(entry: TransitionPluginManifest): TransitionPlugin {
+    const helpers: ExpressionScope = {
+      Math: this.expressionEngine.getMath(),
+      clamp: (value: number, min: number, max: number) => Math.min(max, Math.max(min, value)),
+      mix: (from: unknown, to: unknown, amount: number) => combineVectors(
+        mapVector(from, component => component * (1 - amount)),
+        mapVector(to, component => component * amount),
+        (a, b) => a + b
+      ),
+      smoothstep: (edge0: number, edge1: number, value: number) => {
+        const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0 || 1)))
+        return t * t * (3 - 2 * t)
+      },
+      random: (seed: unknown) => seededRandom(String(seed)),
+    }
+
+    const applyProperties = (
+      expressions: Record<string, string> | undefined,
+      element: any,
+      scope: ExpressionScope
+    ) => {
+      let result = element
+      Object.entries(expressions ?? {}).forEach(([property, source]) => {
+        const path = property.split('.')
+        const value = path.reduce((current, key) => current?.[key], element)
+        result = setPath(result, path, this.expressionEngine.evaluate(source, { ...scope, value }))
+      })
+      return result
+    }
+
+    const { properties, pixel } = entry
+    // Bound once per frame: the rasterizer passes the same input object for
+    // every pixel, so only the pixel's own values are copied in per call
+    const frames = new WeakMap<TransitionPixelInput, { scope: ExpressionScope; evaluate: () => unknown }>()
+
+    return {
+      type: entry.type,
+      name: entry.name,
+      description: entry.description ?? entry.name,
+      parameters: entry.parameters ?? [],
+      // Manifests change without anyone bumping a version, so key on the whole entry
+      version: JSON.stringify(entry),
+      ...(properties
+        ? {
+          apply: (progress: number, fromElement: any, toElement: any, params: any) => {
+            const scope = {
+              ...helpers,
+              progress,
+              params,
+              width: fromElement?.size?.width ?? 0,
+              height: fromElement?.size?.height ?? 0,
+            }
+            return {
+              from: applyProperties(properties.from, fromElement, scope),
+              to: applyProperties(properties.to, toElement, scope),
+            }
+          },
+        }
+        : {}),
+      ...(pixel
+        ? {
+          pixel: (input: TransitionPixelInput) => {
+            let frame = frames.get(input)
+            if (!frame) {
+              const scope: ExpressionScope = { ...helpers, ...input }
+              frame = { scope, evaluate: this.expressionEngine.bind(pixel, scope) }
+              frames.set(input, frame)
+            }
+
+            frame.scope['x'] = input.x
+            frame.scope['y'] = input.y
+            frame.scope['from'] = input.from
+            frame.scope['to'] = input.to
+            return toPixelColor(frame.evaluate())
+          },
+        }
+        : {}),
     }
   }
 
@@ -400,12 +858,17 @@ export class TransitionSystem {
   }
 
   // Effect management
-  getAvailableEffects(): TransitionEffect[] {
-    return Array.from(this.effects.values())
+  getAvailableEffects(project?: MotionProject): TransitionEffect[] {
+    const effects = new Map(this.effects)
+    if (project) {
+      this.getProjectEffects(project).forEach((effect, type) => effects.set(type, effect))
+    }
+    return Array.from(effects.values())
   }
 
-  getEffect(type: TransitionType): TransitionEffect | undefined {
-    return this.effects.get(type)
+  // A project's manifest plugins take precedence over registered plugins
+  getEffect(type: TransitionType, project?: MotionProject): TransitionEffect | undefined {
+    return (project && this.getProjectEffects(project).get(type)) ?? this.effects.get(type)
   }
 
   // Transition creation helpers
@@ -446,10 +909,11 @@ export class TransitionSystem {
   }
 
   // Transition validation
-  validateTransition(transition: SceneTransition): { valid: boolean; errors: string[] } {
+  validateTransition(transition: SceneTransition, project?: MotionProject): { valid: boolean; errors: string[] } {
     const errors: string[] = []
+    const effect = this.getEffect(transition.type, project)
     
-    if (!this.effects.has(transition.type)) {
+    if (!effect) {
       errors.push(`Unknown transition type: ${transition.type}`)
     }
     
@@ -460,6 +924,10 @@ export class TransitionSystem {
     if (transition.duration > 300) {
       errors.push('Transition duration is too long (max 300 frames)')
     }
+
+    if (effect) {
+      errors.push(...this.validateParameters(effect, { ...effect.defaultParams, ...transition.parameters }))
+    }
     
     return {
       valid: errors.length === 0,
@@ -467,6 +935,81 @@ export class TransitionSystem {
     }
   }
 
+  private validateParameters(effect: TransitionEffect, params: Record<string, any>): string[] {
+    // Plugins declare their parameters
+    if (effect.parameters) return validateParameterValues(effect.parameters, params)
+
+    const errors: string[] = []
+    const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1
+
+    switch (effect.type) {
+      case 'reveal':
+        if (!['left', 'right', 'up', 'down'].includes(params['direction'])) {
+          errors.push('Reveal direction must be left, right, up or down')
+        }
+        if (!isFraction(params['softness'])) {
+          errors.push('Reveal softness must be between 0 and 1')
+        }
+        if (!isFraction(params['parallax'])) {
+          errors.push('Reveal parallax must be between 0 and 1')
+        }
+        break
+      case 'iris': {
+        if (!IRIS_SHAPES.includes(params['shape'])) {
+          errors.push(`Iris shape must be one of ${IRIS_SHAPES.join(', ')}`)
+        }
+        const center = params['center']
+        if (!center || !isFraction(center.x) || !isFraction(center.y)) {
+          errors.push('Iris center must have x and y between 0 and 1')
+        }
+        if (!isFraction(params['softness'])) {
+          errors.push('Iris softness must be between 0 and 1')
+        }
+        if (params['mode'] !== 'open' && params['mode'] !== 'close') {
+          errors.push('Iris mode must be open or close')
+        }
+        break
+      }
+      case 'luma':
+        if (typeof params['map'] !== 'string' || params['map'].length === 0) {
+          errors.push(`Luma map must be an image source or one of ${BUNDLED_LUMA_MAPS.join(', ')}`)
+        } else if (!isBundledLumaMap(params['map'])) {
+          // Image maps load like any other asset, so the same sources are refused
+          try {
+            resolveAssetSource(params['map'])
+          } catch (error) {
+            errors.push(`Luma map cannot be loaded: ${error instanceof Error ? error.message : String(error)}`)
+          }
+        }
+        if (!isFraction(params['softness'])) {
+          errors.push('Luma softness must be between 0 and 1')
+        }
+        if (typeof params['invert'] !== 'boolean') {
+          errors.push('Luma invert must be true or false')
+        }
+        if (params['count'] !== undefined && !(Number.isInteger(params['count']) && params['count'] >= 1)) {
+          errors.push('Luma count must be a whole number of at least 1')
+        }
+        if (params['scale'] !== undefined && !(typeof params['scale'] === 'number' && params['scale'] > 0)) {
+          errors.push('Luma scale must be a positive number of pixels')
+        }
+        break
+      case 'flip':
+        if (params['axis'] !== 'x' && params['axis'] !== 'y') {
+          errors.push('Flip axis must be x or y')
+        }
+        if (typeof params['perspective'] !== 'number' || params['perspective'] < 100) {
+          errors.push('Flip perspective must be at least 100 pixels')
+        }
+        if (params['direction'] !== 'forward' && params['direction'] !== 'backward') {
+          errors.push('Flip direction must be forward or backward')
+        }
+        break
+    }
+
+    return errors
+  }
+
   // Performance optimization
   precomputeTransition(
     transition: SceneTransition,
@@ -486,6 +1029,25 @@ export class TransitionSystem {
   }
 }
 
+// Copies along the path, leaving the original untouched
+function setPath(target: any, path: string[], value: unknown): any {
+  const [key, ...rest] = path
+  if (key === undefined) return value
+  return { ...target, [key]: rest.length > 0 ? setPath(target?.[key] ?? {}, rest, value) : value }
+}
+
+function toPixelColor(value: unknown): RGBA {
+  const [r, g, b, a = 1] = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? [(value as any).r, (value as any).g, (value as any).b, (value as any).a]
+      : []
+  if (![r, g, b, a].every(component => typeof component === 'number' && Number.isFinite(component))) {
+    throw new Error('Pixel expression must return [r, g, b, a] or { r, g, b, a }')
+  }
+  return { r, g, b, a }
+}
+
 // Singleton instance
 let transitionSystemInstance: TransitionSystem | null = null
 
@@ -1,120 +1,626 @@
-import { Queue, Worker } from 'bullmq'
+import { Queue, Worker, FlowProducer, QueueEvents, Job, UnrecoverableError } from 'bullmq'
 import Redis from 'ioredis'
+import { promises as fs } from 'fs'
 import { prisma } from '@/lib/database'
-import { renderVideo } from '@/lib/motion-engine/renderer'
+import {
+  renderVideo,
+  getMotionRenderer,
+  RenderOptions,
+  RenderOutput,
+  RenderStage,
+  RenderStats,
+} from '@/lib/motion-engine/renderer'
+import { SpriteSheetOptions } from '@/lib/motion-engine/frame-sequence'
+import { FramePadding } from '@/lib/motion-engine/rasterizer'
+import { getStorage } from '@/lib/storage'
 
 const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379')
 
+const jobOptions = {
+  removeOnComplete: 10,
+  removeOnFail: 5,
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 2000,
+  },
+}
+
 export const renderQueue = new Queue('render', {
   connection: redis,
-  defaultJobOptions: {
-    removeOnComplete: 10,
-    removeOnFail: 5,
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 2000,
-    },
-  },
+  defaultJobOptions: jobOptions,
+})
+
+// Flows don't inherit queue defaults, so chunk jobs get the same options explicitly
+const renderFlow = new FlowProducer({ connection: redis })
+
+// Project frames per chunk; shorter renders run as a single job
+const CHUNK_FRAMES = Number(process.env['RENDER_CHUNK_FRAMES']) || 300
+
+// Cancellation is broadcast so whichever worker runs a render can abort it
+const CANCEL_CHANNEL = 'render:cancel'
+const cancelSubscriber = redis.duplicate()
+const runningRenders = new Map<string, Set<AbortController>>()
+
+cancelSubscriber.subscribe(CANCEL_CHANNEL).catch(error => {
+  console.error('Failed to subscribe to render cancellations:', error)
+})
+cancelSubscriber.on('message', (_channel: string, renderId: string) => {
+  runningRenders.get(renderId)?.forEach(controller => controller.abort())
+  emitRenderProgress({ renderId, status: 'CANCELLED' })
 })
 
+// Live progress travels as BullMQ job progress; Postgres only sees whole percents
+const PROGRESS_INTERVAL = 250 // ms between progress events while a stage runs
+const progressListeners = new Map<string, Set<RenderProgressListener>>()
+let renderEvents: QueueEvents | null = null
+
 export interface RenderJobData {
   renderId: string
   projectId: string
   config: any
-  format: 'mp4' | 'webm' | 'gif'
-  quality: 'low' | 'medium' | 'high' | 'ultra'
-  resolution: '720p' | '1080p' | '4k'
+  format: 'mp4' | 'webm' | 'gif' | 'mov' | 'lottie' | 'frames' | 'png' | 'jpeg'
+  quality: RenderOptions['quality']
+  resolution: RenderOptions['resolution']
+  preset?: string // delivery preset the options were resolved from
+  fps?: number
+  maxBitrate?: string
+  maxFileSize?: number // bytes
+  aspectRatio?: { width: number; height: number } // padded when it differs from the project
+  padding?: FramePadding
+  spriteSheet?: SpriteSheetOptions
+  alpha?: boolean
+  startFrame?: number
+  endFrame?: number
+  frame?: number // still formats only
+  setThumbnail?: boolean // still formats only: use the image as the project thumbnail
+  chunkIndex?: number // chunk jobs only
+  chunkCount?: number // chunk and concat jobs only
   userId: string
 }
 
+export interface RenderProgressEvent {
+  renderId: string
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+  progress?: number // overall percent, chunks rolled up
+  stage?: RenderStage
+  stats?: RenderStats // per job; chunk events describe their own chunk
+  chunkIndex?: number
+  chunkCount?: number
+  videoUrl?: string
+  warnings?: string[] // completed renders only
+  error?: string
+}
+
+export type RenderProgressListener = (event: RenderProgressEvent) => void
+
+interface ChunkResult {
+  chunkIndex: number
+  output: RenderOutput
+}
+
+// Queue a render, fanning long video renders out into frame-range chunks
+export async function enqueueRender(data: RenderJobData): Promise<void> {
+  const ranges = getChunkRanges(data)
+
+  if (ranges.length <= 1) {
+    await renderQueue.add('render-video', data)
+    return
+  }
+
+  // The concat parent only runs once every chunk has completed
+  await renderFlow.add({
+    name: 'render-concat',
+    queueName: 'render',
+    data: { ...data, chunkCount: ranges.length },
+    opts: jobOptions,
+    children: ranges.map((range, chunkIndex) => ({
+      name: 'render-chunk',
+      queueName: 'render',
+      data: {
+        ...data,
+        startFrame: range.start,
+        endFrame: range.end,
+        chunkIndex,
+        chunkCount: ranges.length,
+      },
+      // Chunks retry on their own; only an exhausted chunk fails the render
+      opts: { ...jobOptions, failParentOnFailure: true },
+    })),
+  })
+}
+
+// Cancel a render: drop its queued jobs and abort any running ones between frames
+export async function cancelRender(renderId: string): Promise<void> {
+  // The flag also catches jobs that start after the broadcast
+  await redis.set(getCancelKey(renderId), '1', 'EX', 60 * 60 * 24)
+  await redis.publish(CANCEL_CHANNEL, renderId)
+
+  const pending = await renderQueue.getJobs(['waiting', 'delayed', 'prioritized', 'waiting-children'])
+  const jobs = pending.filter(job => (job.data as RenderJobData | undefined)?.renderId === renderId)
+
+  // Children first, so a concat parent is no longer held by waiting chunks.
+  // Locked (active) jobs are skipped by remove() and abort on their own.
+  const ordered = [
+    ...jobs.filter(job => job.name === 'render-chunk'),
+    ...jobs.filter(job => job.name !== 'render-chunk'),
+  ]
+  for (const job of ordered) {
+    await job.remove().catch(() => undefined)
+  }
+
+  const render = await prisma.render.findUnique({
+    where: { id: renderId },
+    select: { projectId: true },
+  })
+  if (render) {
+    await markRenderCancelled(renderId, render.projectId)
+  }
+}
+
+// Listen for progress events of one render; returns an unsubscribe function
+export function subscribeToRenderProgress(renderId: string, listener: RenderProgressListener): () => void {
+  if (!renderEvents) {
+    // QueueEvents blocks on its connection, so it needs one of its own
+    renderEvents = new QueueEvents('render', { connection: redis.duplicate() })
+    renderEvents.on('progress', ({ data }) => {
+      if (isRenderProgressEvent(data)) {
+        emitRenderProgress(data)
+      }
+    })
+    renderEvents.on('error', error => {
+      console.error('Render progress events error:', error)
+    })
+  }
+
+  const listeners = progressListeners.get(renderId) ?? new Set<RenderProgressListener>()
+  listeners.add(listener)
+  progressListeners.set(renderId, listeners)
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) {
+      progressListeners.delete(renderId)
+    }
+  }
+}
+
+function emitRenderProgress(event: RenderProgressEvent) {
+  progressListeners.get(event.renderId)?.forEach(listener => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.warn('Render progress listener failed:', error)
+    }
+  })
+}
+
+function isRenderProgressEvent(data: unknown): data is RenderProgressEvent {
+  return typeof data === 'object' && data !== null && typeof (data as RenderProgressEvent).renderId === 'string'
+}
+
+function getChunkRanges(data: RenderJobData): Array<{ start: number; end: number }> {
+  if (!getMotionRenderer().canRenderInChunks(data.format)) return []
+
+  const duration = Number(data.config?.duration) || 0
+  const start = data.startFrame ?? 0
+  const end = Math.min(data.endFrame ?? duration - 1, duration - 1)
+  const ranges: Array<{ start: number; end: number }> = []
+
+  for (let chunkStart = start; chunkStart <= end; chunkStart += CHUNK_FRAMES) {
+    ranges.push({ start: chunkStart, end: Math.min(end, chunkStart + CHUNK_FRAMES - 1) })
+  }
+
+  return ranges
+}
+
 // Worker to process render jobs
 const renderWorker = new Worker(
   'render',
   async (job) => {
-    const data = job.data as RenderJobData
-    
-    try {
-      // Update render status to processing
-      await prisma.render.update({
-        where: { id: data.renderId },
-        data: {
-          status: 'PROCESSING',
-          startedAt: new Date(),
-        },
+    switch (job.name) {
+      case 'render-chunk':
+        return processChunk(job)
+      case 'render-concat':
+        return processConcat(job)
+      default:
+        return processRender(job)
+    }
+  },
+  {
+    connection: redis,
+    concurrency: 2, // Process 2 renders simultaneously
+  }
+)
+
+async function processRender(job: Job) {
+  const data = job.data as RenderJobData
+  const controller = trackRender(data.renderId)
+  const progress = createProgressReporter(job, data)
+
+  try {
+    await startRender(data, controller)
+
+    // Render the video
+    let output: RenderOutput | undefined
+    const videoUrl = await renderVideo(data.config, {
+      ...getRenderOptions(data),
+      signal: controller.signal,
+      onProgress: progress.report,
+      onComplete: (result) => {
+        output = result
+      },
+    })
+
+    await progress.flush()
+    if (await completeRender(data, videoUrl, output)) {
+      await publishRenderProgress(job, {
+        renderId: data.renderId,
+        status: 'COMPLETED',
+        progress: 100,
+        videoUrl,
+        ...(output?.warnings?.length ? { warnings: output.warnings } : {}),
       })
+    }
 
-      // Update project status
-      await prisma.project.update({
-        where: { id: data.projectId },
-        data: { status: 'RENDERING' },
+    return { videoUrl }
+  } catch (error) {
+    await progress.flush()
+    if (controller.signal.aborted) {
+      await markRenderCancelled(data.renderId, data.projectId)
+      throw new UnrecoverableError('Render cancelled')
+    }
+    // Earlier attempts are retried by BullMQ; only the last one fails the render
+    if (isLastAttempt(job) && await failRender(data, error)) {
+      await publishRenderProgress(job, { renderId: data.renderId, status: 'FAILED', error: getErrorMessage(error) })
+    }
+    throw error
+  } finally {
+    untrackRender(data.renderId, controller)
+  }
+}
+
+async function processChunk(job: Job): Promise<ChunkResult> {
+  const data = job.data as RenderJobData
+  const chunkIndex = data.chunkIndex ?? 0
+  const controller = trackRender(data.renderId)
+  const progress = createProgressReporter(job, data)
+
+  try {
+    await startRender(data, controller)
+
+    let output: RenderOutput | undefined
+    // The file-size limit applies to the assembled video, checked by processConcat
+    const { maxFileSize: _maxFileSize, ...options } = getRenderOptions(data)
+    await renderVideo(data.config, {
+      ...options,
+      // Deterministic path so a retried chunk overwrites its own partial output
+      outputPath: getMotionRenderer().getChunkOutputPath(data.renderId, chunkIndex, data.format),
+      signal: controller.signal,
+      onProgress: progress.report,
+      onComplete: (result) => {
+        output = result
+      },
+    })
+
+    await progress.flush()
+    if (!output) {
+      throw new Error(`Chunk ${chunkIndex} finished without output`)
+    }
+
+    return { chunkIndex, output: await getMotionRenderer().storeChunk(data.renderId, output) }
+  } catch (error) {
+    await progress.flush()
+    if (controller.signal.aborted) {
+      // Failing the chunk for good also fails its waiting concat parent
+      await markRenderCancelled(data.renderId, data.projectId)
+      throw new UnrecoverableError('Render cancelled')
+    }
+    // Earlier attempts are retried by BullMQ; only the last one fails the render
+    if (isLastAttempt(job) && await failRender(data, error)) {
+      await publishRenderProgress(job, { renderId: data.renderId, status: 'FAILED', error: getErrorMessage(error) })
+    }
+    throw error
+  } finally {
+    untrackRender(data.renderId, controller)
+  }
+}
+
+async function processConcat(job: Job) {
+  const data = job.data as RenderJobData
+  const renderer = getMotionRenderer()
+
+  try {
+    const values = await job.getChildrenValues<ChunkResult>()
+    const chunks = Object.values(values).sort((a, b) => a.chunkIndex - b.chunkIndex)
+
+    if (chunks.length !== data.chunkCount) {
+      throw new Error(`Expected ${data.chunkCount} chunks, got ${chunks.length}`)
+    }
+
+    await publishRenderProgress(job, {
+      renderId: data.renderId,
+      status: 'PROCESSING',
+      progress: 95,
+      stage: 'finalizing',
+      ...(data.chunkCount !== undefined ? { chunkCount: data.chunkCount } : {}),
+    })
+
+    const output = await renderer.concatChunks(
+      data.renderId,
+      chunks.map(chunk => chunk.output),
+      data.format,
+      data.maxFileSize
+    )
+    await renderer.removeChunks(data.renderId)
+    await redis.del(getChunkProgressKey(data.renderId))
+
+    if (await completeRender(data, output.url, output)) {
+      await publishRenderProgress(job, {
+        renderId: data.renderId,
+        status: 'COMPLETED',
+        progress: 100,
+        videoUrl: output.url,
+        ...(output.warnings?.length ? { warnings: output.warnings } : {}),
       })
+    }
 
-      // Progress callback
-      const onProgress = async (progress: number) => {
-        await job.updateProgress(progress)
-        await prisma.render.update({
-          where: { id: data.renderId },
-          data: { progress },
+    return { videoUrl: output.url }
+  } catch (error) {
+    if (isLastAttempt(job) && await failRender(data, error)) {
+      await publishRenderProgress(job, { renderId: data.renderId, status: 'FAILED', error: getErrorMessage(error) })
+    }
+    throw error
+  }
+}
+
+// Progress reporting. Renderer callbacks are synchronous and frequent, so
+// updates are throttled and chained to keep events in order.
+function createProgressReporter(job: Job, data: RenderJobData) {
+  let pending = Promise.resolve()
+  let lastStage: RenderStage | null = null
+  let lastEventAt = 0
+  let lastPersisted = -1
+
+  const report = (progress: number, stage: RenderStage, stats: RenderStats) => {
+    const now = Date.now()
+    if (stage === lastStage && progress < 100 && now - lastEventAt < PROGRESS_INTERVAL) return
+    lastStage = stage
+    lastEventAt = now
+
+    pending = pending
+      .then(async () => {
+        const overall = data.chunkIndex !== undefined
+          ? await rollUpChunkProgress(data, progress)
+          : progress
+
+        await publishRenderProgress(job, {
+          renderId: data.renderId,
+          status: 'PROCESSING',
+          progress: overall,
+          stage,
+          stats,
+          ...(data.chunkIndex !== undefined ? { chunkIndex: data.chunkIndex } : {}),
+          ...(data.chunkCount !== undefined ? { chunkCount: data.chunkCount } : {}),
         })
-      }
 
-      // Render the video
-      const videoUrl = await renderVideo(data.config, {
-        format: data.format,
-        quality: data.quality,
-        resolution: data.resolution,
-        onProgress,
+        const rounded = Math.round(overall)
+        if (rounded !== lastPersisted) {
+          lastPersisted = rounded
+          await prisma.render.update({
+            where: { id: data.renderId },
+            data: { progress: rounded },
+          })
+        }
       })
-
-      // Update render status to completed
-      await prisma.render.update({
-        where: { id: data.renderId },
-        data: {
-          status: 'COMPLETED',
-          progress: 100,
-          videoUrl,
-          completedAt: new Date(),
-        },
+      .catch(error => {
+        console.warn('Failed to report render progress:', error)
       })
+  }
 
-      // Update project status and video URL
-      await prisma.project.update({
-        where: { id: data.projectId },
-        data: {
-          status: 'COMPLETED',
-          videoUrl,
-        },
-      })
+  return { report, flush: () => pending }
+}
 
-      return { videoUrl }
-    } catch (error) {
-      console.error('Render job failed:', error)
-      
-      // Update render status to failed
-      await prisma.render.update({
-        where: { id: data.renderId },
-        data: {
-          status: 'FAILED',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          completedAt: new Date(),
-        },
-      })
+async function publishRenderProgress(job: Job, event: RenderProgressEvent) {
+  // QueueEvents relays this to every subscribed process
+  await job.updateProgress(event).catch(error => {
+    console.warn('Failed to publish render progress:', error)
+  })
+}
+
+// Chunk progress is kept per chunk in Redis and averaged across the render
+async function rollUpChunkProgress(data: RenderJobData, progress: number): Promise<number> {
+  const key = getChunkProgressKey(data.renderId)
+  await redis.hset(key, String(data.chunkIndex ?? 0), String(progress))
+  await redis.expire(key, 60 * 60 * 24)
+
+  const values = await redis.hvals(key)
+  const total = values.reduce((sum, value) => sum + Number(value), 0)
+  // Keep the last few percent for concatenation
+  return (total / Math.max(1, data.chunkCount ?? 1)) * 0.95
+}
+
+function getChunkProgressKey(renderId: string): string {
+  return `render:${renderId}:chunks`
+}
+
+function getCancelKey(renderId: string): string {
+  return `render:${renderId}:cancelled`
+}
+
+function trackRender(renderId: string): AbortController {
+  const controller = new AbortController()
+  const controllers = runningRenders.get(renderId) ?? new Set<AbortController>()
+  controllers.add(controller)
+  runningRenders.set(renderId, controllers)
+  return controller
+}
+
+function untrackRender(renderId: string, controller: AbortController) {
+  const controllers = runningRenders.get(renderId)
+  controllers?.delete(controller)
+  if (controllers?.size === 0) {
+    runningRenders.delete(renderId)
+  }
+}
+
+function getRenderOptions(data: RenderJobData): RenderOptions {
+  return {
+    format: data.format,
+    quality: data.quality,
+    resolution: data.resolution,
+    ...(data.fps !== undefined ? { fps: data.fps } : {}),
+    ...(data.maxBitrate ? { maxBitrate: data.maxBitrate } : {}),
+    ...(data.maxFileSize !== undefined ? { maxFileSize: data.maxFileSize } : {}),
+    ...(data.aspectRatio ? { aspectRatio: data.aspectRatio } : {}),
+    ...(data.padding ? { padding: data.padding } : {}),
+    ...(data.spriteSheet ? { spriteSheet: data.spriteSheet } : {}),
+    alpha: data.alpha ?? false,
+    ...(data.startFrame !== undefined ? { startFrame: data.startFrame } : {}),
+    ...(data.endFrame !== undefined ? { endFrame: data.endFrame } : {}),
+    ...(data.frame !== undefined ? { frame: data.frame } : {}),
+  }
+}
 
-      // Update project status
+function isStill(data: RenderJobData): boolean {
+  return data.format === 'png' || data.format === 'jpeg'
+}
+
+// Render lifecycle
+async function startRender(data: RenderJobData, controller: AbortController) {
+  if (await redis.exists(getCancelKey(data.renderId))) {
+    controller.abort()
+    throw new Error('Render cancelled')
+  }
+
+  // Chunks start in parallel; only the first one flips the status
+  await prisma.render.updateMany({
+    where: { id: data.renderId, status: 'PENDING' },
+    data: {
+      status: 'PROCESSING',
+      startedAt: new Date(),
+    },
+  })
+
+  // Update project status
+  if (!isStill(data)) {
+    await prisma.project.update({
+      where: { id: data.projectId },
+      data: { status: 'RENDERING' },
+    })
+  }
+}
+
+// Returns false when the render was cancelled while finishing
+async function completeRender(data: RenderJobData, videoUrl: string, output: RenderOutput | undefined): Promise<boolean> {
+  // Only complete renders replace the project's video
+  const fullRender = !isStill(data) && data.startFrame === undefined && data.endFrame === undefined
+
+  // Update render status to completed, unless it was cancelled while finishing
+  const { count } = await prisma.render.updateMany({
+    where: { id: data.renderId, status: { not: 'CANCELLED' } },
+    data: {
+      status: 'COMPLETED',
+      progress: 100,
+      videoUrl,
+      fileSize: output?.size ?? null,
+      duration: output?.duration ?? null,
+      reusedFrames: output?.reusedFrames ?? null,
+      ...(output?.warnings?.length ? { warnings: output.warnings } : {}),
+      completedAt: new Date(),
+    },
+  })
+
+  if (count === 0) {
+    if (output?.storageKey) {
+      await getStorage().delete(output.storageKey)
+    } else if (output) {
+      await fs.rm(output.path, { force: true })
+    }
+    return false
+  }
+
+  // Update project status and video URL
+  if (isStill(data)) {
+    if (data.setThumbnail) {
       await prisma.project.update({
         where: { id: data.projectId },
-        data: { status: 'FAILED' },
+        data: { thumbnailUrl: videoUrl },
       })
-
-      throw error
     }
-  },
-  {
-    connection: redis,
-    concurrency: 2, // Process 2 renders simultaneously
+  } else {
+    await prisma.project.update({
+      where: { id: data.projectId },
+      data: {
+        status: 'COMPLETED',
+        ...(fullRender ? { videoUrl } : {}),
+      },
+    })
   }
-)
+
+  return true
+}
+
+// Returns false when the render had already been cancelled
+async function failRender(data: RenderJobData, error: unknown): Promise<boolean> {
+  console.error('Render job failed:', error)
+
+  // Update render status to failed
+  const { count } = await prisma.render.updateMany({
+    where: { id: data.renderId, status: { not: 'CANCELLED' } },
+    data: {
+      status: 'FAILED',
+      errorMessage: getErrorMessage(error),
+      completedAt: new Date(),
+    },
+  })
+
+  // Update project status
+  if (count > 0 && !isStill(data)) {
+    await prisma.project.update({
+      where: { id: data.projectId },
+      data: { status: 'FAILED' },
+    })
+  }
+
+  return count > 0
+}
+
+function isLastAttempt(job: Job): boolean {
+  return job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+async function markRenderCancelled(renderId: string, projectId: string) {
+  await prisma.render.updateMany({
+    where: { id: renderId, status: { in: ['PENDING', 'PROCESSING'] } },
+    data: {
+      status: 'CANCELLED',
+      completedAt: new Date(),
+    },
+  })
+
+  await getMotionRenderer().removeChunks(renderId)
+  await redis.del(getChunkProgressKey(renderId))
+
+  // Restore the project unless another render is still running for it
+  const active = await prisma.render.count({
+    where: { projectId, status: { in: ['PENDING', 'PROCESSING'] } },
+  })
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { status: true, videoUrl: true },
+  })
+  if (active === 0 && project?.status === 'RENDERING') {
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { status: project.videoUrl ? 'COMPLETED' : 'DRAFT' },
+    })
+  }
+}
 
 renderWorker.on('completed', (job) => {
   console.log(`Render job ${job.id} completed`)
@@ -0,0 +1,66 @@
+import path from 'path'
+import { StorageDriver } from './storage-driver'
+import { LocalStorage } from './local-storage'
+import { S3Storage } from './s3-storage'
+
+// Storage exports
+export {
+  DEFAULT_URL_TTL,
+  getContentType,
+  getContentDisposition,
+  getFileUrl,
+  getKeyFromUrl,
+  isValidKey,
+  type StorageDriver,
+  type StoredFile,
+  type StoredFileInfo,
+  type SignedUrlOptions,
+} from './storage-driver'
+export { LocalStorage } from './local-storage'
+export { S3Storage, type S3StorageSettings } from './s3-storage'
+
+// Singleton instance, configured from the environment
+let storageInstance: StorageDriver | null = null
+
+export function getStorage(): StorageDriver {
+  if (!storageInstance) {
+    storageInstance = createStorage()
+  }
+  return storageInstance
+}
+
+function createStorage(): StorageDriver {
+  const driver = process.env['STORAGE_DRIVER'] || 'local'
+
+  if (driver === 's3') {
+    const bucket = process.env['S3_BUCKET']
+    if (!bucket) {
+      throw new Error('S3_BUCKET is not set in environment variables')
+    }
+
+    const endpoint = process.env['S3_ENDPOINT']
+    const accessKeyId = process.env['S3_ACCESS_KEY_ID']
+    const secretAccessKey = process.env['S3_SECRET_ACCESS_KEY']
+    const prefix = process.env['S3_PREFIX']
+
+    return new S3Storage({
+      bucket,
+      region: process.env['S3_REGION'] || 'us-east-1',
+      ...(endpoint ? { endpoint } : {}),
+      forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+      ...(accessKeyId ? { accessKeyId } : {}),
+      ...(secretAccessKey ? { secretAccessKey } : {}),
+      ...(prefix ? { prefix } : {}),
+    })
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+  }
+
+  // Defaults to the render output directory, so finished renders are stored in place
+  const root = process.env['STORAGE_LOCAL_DIR'] ||
+    process.env['RENDER_OUTPUT_DIR'] ||
+    path.join(process.cwd(), 'uploads', 'renders')
+  return new LocalStorage(root, process.env['STORAGE_SIGNING_SECRET'] || process.env['NEXTAUTH_SECRET'])
+}
@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createReadStream, promises as fs, ReadStream } from 'fs'
+import path from 'path'
+import {
+  StorageDriver,
+  StoredFile,
+  StoredFileInfo,
+  SignedUrlOptions,
+  DEFAULT_URL_TTL,
+  assertValidKey,
+  getContentType,
+  getFileUrl,
+} from './storage-driver'
+
+// Stores files under a directory on this machine. Signed URLs point back at
+// the files route and carry an HMAC over the key, expiry and download name.
+
+export class LocalStorage implements StorageDriver {
+  readonly driver = 'local'
+
+  constructor(
+    private root: string,
+    private signingSecret: string | undefined
+  ) {}
+
+  async putFile(key: string, sourcePath: string): Promise<StoredFile> {
+    const targetPath = this.resolvePath(key)
+
+    // Renders are written inside the storage root, so this is usually a no-op
+    if (path.resolve(sourcePath) !== targetPath) {
+      await fs.mkdir(path.dirname(targetPath), { recursive: true })
+      try {
+        await fs.rename(sourcePath, targetPath)
+      } catch (error) {
+        // Renaming fails across devices; fall back to copying
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error
+        await fs.copyFile(sourcePath, targetPath)
+        await fs.rm(sourcePath, { force: true })
+      }
+    }
+
+    const stats = await fs.stat(targetPath)
+    return { key, size: stats.size, url: getFileUrl(key) }
+  }
+
+  async getFile(key: string, targetPath: string): Promise<void> {
+    const sourcePath = this.resolvePath(key)
+    if (path.resolve(targetPath) === sourcePath) {
+      await fs.access(sourcePath)
+      return
+    }
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true })
+    await fs.copyFile(sourcePath, targetPath)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true })
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolvePath(prefix), { recursive: true, force: true })
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(key))
+      if (!stats.isFile()) return null
+      return { size: stats.size, contentType: getContentType(key), modifiedAt: stats.mtime }
+    } catch {
+      return null
+    }
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    assertValidKey(key)
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn ?? DEFAULT_URL_TTL)
+
+    const params = new URLSearchParams({ expires: String(expires) })
+    if (options.downloadName) {
+      params.set('download', options.downloadName)
+    }
+    params.set('signature', this.sign(key, expires, options.downloadName))
+
+    return `${getFileUrl(key)}?${params.toString()}`
+  }
+
+  verifySignature(key: string, expires: number, signature: string, downloadName?: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false
+
+    const expected = Buffer.from(this.sign(key, expires, downloadName))
+    const actual = Buffer.from(signature)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  }
+
+  // Byte range is inclusive, as in HTTP Range headers
+  createReadStream(key: string, range?: { start: number; end: number }): ReadStream {
+    return createReadStream(this.resolvePath(key), range)
+  }
+
+  resolvePath(key: string): string {
+    assertValidKey(key)
+    const root = path.resolve(this.root)
+    const filePath = path.resolve(root, ...key.split('/'))
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`)
+    }
+    return filePath
+  }
+
+  private sign(key: string, expires: number, downloadName?: string): string {
+    if (!this.signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET must be set to sign file URLs')
+    }
+
+    return createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${downloadName ?? ''}`)
+      .digest('base64url')
+  }
+}
+
+export default LocalStorage
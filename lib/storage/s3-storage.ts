@@ -0,0 +1,158 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import path from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import {
+  StorageDriver,
+  StoredFile,
+  StoredFileInfo,
+  SignedUrlOptions,
+  DEFAULT_URL_TTL,
+  assertValidKey,
+  getContentDisposition,
+  getContentType,
+  getFileUrl,
+} from './storage-driver'
+
+// Stores files in an S3-compatible bucket (AWS S3, MinIO, R2, ...). Signed
+// URLs are presigned GETs, so downloads go straight to the bucket.
+
+export interface S3StorageSettings {
+  bucket: string
+  region: string
+  endpoint?: string // set for S3-compatible services
+  forcePathStyle?: boolean // MinIO and most self-hosted services need path-style URLs
+  accessKeyId?: string // falls back to the default AWS credential chain
+  secretAccessKey?: string
+  prefix?: string // key prefix inside the bucket
+}
+
+// Presigned URLs are capped at seven days by SigV4
+const MAX_URL_TTL = 7 * 24 * 60 * 60
+
+export class S3Storage implements StorageDriver {
+  readonly driver = 's3'
+  private client: S3Client
+
+  constructor(private settings: S3StorageSettings) {
+    this.client = new S3Client({
+      region: settings.region,
+      ...(settings.endpoint ? { endpoint: settings.endpoint } : {}),
+      forcePathStyle: settings.forcePathStyle ?? false,
+      // Default checksums use aws-chunked uploads that many S3-compatible services reject
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+      ...(settings.accessKeyId && settings.secretAccessKey
+        ? { credentials: { accessKeyId: settings.accessKeyId, secretAccessKey: settings.secretAccessKey } }
+        : {}),
+    })
+  }
+
+  async putFile(key: string, sourcePath: string): Promise<StoredFile> {
+    const stats = await fs.stat(sourcePath)
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.settings.bucket,
+      Key: this.getObjectKey(key),
+      Body: createReadStream(sourcePath),
+      ContentLength: stats.size,
+      ContentType: getContentType(key),
+    }))
+    await fs.rm(sourcePath, { force: true })
+
+    return { key, size: stats.size, url: getFileUrl(key) }
+  }
+
+  async getFile(key: string, targetPath: string): Promise<void> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.settings.bucket,
+      Key: this.getObjectKey(key),
+    }))
+    if (!object.Body) {
+      throw new Error(`Stored file ${key} has no content`)
+    }
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true })
+    await pipeline(object.Body as Readable, createWriteStream(targetPath))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.settings.bucket,
+      Key: this.getObjectKey(key),
+    }))
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    let continuationToken: string | undefined
+
+    // Listings return at most 1000 keys, which is also the batch delete limit
+    do {
+      const listing = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.settings.bucket,
+        Prefix: `${this.getObjectKey(prefix)}/`,
+        ...(continuationToken ? { ContinuationToken: continuationToken } : {}),
+      }))
+      const objects = (listing.Contents ?? []).flatMap(object => object.Key ? [{ Key: object.Key }] : [])
+
+      if (objects.length > 0) {
+        await this.client.send(new DeleteObjectsCommand({
+          Bucket: this.settings.bucket,
+          Delete: { Objects: objects, Quiet: true },
+        }))
+      }
+      continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined
+    } while (continuationToken)
+  }
+
+  async stat(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({
+        Bucket: this.settings.bucket,
+        Key: this.getObjectKey(key),
+      }))
+      return {
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType ?? getContentType(key),
+        modifiedAt: head.LastModified ?? new Date(0),
+      }
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode
+      if (status === 404) return null
+      throw error
+    }
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.settings.bucket,
+      Key: this.getObjectKey(key),
+      ResponseContentType: getContentType(key),
+      ...(options.downloadName
+        ? { ResponseContentDisposition: getContentDisposition(options.downloadName) }
+        : {}),
+    })
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: Math.min(MAX_URL_TTL, options.expiresIn ?? DEFAULT_URL_TTL),
+    })
+  }
+
+  private getObjectKey(key: string): string {
+    assertValidKey(key)
+    const prefix = this.settings.prefix?.replace(/^\/+|\/+$/g, '')
+    return prefix ? `${prefix}/${key}` : key
+  }
+}
+
+export default S3Storage
@@ -0,0 +1,92 @@
+import path from 'path'
+
+// Contract shared by the storage drivers. Keys are relative, slash-separated
+// paths such as 'videos/abc123.mp4'; drivers map them onto a directory or bucket.
+
+export interface StoredFile {
+  key: string
+  size: number // bytes
+  url: string // stable app URL, see getFileUrl
+}
+
+export interface StoredFileInfo {
+  size: number // bytes
+  contentType: string
+  modifiedAt: Date
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number // seconds
+  downloadName?: string // served as an attachment under this name
+}
+
+export interface StorageDriver {
+  readonly driver: 'local' | 's3'
+  // Moves a finished local file into storage; the source file is consumed
+  putFile(key: string, sourcePath: string): Promise<StoredFile>
+  // Copies a stored file to a local path; the stored file is kept
+  getFile(key: string, targetPath: string): Promise<void>
+  delete(key: string): Promise<void>
+  // Deletes every file under a key prefix such as 'chunks/abc123'
+  deletePrefix(prefix: string): Promise<void>
+  stat(key: string): Promise<StoredFileInfo | null>
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>
+}
+
+// Stable URLs are stored on renders and projects; the files route resolves
+// them for signed-in owners
+const FILE_URL_PREFIX = '/api/files/'
+
+// Lifetime of signed URLs, in seconds
+export const DEFAULT_URL_TTL = Number(process.env['STORAGE_URL_TTL']) || 60 * 60
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.gif': 'image/gif',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+}
+
+export function getContentType(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+}
+
+export function isValidKey(key: string): boolean {
+  return key.length > 0 &&
+    !key.startsWith('/') &&
+    !key.includes('\\') &&
+    key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..')
+}
+
+export function assertValidKey(key: string): void {
+  if (!isValidKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+}
+
+export function getFileUrl(key: string): string {
+  return FILE_URL_PREFIX + key.split('/').map(encodeURIComponent).join('/')
+}
+
+export function getKeyFromUrl(url: string): string | null {
+  if (!url.startsWith(FILE_URL_PREFIX)) return null
+
+  const key = url
+    .slice(FILE_URL_PREFIX.length)
+    .split('?')[0]!
+    .split('/')
+    .map(decodeURIComponent)
+    .join('/')
+  return isValidKey(key) ? key : null
+}
+
+export function getContentDisposition(downloadName: string): string {
+  // Plain ASCII fallback plus the RFC 5987 form for everything else
+  const fallback = downloadName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+}
@@ -39,6 +39,15 @@ const nextConfig = {
         fs: false,
         path: false,
         os: false,
+        child_process: false,
+      };
+
+      // Server-only render dependencies
+      config.resolve.alias = {
+        ...config.resolve.alias,
+        sharp: false,
+        'ffmpeg-static': false,
+        archiver: false,
       };
     }
 